@@ -34,7 +34,7 @@ public class ApiResponse<T>
 
     // Falha com erro único
     public static ApiResponse<T> Fail(string code, string message)
-        => new(false, default!, null, [new Error(message)]);
+        => new(false, default!, null, [new Error(message, code)]);
 
     // Falha com múltiplos erros
     public static ApiResponse<T> Fail(List<Error> errors)
@@ -54,7 +54,7 @@ public class ApiResponse : ApiResponse<object>
         => new(false, null, validation.Errors.ToList());
 
     public static new ApiResponse Fail(string code, string message)
-        => new(false, null, [new Error(message)]);
+        => new(false, null, [new Error(message, code)]);
 
     public static new ApiResponse Fail(List<Error> errors)
         => new(false, null, errors);
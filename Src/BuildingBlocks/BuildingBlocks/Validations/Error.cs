@@ -1,3 +1,7 @@
+using System.Text.Json.Serialization;
+
 namespace BuildingBlocks.Validations;
 
-public record Error(string Message);
+public record Error(
+    string Message,
+    [property: JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)] string? Code = null);
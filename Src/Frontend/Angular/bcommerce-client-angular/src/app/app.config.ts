@@ -1,14 +1,34 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import {
+  ApplicationConfig,
+  LOCALE_ID,
+  inject,
+  provideAppInitializer,
+  provideBrowserGlobalErrorListeners,
+  provideZoneChangeDetection
+} from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+import { registerLocaleData } from '@angular/common';
+import localePt from '@angular/common/locales/pt';
+import { provideHttpClient, withInterceptors, withInterceptorsFromDi } from '@angular/common/http';
 
 import { routes } from './app.routes';
+import { authInterceptor } from './core/interceptors/auth.interceptor';
+import { timeoutInterceptor } from './core/interceptors/timeout.interceptor';
+import { AuthService } from './core/services/auth.service';
+
+// Preços, datas e números no formato brasileiro (R$ 1.234,56)
+registerLocaleData(localePt, 'pt-BR');
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
-    provideHttpClient(withInterceptorsFromDi())
+    { provide: LOCALE_ID, useValue: 'pt-BR' },
+    provideHttpClient(withInterceptorsFromDi(), withInterceptors([timeoutInterceptor, authInterceptor])),
+    // Atualiza o perfil da sessão restaurada sem bloquear o bootstrap
+    provideAppInitializer(() => {
+      void inject(AuthService).loadProfile();
+    })
   ]
 };
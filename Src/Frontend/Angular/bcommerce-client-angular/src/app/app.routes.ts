@@ -1,5 +1,8 @@
 import { Routes } from '@angular/router';
 import { authGuard } from './core/guards/auth.guard';
+import { checkoutStepGuard } from './core/guards/checkout.guard';
+import { completeFavoriteGuard } from './core/guards/favorites.guard';
+import { guestGuard } from './core/guards/guest.guard';
 
 export const routes: Routes = [
   {
@@ -13,11 +16,29 @@ export const routes: Routes = [
   },
   {
     path: 'login',
-    loadComponent: () => import('./features/auth/pages/login/login').then(m => m.Login)
+    loadComponent: () => import('./features/auth/pages/login/login').then(m => m.Login),
+    canActivate: [guestGuard]
   },
   {
     path: 'register',
-    loadComponent: () => import('./features/auth/pages/register/register').then(m => m.Register)
+    loadComponent: () => import('./features/auth/pages/register/register').then(m => m.Register),
+    canActivate: [guestGuard]
+  },
+  {
+    path: 'confirm-email',
+    loadComponent: () => import('./features/auth/pages/confirm-email/confirm-email').then(m => m.ConfirmEmail)
+  },
+  {
+    path: 'resend-activation',
+    loadComponent: () => import('./features/auth/pages/resend-activation/resend-activation').then(m => m.ResendActivation)
+  },
+  {
+    path: 'forgot-password',
+    loadComponent: () => import('./features/auth/pages/forgot-password/forgot-password').then(m => m.ForgotPassword)
+  },
+  {
+    path: 'reset-password',
+    loadComponent: () => import('./features/auth/pages/reset-password/reset-password').then(m => m.ResetPassword)
   },
   {
     path: 'auth/login',
@@ -29,10 +50,121 @@ export const routes: Routes = [
     redirectTo: '/register',
     pathMatch: 'full'
   },
+  {
+    path: 'auth/confirm-email',
+    redirectTo: '/confirm-email',
+    pathMatch: 'full'
+  },
+  {
+    path: 'auth/reset-password',
+    redirectTo: '/reset-password',
+    pathMatch: 'full'
+  },
+  {
+    path: 'categories',
+    loadComponent: () => import('./features/catalog/pages/categories/categories').then(m => m.Categories)
+  },
+  {
+    path: 'category/:slug',
+    loadComponent: () => import('./features/catalog/pages/category-listing/category-listing').then(m => m.CategoryListing)
+  },
+  {
+    path: 'product/:slug',
+    loadComponent: () => import('./features/catalog/pages/product-detail/product-detail').then(m => m.ProductDetail)
+  },
+  {
+    path: 'search',
+    loadComponent: () => import('./features/catalog/pages/search/search').then(m => m.Search)
+  },
+  {
+    path: 'cart',
+    loadComponent: () => import('./features/cart/pages/cart/cart').then(m => m.CartPage)
+  },
+  {
+    path: 'checkout/confirmation/:orderNumber',
+    loadComponent: () => import('./features/checkout/pages/order-confirmation/order-confirmation').then(m => m.OrderConfirmation),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'checkout',
+    loadComponent: () => import('./features/checkout/pages/checkout/checkout').then(m => m.Checkout),
+    canActivate: [authGuard],
+    children: [
+      {
+        path: '',
+        redirectTo: 'address',
+        pathMatch: 'full'
+      },
+      {
+        path: 'address',
+        loadComponent: () => import('./features/checkout/pages/address-step/address-step').then(m => m.AddressStep),
+        canActivate: [checkoutStepGuard],
+        data: { step: 'address' }
+      },
+      {
+        path: 'shipping',
+        loadComponent: () => import('./features/checkout/pages/shipping-step/shipping-step').then(m => m.ShippingStep),
+        canActivate: [checkoutStepGuard],
+        data: { step: 'shipping' }
+      },
+      {
+        path: 'payment',
+        loadComponent: () => import('./features/checkout/pages/payment-step/payment-step').then(m => m.PaymentStep),
+        canActivate: [checkoutStepGuard],
+        data: { step: 'payment' }
+      },
+      {
+        path: 'review',
+        loadComponent: () => import('./features/checkout/pages/review-step/review-step').then(m => m.ReviewStep),
+        canActivate: [checkoutStepGuard],
+        data: { step: 'review' }
+      }
+    ]
+  },
+  {
+    path: 'orders',
+    loadComponent: () => import('./features/orders/pages/orders/orders').then(m => m.Orders),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'orders/:orderNumber',
+    loadComponent: () => import('./features/orders/pages/order-detail/order-detail').then(m => m.OrderDetail),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'favorites/add/:productId',
+    canActivate: [authGuard, completeFavoriteGuard],
+    children: []
+  },
+  {
+    path: 'favorites',
+    loadComponent: () => import('./features/favorites/pages/favorites/favorites').then(m => m.Favorites),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'notifications',
+    loadComponent: () => import('./features/notifications/pages/notifications/notifications').then(m => m.Notifications),
+    canActivate: [authGuard]
+  },
   {
     path: 'profile',
     loadComponent: () => import('./features/profile/pages/profile/profile').then(m => m.Profile),
     canActivate: [authGuard]
+  },
+  {
+    path: 'profile/addresses',
+    loadComponent: () => import('./features/profile/pages/addresses/addresses').then(m => m.Addresses),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'profile/cards',
+    loadComponent: () => import('./features/profile/pages/cards/cards').then(m => m.Cards),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'profile/security',
+    loadComponent: () => import('./features/profile/pages/security/security').then(m => m.Security),
+    canActivate: [authGuard]
   }
 
 ];
@@ -3,10 +3,12 @@ import { RouterOutlet } from '@angular/router';
 import { Toast } from './shared/components/toast/toast';
 import { Header } from "./shared/components/header/header";
 import { Footer } from "./shared/components/footer/footer";
+import { IdleWarning } from './shared/components/idle-warning/idle-warning';
+import { CartDrawer } from './shared/components/cart-drawer/cart-drawer';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, Toast, Header, Footer],
+  imports: [RouterOutlet, Toast, Header, Footer, IdleWarning, CartDrawer],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
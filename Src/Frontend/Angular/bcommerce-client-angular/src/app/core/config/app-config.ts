@@ -0,0 +1,123 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { PaymentMethod } from '../models/order.model';
+
+/**
+ * Serviços do backend acessados pelo cliente
+ */
+export type ApiServiceName = 'auth' | 'users' | 'catalog' | 'cart' | 'orders' | 'promotions' | 'notifications';
+
+/**
+ * Flags para habilitar/desabilitar funcionalidades sem recompilar
+ */
+export interface FeatureFlags {
+  guestCart: boolean;
+  wishlist: boolean;
+  productReviews: boolean;
+  /** Cartões e cobranças fictícios, sem gateway de pagamento (apenas desenvolvimento) */
+  fakePayments: boolean;
+}
+
+/**
+ * Tempos limite (ms) usados pelo cliente HTTP e pela sessão
+ */
+export interface AppTimeouts {
+  /** Tempo máximo de espera por uma resposta da API */
+  httpRequestMs: number;
+  /** Antecedência com que o access token é renovado antes de expirar */
+  tokenRefreshLeadMs: number;
+  /** Inatividade após a qual a sessão é encerrada (0 desativa) */
+  idleLogoutMs: number;
+  /** Antecedência do aviso exibido antes do logout por inatividade */
+  idleWarningMs: number;
+  /** Intervalo de consulta de novas notificações (0 desativa) */
+  notificationsPollMs: number;
+  /** Intervalo de consulta do status do pagamento PIX/boleto na confirmação do pedido */
+  paymentPollMs: number;
+}
+
+/**
+ * Regras de parcelamento de uma forma de pagamento
+ */
+export interface InstallmentRule {
+  maxInstallments: number;
+  /** Parcelas até este número não têm juros */
+  interestFreeInstallments: number;
+  /** Juros compostos ao mês (%) aplicados acima das parcelas sem juros */
+  monthlyInterestPercent: number;
+  /** Menor valor aceito por parcela */
+  minInstallmentAmount: number;
+}
+
+/**
+ * Condições comerciais por forma de pagamento
+ */
+export interface PaymentRules {
+  /** Desconto à vista no PIX (%) sobre os produtos, já descontado o cupom */
+  pixDiscountPercent: number;
+  /** Formas sem regra são cobradas à vista */
+  installments: Partial<Record<PaymentMethod, InstallmentRule>>;
+}
+
+/**
+ * Configuração de execução da aplicação
+ * Carregada de /assets/config.json no bootstrap, com fallback para o arquivo de environment
+ */
+export interface AppConfig {
+  /** URL base do ApiGateway (ou do serviço, em desenvolvimento) */
+  apiBaseUrl: string;
+  /** Prefixo de rota de cada serviço, relativo à apiBaseUrl */
+  services: Record<ApiServiceName, string>;
+  features: FeatureFlags;
+  timeouts: AppTimeouts;
+  payments: PaymentRules;
+}
+
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => environment
+});
+
+/**
+ * Monta a URL base de um serviço do backend
+ */
+export function serviceUrl(config: AppConfig, service: ApiServiceName): string {
+  return `${trimTrailingSlash(config.apiBaseUrl)}${config.services[service]}`;
+}
+
+/**
+ * Busca a configuração de execução em /assets/config.json
+ * Campos ausentes (ou o arquivo inteiro) caem para os valores do environment
+ */
+export async function loadAppConfig(url = '/assets/config.json'): Promise<AppConfig> {
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      return environment;
+    }
+
+    const runtime = (await response.json()) as Partial<AppConfig>;
+    return mergeAppConfig(environment, runtime);
+  } catch (error) {
+    console.warn('Não foi possível carregar config.json, usando environment:', error);
+    return environment;
+  }
+}
+
+function mergeAppConfig(base: AppConfig, override: Partial<AppConfig>): AppConfig {
+  return {
+    apiBaseUrl: override.apiBaseUrl ?? base.apiBaseUrl,
+    services: { ...base.services, ...override.services },
+    features: { ...base.features, ...override.features },
+    timeouts: { ...base.timeouts, ...override.timeouts },
+    payments: {
+      ...base.payments,
+      ...override.payments,
+      installments: { ...base.payments.installments, ...override.payments?.installments }
+    }
+  };
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url.slice(0, -1) : url;
+}
@@ -0,0 +1,20 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { CheckoutService } from '../services/checkout.service';
+import { CheckoutStep } from '../models';
+
+/**
+ * Impede abrir uma etapa do checkout (por link ou refresh) antes de concluir as anteriores
+ * A etapa vem de `data.step` da rota; o usuário é levado à primeira etapa pendente
+ */
+export const checkoutStepGuard: CanActivateFn = (route) => {
+  const checkoutService = inject(CheckoutService);
+  const router = inject(Router);
+
+  const step = route.data['step'] as CheckoutStep;
+  if (checkoutService.canEnter(step)) {
+    return true;
+  }
+
+  return router.createUrlTree(['/checkout', checkoutService.nextStep()]);
+};
@@ -0,0 +1,28 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { FavoritesService } from '../services/favorites.service';
+import { ToastService } from '../services/toast.service';
+import { I18nService } from '../services/i18n.service';
+
+/**
+ * Conclui o favorito pedido antes do login (/favorites/add/:productId?next=...)
+ * Nunca ativa a rota: depois de favoritar, volta para `next` ou para a lista de favoritos
+ */
+export const completeFavoriteGuard: CanActivateFn = async (route) => {
+  const favoritesService = inject(FavoritesService);
+  const toastService = inject(ToastService);
+  const i18n = inject(I18nService);
+  const router = inject(Router);
+
+  const productId = route.paramMap.get('productId');
+  const next = route.queryParamMap.get('next');
+
+  if (productId && !favoritesService.isFavorite(productId)) {
+    const response = await favoritesService.add(productId);
+    if (response.success) {
+      toastService.success(i18n.t('favorites.added'));
+    }
+  }
+
+  return router.parseUrl(next?.startsWith('/') ? next : '/favorites');
+};
@@ -0,0 +1,19 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Guard para páginas de visitante (login, cadastro)
+ * Usuários já autenticados são enviados ao returnUrl, se houver, ou ao perfil
+ */
+export const guestGuard: CanActivateFn = (route) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  if (!authService.isAuthenticated()) {
+    return true;
+  }
+
+  const returnUrl = route.queryParamMap.get('returnUrl');
+  return router.parseUrl(returnUrl?.startsWith('/') ? returnUrl : '/profile');
+}
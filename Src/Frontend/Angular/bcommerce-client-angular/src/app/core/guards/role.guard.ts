@@ -0,0 +1,46 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Fábrica de guard por papel
+ * Permite acesso quando o usuário possui ao menos um dos papéis informados
+ *
+ * @example
+ * { path: 'admin', canActivate: [requireRole('Admin')], ... }
+ */
+export function requireRole(...roles: string[]): CanActivateFn {
+  return (route, state) => {
+    const authService = inject(AuthService);
+    return authorize(state.url, () => authService.hasRole(...roles));
+  };
+}
+
+/**
+ * Fábrica de guard por claim
+ * Sem `value`, basta o claim existir no token
+ *
+ * @example
+ * { path: 'catalog/manage', canActivate: [requireClaim('permission', 'catalog:write')], ... }
+ */
+export function requireClaim(type: string, value?: string): CanActivateFn {
+  return (route, state) => {
+    const authService = inject(AuthService);
+    return authorize(state.url, () => authService.hasClaim(type, value));
+  };
+}
+
+/**
+ * Usuários não autenticados vão para o login (preservando o destino);
+ * autenticados sem permissão voltam para a home
+ */
+function authorize(returnUrl: string, isAllowed: () => boolean) {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  if (!authService.isAuthenticated()) {
+    return router.createUrlTree(['/login'], { queryParams: { returnUrl } });
+  }
+
+  return isAllowed() ? true : router.createUrlTree(['/home']);
+}
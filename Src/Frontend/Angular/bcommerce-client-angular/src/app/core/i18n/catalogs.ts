@@ -0,0 +1,29 @@
+import { PT_BR } from './pt-BR';
+import { TranslationCatalog } from './translation-keys';
+
+/**
+ * Idiomas disponíveis no seletor do header
+ */
+export const LOCALES = ['pt-BR', 'en-US'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+/**
+ * Catálogo do idioma padrão, que vai no bundle inicial e cobre os demais enquanto carregam
+ */
+export const DEFAULT_CATALOG: TranslationCatalog = PT_BR;
+
+/**
+ * Carregamento do catálogo de cada idioma; os outros idiomas ficam em chunks separados
+ * O tipo garante que nenhum idioma fique sem catálogo
+ */
+export const CATALOG_LOADERS: Record<Locale, () => Promise<TranslationCatalog>> = {
+  'pt-BR': () => Promise.resolve(PT_BR),
+  'en-US': () => import('./en-US').then((module) => module.EN_US)
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
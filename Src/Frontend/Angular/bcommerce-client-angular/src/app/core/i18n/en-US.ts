@@ -0,0 +1,635 @@
+import { TranslationCatalog } from './translation-keys';
+
+/**
+ * Catálogo en-US
+ */
+export const EN_US: TranslationCatalog = {
+  'language.label': 'Language',
+  'language.pt-BR': 'Português',
+  'language.en-US': 'English',
+
+  'common.show': 'Show',
+  'common.hide': 'Hide',
+  'common.sending': 'Sending...',
+  'common.saving': 'Saving...',
+  'common.loading': 'Loading...',
+  'common.retry': 'Try again',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.remove': 'Remove',
+  'common.close': 'Close',
+  'common.copy': 'Copy',
+  'common.loadMore': 'Load more',
+  'common.saveChanges': 'Save changes',
+  'common.back': 'Back',
+  'common.delete': 'Delete',
+  'common.setDefault': 'Set as default',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.undo': 'Undo',
+
+  'header.nav.home': 'Home',
+  'header.nav.categories': 'Categories',
+  'header.nav.offers': 'Deals',
+  'header.nav.blog': 'Blog',
+  'header.nav.new': 'New arrivals',
+  'header.nav.men': 'Men',
+  'header.nav.women': 'Women',
+  'header.favorites': 'Favorites',
+  'header.account': 'My Account',
+  'header.cartLabel.one': 'Cart with {count} item',
+  'header.cartLabel.other': 'Cart with {count} items',
+  'header.favoritesLabel.one': 'Favorites: {count} product',
+  'header.favoritesLabel.other': 'Favorites: {count} products',
+
+  'field.email': 'Email',
+  'field.password': 'Password',
+  'field.confirmPassword': 'Password confirmation',
+  'field.fullName': 'Full name',
+  'field.phone': 'Phone',
+  'field.birthDate': 'Date of birth',
+  'field.currentPassword': 'Current password',
+  'field.newPassword': 'New password',
+  'field.comment': 'Comment',
+
+  'validation.required': '{field} is required',
+  'validation.email': 'Invalid email',
+  'validation.minlength': '{field} must be at least {requiredLength} characters',
+  'validation.maxlength': '{field} must be at most {requiredLength} characters',
+  'validation.strongPassword': 'Password must contain an uppercase letter, a lowercase letter and a number',
+  'validation.invalidPhone': 'Format: {example}',
+  'validation.passwordMismatch': 'Passwords do not match',
+  'validation.invalid': 'Invalid field',
+  'validation.cardNumberLength': 'Incomplete number',
+  'validation.cardNumber': 'Invalid card number',
+  'validation.cardExpiry': 'Use the MM/YY format',
+  'validation.cardExpired': 'Card expired',
+
+  'error.default': 'Could not communicate with the server',
+  'error.network': 'Could not reach the server. Check your connection.',
+  'error.timeout': 'The server took too long to respond. Please try again.',
+  'error.unexpected': 'Unexpected error',
+  'error.internal': 'Internal error. Please try again.',
+
+  'login.title': 'Welcome back',
+  'login.subtitle': 'Sign in to your account to continue',
+  'login.emailPlaceholder': 'you@email.com',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.rememberMe': 'Remember me',
+  'login.forgotPassword': 'Forgot your password?',
+  'login.submit': 'Sign in',
+  'login.submitting': 'Signing in...',
+  'login.noAccount': "Don't have an account?",
+  'login.createAccount': 'Create account',
+  'login.noActivationEmail': "Didn't get the activation email?",
+  'login.resend': 'Resend',
+  'login.agreement': 'By signing in, you agree to our',
+  'login.success': 'Signed in successfully! Welcome!',
+  'login.failure': 'Could not sign in',
+
+  'register.title': 'Create a new account',
+  'register.or': 'Or',
+  'register.loginLink': 'sign in to your existing account',
+  'register.fullNamePlaceholder': 'Enter your full name',
+  'register.emailPlaceholder': 'Enter your email',
+  'register.passwordPlaceholder': 'Enter your password',
+  'register.passwordHint': 'At least 8 characters with uppercase, lowercase and a number',
+  'register.confirmPassword': 'Confirm password',
+  'register.confirmPasswordPlaceholder': 'Confirm your password',
+  'register.submit': 'Create account',
+  'register.submitting': 'Creating account...',
+  'register.agreement': 'By creating an account, you agree to our',
+  'register.success': 'Account created! Check your email to activate it.',
+  'register.failure': 'Could not create the account',
+  'register.unexpected': 'Unexpected error while creating the account',
+
+  'legal.terms': 'Terms of Service',
+  'legal.and': 'and',
+  'legal.privacy': 'Privacy Policy',
+
+  'money.installment.interestFree': '{count}x of {amount} interest-free',
+  'money.installment.withInterest': '{count}x of {amount} with interest',
+  'money.pixPrice': '{amount} with PIX',
+  'money.pixDiscount': '{percent}% off',
+
+  'footer.about.title': 'About Us',
+  'footer.about.aboutUs': 'Who We Are',
+  'footer.about.history': 'Our Story',
+  'footer.about.careers': 'Careers',
+  'footer.about.press': 'Press',
+  'footer.service.title': 'Customer Service',
+  'footer.service.help': 'Help Center',
+  'footer.service.contact': 'Contact Us',
+  'footer.service.returns': 'Returns and Exchanges',
+  'footer.service.privacy': 'Privacy Policy',
+  'footer.categories.title': 'Categories',
+  'footer.categories.electronics': 'Electronics',
+  'footer.categories.clothing': 'Clothing',
+  'footer.categories.homeGarden': 'Home and Garden',
+  'footer.categories.sports': 'Sports',
+  'footer.newsletter.title': 'Newsletter',
+  'footer.newsletter.text': 'Get exclusive deals and news first!',
+  'footer.newsletter.placeholder': 'Your email',
+  'footer.newsletter.submit': 'Subscribe',
+  'footer.newsletter.success': 'Thanks for subscribing to our newsletter!',
+  'footer.newsletter.invalid': 'Please enter a valid email.',
+  'footer.follow': 'Follow us',
+  'footer.contact': 'Contact',
+  'footer.hours.title': 'Opening Hours',
+  'footer.hours.weekdays': 'Monday to Friday: 8am to 6pm',
+  'footer.hours.saturday': 'Saturday: 9am to 5pm',
+  'footer.hours.sunday': 'Sunday: 10am to 4pm',
+  'footer.certificates': 'Certificates',
+  'footer.rights': '© {year} BCommerce. All rights reserved.',
+  'footer.terms': 'Terms of Use',
+  'footer.privacy': 'Privacy Policy',
+  'footer.cookies': 'Cookies',
+  'footer.payments': 'Payment methods:',
+
+  'auth.backToLogin': 'Back to login',
+  'auth.notAuthenticated': 'User is not signed in',
+
+  'confirmEmail.loading': 'Confirming your email...',
+  'confirmEmail.success': 'Email confirmed!',
+  'confirmEmail.successText': 'Your account is active. You can sign in now.',
+  'confirmEmail.goToLogin': 'Go to login',
+  'confirmEmail.errorTitle': 'We could not confirm your email',
+  'confirmEmail.invalidLink': 'Invalid or incomplete confirmation link.',
+  'confirmEmail.failure': 'We could not confirm your email.',
+
+  'forgotPassword.title': 'Forgot your password?',
+  'forgotPassword.subtitle': 'Enter your email and we\'ll send you a link to reset your password',
+  'forgotPassword.submitted': 'If the email is registered, you will shortly receive instructions to reset your password. The link expires in 15 minutes.',
+  'forgotPassword.submit': 'Send reset link',
+  'forgotPassword.failure': 'Could not request a password reset',
+
+  'resendActivation.title': 'Resend activation',
+  'resendActivation.subtitle': 'Enter your email to receive a new account activation link',
+  'resendActivation.sent': 'We sent a new activation link. Check your inbox and spam folder.',
+  'resendActivation.cooldown': 'Resend in {seconds}s',
+  'resendActivation.submit': 'Resend activation email',
+  'resendActivation.success': 'Activation email sent again!',
+  'resendActivation.failure': 'Could not resend the activation email',
+
+  'resetPassword.title': 'Reset password',
+  'resetPassword.subtitle': 'Choose a new password for your account',
+  'resetPassword.invalidLink': 'Invalid or incomplete reset link. Request a new one.',
+  'resetPassword.requestNewLink': 'Request a new link',
+  'resetPassword.newPasswordPlaceholder': 'Enter the new password',
+  'resetPassword.confirmPassword': 'Confirm new password',
+  'resetPassword.confirmPasswordPlaceholder': 'Repeat the new password',
+  'resetPassword.submit': 'Reset password',
+  'resetPassword.success': 'Password reset! Sign in with your new password.',
+  'resetPassword.failure': 'Could not reset the password',
+
+  'favorites.added': 'Product added to favorites',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.count.one': '{count} saved product',
+  'favorites.count.other': '{count} saved products',
+  'favorites.loading': 'Loading favorites...',
+  'favorites.empty': 'You have no favorites yet',
+  'favorites.emptyText': 'Tap the heart on a product to save it here.',
+  'favorites.moving': 'Moving...',
+  'favorites.moveToCart': 'Move to cart',
+  'favorites.movedToCart': 'Product moved to cart',
+  'favorites.removed': 'Product removed from favorites',
+  'favorites.addFailed': 'Could not add the product to favorites',
+  'favorites.removeFailed': 'Could not remove from favorites',
+
+  'idle.title': 'Are you still there?',
+  'idle.message': 'Due to inactivity, you will be signed out in',
+  'idle.logout': 'Sign out now',
+  'idle.stay': 'Stay signed in',
+  'idle.loggedOut': 'You were signed out due to inactivity',
+
+  'pagination.label': 'Pagination',
+  'pagination.previous': 'Previous page',
+  'pagination.next': 'Next page',
+
+  'product.outOfStock': 'Sold out',
+  'product.notFound': 'Product not found',
+  'product.notFoundText': 'The product you are looking for does not exist or was removed.',
+  'product.viewCategories': 'Browse categories',
+  'product.soldOut': 'Sold out',
+  'product.lowStock.one': 'Last unit!',
+  'product.lowStock.other': 'Only {count} left!',
+  'product.inStock': 'In stock',
+  'product.quantity': 'Quantity',
+  'product.addToCart': 'Add to cart',
+  'product.adding': 'Adding...',
+  'product.inCart.one': 'You already have {count} unit of this product in your cart.',
+  'product.inCart.other': 'You already have {count} units of this product in your cart.',
+  'product.unavailable': 'Unavailable',
+  'product.description': 'Description',
+  'product.addedToCart': 'Product added to cart',
+  'product.addToCartFailed': 'Could not add the product to the cart',
+  'product.loadFailed': 'Could not load the product',
+
+  'rating.select': 'Select a rating',
+  'rating.value': 'Rated {rating} out of 5',
+  'rating.stars.one': '{count} star',
+  'rating.stars.other': '{count} stars',
+
+  'address.default': 'Default',
+  'address.recipientName': 'Recipient',
+  'address.zipCode': 'ZIP code',
+  'address.street': 'Street',
+  'address.number': 'Number',
+  'address.complement': 'Address line 2',
+  'address.neighborhood': 'Neighborhood',
+  'address.city': 'City',
+  'address.state': 'State',
+  'address.lookingUpCep': 'Looking up address...',
+  'address.cepNotFound': 'ZIP code not found. Fill in the address manually.',
+  'address.invalidZipCode': 'Invalid ZIP code',
+  'address.invalidState': 'Use the state abbreviation (e.g. SP)',
+  'address.useAsDefault': 'Use as default address',
+  'address.save': 'Save address',
+  'address.created': 'Address added',
+  'address.updated': 'Address updated',
+  'address.saveFailed': 'Could not save the address',
+
+  'cart.title': 'Cart',
+  'cart.close': 'Close cart',
+  'cart.empty': 'Your cart is empty.',
+  'cart.explore': 'Browse products',
+  'cart.pendingChanges': 'Some items changed price or availability.',
+  'cart.acknowledgeChanges': 'Got it, update cart',
+  'cart.subtotal': 'Subtotal',
+  'cart.checkout': 'Checkout',
+  'cart.view': 'View cart',
+  'cart.item.fallbackName': 'Product',
+  'cart.item.remove': 'Remove item',
+  'cart.item.unitPrice': '{price} each',
+  'cart.item.unavailable': 'This product is currently unavailable. It will be removed from the cart.',
+  'cart.item.priceUp': 'The price went up from {from} to {to}.',
+  'cart.item.priceDown': 'The price dropped from {from} to {to}.',
+  'cart.item.lowStock.one': 'Only {count} unit left in stock.',
+  'cart.item.lowStock.other': 'Only {count} units left in stock.',
+  'cart.item.decrease': 'Decrease quantity',
+  'cart.item.increase': 'Increase quantity',
+  'cart.loading': 'Loading cart...',
+  'cart.emptyTitle': 'Your cart is empty',
+  'cart.emptyText': 'Browse the catalog and add products to continue.',
+  'cart.browseCategories': 'See categories',
+  'cart.pendingChangesDetail': 'Some items in your cart changed price or availability since they were added. Review the highlights below.',
+  'cart.items': 'Cart items',
+  'cart.summary': 'Summary',
+  'cart.itemCount': 'Items',
+  'cart.total': 'Total',
+  'cart.shippingAtCheckout': 'Shipping is calculated at checkout.',
+  'cart.confirmChanges': 'Confirm the cart changes to continue.',
+  'cart.continueShopping': 'Continue shopping',
+  'cart.clear': 'Empty cart',
+  'cart.updateQuantityFailed': 'Could not change the quantity',
+  'cart.removeFailed': 'Could not remove the item',
+  'cart.repriceFailed': 'Could not update the cart',
+  'cart.mergeFailed': 'Could not add the items you picked before signing in to the cart',
+  'cart.signInRequired': 'Sign in to add products to the cart',
+
+  'coupon.label': 'Discount coupon',
+  'coupon.placeholder': 'Enter the code',
+  'coupon.apply': 'Apply',
+  'coupon.applying': 'Validating...',
+  'coupon.discount': 'Discount',
+  'coupon.validationFailed': 'Could not validate the coupon',
+  'coupon.ineligible.not_found': 'Coupon not found',
+  'coupon.ineligible.inactive': 'This coupon is no longer available',
+  'coupon.ineligible.not_started': 'This coupon is valid from {date}',
+  'coupon.ineligible.expired': 'This coupon expired on {date}',
+  'coupon.ineligible.exhausted': 'This coupon has reached its usage limit',
+  'coupon.ineligible.already_used': 'You have already used this coupon',
+  'coupon.ineligible.below_minimum': 'This coupon applies to purchases of {minimum} or more. {missing} to go.',
+  'coupon.percentOff': '{percent}% off',
+
+  'search.label': 'Search products',
+  'search.placeholder': 'Search products...',
+  'search.recent': 'Recent searches',
+  'search.clearRecent': 'Clear',
+  'search.removeRecent': 'Remove from recent searches',
+  'search.category': 'Category',
+  'search.searchFor': 'Search for',
+
+  'notifications.title': 'Notifications',
+  'notifications.unread.one': 'Notifications: {count} unread',
+  'notifications.unread.other': 'Notifications: {count} unread',
+  'notifications.markAllAsRead': 'Mark all as read',
+  'notifications.empty': 'No notifications here',
+  'notifications.viewAll': 'View all',
+  'notifications.unreadCount.one': '{count} unread',
+  'notifications.unreadCount.other': '{count} unread',
+  'notifications.loading': 'Loading notifications...',
+  'notifications.viewDetails': 'View details',
+  'notifications.markAsRead': 'Mark as read',
+  'notifications.loadFailed': 'Could not load your notifications',
+  'notifications.markAsReadFailed': 'Could not mark the notification as read',
+  'notifications.markAllAsReadFailed': 'Could not mark the notifications as read',
+  'notifications.new.one': 'You have a new notification',
+  'notifications.new.other': 'You have {count} new notifications',
+  'notifications.view': 'View',
+
+  'card.number': 'Card number',
+  'card.holderName': 'Name on card',
+  'card.expiry': 'Expiry date',
+  'card.expiryPlaceholder': 'MM/YY',
+  'card.cvv': 'Security code',
+  'card.cvvLength': 'The security code has {digits} digits',
+  'card.useAsDefault': 'Use as default card',
+  'card.securityNote': 'Card details are sent securely to the card processor. We only keep the last four digits.',
+  'card.save': 'Save card',
+  'card.saved': 'Card saved',
+  'card.saveFailed': 'Could not save the card',
+  'card.validationFailed': 'Could not validate the card',
+  'card.declined': 'Card declined by the issuer',
+  'card.tokenizerUnavailable': 'Saving cards is unavailable: no payment gateway is configured',
+  'card.brand.visa': 'Visa',
+  'card.brand.mastercard': 'Mastercard',
+  'card.brand.amex': 'American Express',
+  'card.brand.elo': 'Elo',
+  'card.brand.hipercard': 'Hipercard',
+  'card.brand.diners': 'Diners Club',
+  'card.brand.unknown': 'Card',
+
+  'breadcrumb.label': 'Breadcrumb',
+  'breadcrumb.home': 'Home',
+
+  'payment.method.credit_card': 'Credit card',
+  'payment.method.pix': 'PIX',
+  'payment.method.boleto': 'Bank slip (boleto)',
+
+  'checkout.step.address': 'Address',
+  'checkout.step.shipping': 'Shipping',
+  'checkout.step.payment': 'Payment',
+  'checkout.step.review': 'Review',
+  'checkout.steps': 'Checkout steps',
+  'checkout.emptyText': 'Add products to the cart to check out.',
+  'checkout.pendingChanges': 'Some items in your cart changed price or availability. Review the cart to continue.',
+  'checkout.reviewCart': 'Review cart',
+  'checkout.summary': 'Order summary',
+  'checkout.subtotal.one': 'Subtotal ({count} item)',
+  'checkout.subtotal.other': 'Subtotal ({count} items)',
+  'checkout.freeShipping': 'Free',
+  'checkout.toBeCalculated': 'To be calculated',
+  'checkout.pixDiscount': 'PIX discount',
+  'checkout.incomplete': 'Complete every step before placing the order',
+  'checkout.installmentUnavailable': 'The chosen installment plan is not available for this amount. Choose again in the payment step.',
+  'checkout.cartChanged': 'Some items changed price or availability. Review the cart before continuing.',
+  'checkout.address.title': 'Shipping address',
+  'checkout.address.loading': 'Loading addresses...',
+  'checkout.address.options': 'Addresses',
+  'checkout.address.new': 'New address',
+  'checkout.address.add': 'Add a new address',
+  'checkout.address.continue': 'Continue to shipping',
+  'checkout.address.loadFailed': 'Could not load your addresses',
+  'checkout.shipping.deliverTo': 'Delivery to {name}, ZIP code {zipCode}',
+  'checkout.shipping.loading': 'Calculating shipping options...',
+  'checkout.shipping.none': 'No delivery options available for this address.',
+  'checkout.shipping.options': 'Shipping options',
+  'checkout.shipping.estimate.one': 'up to {count} business day',
+  'checkout.shipping.estimate.other': 'up to {count} business days',
+  'checkout.shipping.continue': 'Continue to payment',
+  'checkout.shipping.loadFailed': 'Could not calculate shipping',
+  'checkout.payment.methods': 'Payment methods',
+  'checkout.payment.creditCardDescription': 'Use a saved card or add a new one',
+  'checkout.payment.pixDescription': 'Approved right after payment',
+  'checkout.payment.pixDiscountDescription': '{percent}% off and approved right after payment',
+  'checkout.payment.boletoDescription': 'Clears within 3 business days',
+  'checkout.payment.loadingCards': 'Loading cards...',
+  'checkout.payment.noCards': 'You have no valid saved cards yet.',
+  'checkout.payment.installments': 'Installments',
+  'checkout.payment.addCard': 'Add a new card',
+  'checkout.payment.continue': 'Review order',
+  'checkout.review.title': 'Order review',
+  'checkout.review.change': 'Change',
+  'checkout.review.estimate.one': 'Up to {count} business day',
+  'checkout.review.estimate.other': 'Up to {count} business days',
+  'checkout.review.items': 'Items',
+  'checkout.review.notes': 'Notes (optional)',
+  'checkout.review.notesPlaceholder': 'E.g. leave it with the doorman',
+  'checkout.review.placing': 'Placing order...',
+  'checkout.review.place': 'Place order · {total}',
+  'checkout.review.placeFailed': 'Could not place the order',
+
+  'orderConfirmation.loading': 'Loading order...',
+  'orderConfirmation.loadFailed': 'Could not load the order',
+  'orderConfirmation.placed': 'Order placed!',
+  'orderConfirmation.placedText': 'Thank you for your purchase. You will receive order updates by email.',
+  'orderConfirmation.pix.instructions': 'Pay {amount} with PIX to confirm the order.',
+  'orderConfirmation.pix.qrCode': 'PIX QR code',
+  'orderConfirmation.pix.expiresIn': 'Expires in',
+  'orderConfirmation.pix.copyPaste': 'PIX copy and paste',
+  'orderConfirmation.pix.copied': 'PIX code copied',
+  'orderConfirmation.pix.expired': 'PIX code expired',
+  'orderConfirmation.boleto.instructions': 'Pay the {amount} boleto by {dueDate}. It takes up to 3 business days to clear.',
+  'orderConfirmation.boleto.digitableLine': 'Boleto number',
+  'orderConfirmation.boleto.download': 'Download boleto (PDF)',
+  'orderConfirmation.boleto.copied': 'Boleto number copied',
+  'orderConfirmation.boleto.expired': 'Boleto expired',
+  'orderConfirmation.copyFailed': 'Could not copy. Select the code and copy it manually.',
+  'orderConfirmation.awaitingPayment': 'Waiting for payment confirmation',
+  'orderConfirmation.expiredText': 'Your order is still reserved. Generate a new charge to pay.',
+  'orderConfirmation.renew': 'Generate new charge',
+  'orderConfirmation.renewing': 'Generating...',
+  'orderConfirmation.chargeFailed': 'Could not generate the charge',
+  'orderConfirmation.cancelled': 'Order cancelled',
+  'orderConfirmation.cancelledText': 'This order was cancelled before the payment was confirmed.',
+  'orderConfirmation.paymentConfirmed': 'Payment confirmed!',
+  'orderConfirmation.paymentConfirmedText': 'We received your payment and are preparing your order.',
+  'orderConfirmation.orderNumber': 'Order number',
+  'orderConfirmation.track': 'Track order',
+
+  'account.title': 'My account',
+  'account.orders': 'Orders',
+  'account.ordersDescription': 'History, tracking and cancellations',
+  'account.favorites': 'Favorites',
+  'account.favoritesDescription': 'Products saved for later',
+  'account.addresses': 'Addresses',
+  'account.addressesDescription': 'Shipping addresses and default address',
+  'account.cards': 'Cards',
+  'account.cardsDescription': 'Saved payment cards',
+  'account.security': 'Security',
+  'account.securityDescription': 'Active sessions and recent activity',
+  'account.logout': 'Sign out',
+
+  'profile.verified': 'Verified',
+  'profile.notVerified': 'Not verified',
+  'profile.lastLogin': 'Last sign-in on',
+  'profile.refreshing': 'Refreshing...',
+  'profile.personalData': 'Personal details',
+  'profile.updated': 'Profile updated!',
+  'profile.updateFailed': 'Could not update the profile',
+  'profile.changePassword': 'Change password',
+  'profile.changingPassword': 'Changing...',
+  'profile.showPasswords': 'Show passwords',
+  'profile.hidePasswords': 'Hide passwords',
+  'profile.passwordHint': 'At least 8 characters with uppercase, lowercase and a number. You will need to sign in again after the change.',
+  'profile.passwordChanged': 'Password changed! Sign in again with your new password.',
+  'profile.passwordChangeFailed': 'Could not change the password',
+
+  'addresses.title': 'My addresses',
+  'addresses.empty': 'No saved addresses',
+  'addresses.emptyText': 'Add an address to speed up your purchases.',
+  'addresses.edit': 'Edit address',
+  'addresses.confirmDelete': 'Delete this address? Orders already placed will not be affected.',
+  'addresses.defaultUpdated': 'Default address updated',
+  'addresses.defaultFailed': 'Could not change the default address',
+  'addresses.deleted': 'Address deleted',
+  'addresses.deleteFailed': 'Could not delete the address',
+
+  'cards.title': 'My cards',
+  'cards.new': 'New card',
+  'cards.empty': 'No saved cards',
+  'cards.emptyText': 'Save a card to pay faster next time.',
+  'cards.expiredOn': 'Expired {date}',
+  'cards.validUntil': 'Valid until {date}',
+  'cards.confirmDelete': 'Delete this card? Orders already placed will not be affected.',
+  'cards.loadFailed': 'Could not load your cards',
+  'cards.defaultUpdated': 'Default card updated',
+  'cards.defaultFailed': 'Could not change the default card',
+  'cards.deleted': 'Card deleted',
+  'cards.deleteFailed': 'Could not delete the card',
+
+  'security.sessions': 'Active sessions',
+  'security.sessionsDescription': 'Devices signed in to your account',
+  'security.revokeOthers': 'Sign out all others',
+  'security.revokeOthersConfirm.one': 'Sign out the other session? That device will need to sign in again.',
+  'security.revokeOthersConfirm.other': 'Sign out the other {count} sessions? Those devices will need to sign in again.',
+  'security.revoke': 'Sign out',
+  'security.revoking': 'Signing out...',
+  'security.revokeConfirm': 'Sign out this session?',
+  'security.loadingSessions': 'Loading sessions...',
+  'security.thisDevice': 'This device',
+  'security.unknownIp': 'Unknown IP',
+  'security.lastUsed': 'Last used {date}',
+  'security.device': '{browser} on {system}',
+  'security.unknownDevice': 'Unknown device',
+  'security.activity': 'Recent activity',
+  'security.eventType': 'Type',
+  'security.allEvents': 'All',
+  'security.loadingEvents': 'Loading events...',
+  'security.noEvents': 'No events found',
+  'security.ip': 'IP {ip}',
+  'security.loadSessionsFailed': 'Could not load your sessions',
+  'security.revoked': 'Session signed out',
+  'security.revokeFailed': 'Could not sign out the session',
+  'security.othersRevoked': 'The other sessions were signed out',
+  'security.revokeOthersFailed': 'Could not sign out the other sessions',
+  'security.loadEventsFailed': 'Could not load the security events',
+  'security.event.LOGIN_SUCCESS': 'Signed in',
+  'security.event.LOGIN_FAILED': 'Failed sign-in attempt',
+  'security.event.LOGOUT': 'Signed out',
+  'security.event.PASSWORD_CHANGED': 'Password changed',
+  'security.event.PASSWORD_RESET_REQUESTED': 'Password reset requested',
+  'security.event.PASSWORD_RESET': 'Password reset',
+  'security.event.EMAIL_CONFIRMED': 'Email confirmed',
+  'security.event.ACCOUNT_LOCKED': 'Account temporarily locked',
+  'security.event.SESSION_REVOKED': 'Session signed out',
+
+  'reviews.title': 'Reviews',
+  'reviews.count.one': '{count} review',
+  'reviews.count.other': '{count} reviews',
+  'reviews.none': 'This product has not been reviewed yet.',
+  'reviews.signIn': 'Sign in',
+  'reviews.signInToReview': 'to review products you bought.',
+  'reviews.formTitle': 'Review this product',
+  'reviews.commentPlaceholder': 'Tell us what you thought of the product (optional)',
+  'reviews.submit': 'Post review',
+  'reviews.alreadyReviewed': 'You have already reviewed this product.',
+  'reviews.buyersOnly': 'Only customers who bought this product can review it.',
+  'reviews.anonymous': 'Customer',
+  'reviews.verifiedPurchase': 'Verified purchase',
+  'reviews.empty': 'No reviews here yet.',
+  'reviews.published': 'Review posted. Thank you!',
+  'reviews.publishFailed': 'Could not post the review',
+
+  'filters.priceRange': 'Price range',
+  'filters.min': 'Min.',
+  'filters.max': 'Max.',
+  'filters.minPrice': 'Minimum price',
+  'filters.maxPrice': 'Maximum price',
+  'filters.apply': 'Apply',
+  'filters.inStock': 'In stock only',
+  'filters.clear': 'Clear filters',
+  'filters.invalidRange': 'The minimum price cannot be greater than the maximum',
+
+  'gallery.image': 'Image {index}',
+  'gallery.previous': 'Previous image',
+  'gallery.next': 'Next image',
+
+  'sort.label': 'Sort by',
+  'sort.relevance': 'Relevance',
+  'sort.priceAsc': 'Lowest price',
+  'sort.priceDesc': 'Highest price',
+  'sort.newest': 'Newest',
+  'sort.nameAsc': 'Name (A-Z)',
+
+  'catalog.resultCount.one': '{count} product found',
+  'catalog.resultCount.other': '{count} products found',
+  'catalog.noResultsFiltered': 'No products match the selected filters.',
+  'catalog.noResultsFor': 'No products found for "{term}".',
+  'catalog.search': 'Search',
+  'catalog.resultsFor': 'Results for "{term}"',
+  'catalog.searchPrompt': 'Type what you are looking for in the search bar.',
+  'catalog.allCategories': 'See all categories',
+  'catalog.noCategories': 'No categories available.',
+  'catalog.categoryNotFound': 'Category not found',
+  'catalog.loadFailed': 'Could not load the products',
+  'catalog.searchFailed': 'Could not run the search',
+  'catalog.categoriesFailed': 'Could not load the categories',
+
+  'orders.title': 'My orders',
+  'orders.filters': 'Filters',
+  'orders.filter.status': 'Status',
+  'orders.filter.all': 'All',
+  'orders.filter.from': 'From',
+  'orders.filter.to': 'To',
+  'orders.loading': 'Loading orders...',
+  'orders.noResults': 'No orders match these filters',
+  'orders.empty': 'You have not placed any orders yet',
+  'orders.startShopping': 'Start shopping',
+  'orders.itemCount.one': '{count} item',
+  'orders.itemCount.other': '{count} items',
+  'orders.loadFailed': 'Could not load your orders',
+  'orders.status.PENDING_PAYMENT': 'Awaiting payment',
+  'orders.status.PAYMENT_CONFIRMED': 'Payment confirmed',
+  'orders.status.PROCESSING': 'Processing',
+  'orders.status.SHIPPED': 'Shipped',
+  'orders.status.DELIVERED': 'Delivered',
+  'orders.status.CANCELLED': 'Cancelled',
+  'orders.status.REFUNDED': 'Refunded',
+  'orders.detail.loading': 'Loading order...',
+  'orders.detail.backToOrders': 'Back to orders',
+  'orders.detail.title': 'Order #{number}',
+  'orders.detail.placedAt': 'Placed on {date}',
+  'orders.detail.payNow': 'Pay now',
+  'orders.detail.reorder': 'Buy again',
+  'orders.detail.cancel': 'Cancel order',
+  'orders.detail.cancelling': 'Cancelling...',
+  'orders.detail.cancelConfirm': 'Cancel this order? Payments already made will be refunded.',
+  'orders.detail.items': 'Items',
+  'orders.detail.delivery': 'Delivery',
+  'orders.detail.carrier': 'Carrier:',
+  'orders.detail.trackingCode': 'Tracking code:',
+  'orders.detail.deliveredAt': 'Delivered on {date}',
+  'orders.detail.estimatedDelivery': 'Estimated delivery:',
+  'orders.detail.trackOnCarrier': 'Track on the carrier website',
+  'orders.detail.timeline': 'Tracking',
+  'orders.detail.notes': 'Notes: {notes}',
+  'orders.detail.notFound': 'Order not found',
+  'orders.detail.loadFailed': 'Could not load the order',
+  'orders.detail.cancelled': 'Order cancelled',
+  'orders.detail.cancelFailed': 'Could not cancel the order',
+  'orders.detail.productsFailed': 'Could not look up the products',
+  'orders.detail.reorderNone': 'None of the items in this order are available right now',
+  'orders.detail.reorderPartial': 'Some items are no longer available and were left out',
+  'orders.detail.reordered': 'Items added to cart',
+
+  'home.title': 'Welcome to BCommerce',
+  'home.subtitle': 'Your complete e-commerce platform',
+
+  'format.date': 'MM/dd/yyyy',
+  'format.dateTime': 'MM/dd/yyyy HH:mm',
+  'format.dateTimeLong': "MM/dd/yyyy 'at' HH:mm"
+};
@@ -0,0 +1,5 @@
+/**
+ * Barrel export dos catálogos de tradução
+ */
+export * from './catalogs';
+export * from './translation-keys';
@@ -0,0 +1,635 @@
+/**
+ * Catálogo pt-BR (idioma padrão e fonte das chaves)
+ * Toda chave criada aqui precisa existir nos demais catálogos; a falta quebra o build
+ * Parâmetros usam chaves: "{field} é obrigatório"
+ */
+export const PT_BR = {
+  'language.label': 'Idioma',
+  'language.pt-BR': 'Português',
+  'language.en-US': 'English',
+
+  'common.show': 'Mostrar',
+  'common.hide': 'Ocultar',
+  'common.sending': 'Enviando...',
+  'common.saving': 'Salvando...',
+  'common.loading': 'Carregando...',
+  'common.retry': 'Tentar novamente',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Salvar',
+  'common.edit': 'Editar',
+  'common.remove': 'Remover',
+  'common.close': 'Fechar',
+  'common.copy': 'Copiar',
+  'common.loadMore': 'Carregar mais',
+  'common.saveChanges': 'Salvar alterações',
+  'common.back': 'Voltar',
+  'common.delete': 'Excluir',
+  'common.setDefault': 'Definir como padrão',
+  'common.yes': 'Sim',
+  'common.no': 'Não',
+  'common.undo': 'Desfazer',
+
+  'header.nav.home': 'Inicio',
+  'header.nav.categories': 'Categorias',
+  'header.nav.offers': 'Ofertas',
+  'header.nav.blog': 'Blog',
+  'header.nav.new': 'Novidades',
+  'header.nav.men': 'Masculino',
+  'header.nav.women': 'Feminino',
+  'header.favorites': 'Favoritos',
+  'header.account': 'Minha Conta',
+  'header.cartLabel.one': 'Carrinho com {count} item',
+  'header.cartLabel.other': 'Carrinho com {count} itens',
+  'header.favoritesLabel.one': 'Favoritos: {count} produto',
+  'header.favoritesLabel.other': 'Favoritos: {count} produtos',
+
+  'field.email': 'Email',
+  'field.password': 'Senha',
+  'field.confirmPassword': 'Confirmação de senha',
+  'field.fullName': 'Nome completo',
+  'field.phone': 'Telefone',
+  'field.birthDate': 'Data de nascimento',
+  'field.currentPassword': 'Senha atual',
+  'field.newPassword': 'Nova senha',
+  'field.comment': 'Comentário',
+
+  'validation.required': '{field} é obrigatório',
+  'validation.email': 'Email inválido',
+  'validation.minlength': '{field} deve ter pelo menos {requiredLength} caracteres',
+  'validation.maxlength': '{field} deve ter no máximo {requiredLength} caracteres',
+  'validation.strongPassword': 'Senha deve conter maiúscula, minúscula e número',
+  'validation.invalidPhone': 'Formato: {example}',
+  'validation.passwordMismatch': 'As senhas não coincidem',
+  'validation.invalid': 'Campo inválido',
+  'validation.cardNumberLength': 'Número incompleto',
+  'validation.cardNumber': 'Número de cartão inválido',
+  'validation.cardExpiry': 'Use o formato MM/AA',
+  'validation.cardExpired': 'Cartão vencido',
+
+  'error.default': 'Erro na comunicação com o servidor',
+  'error.network': 'Não foi possível conectar ao servidor. Verifique sua conexão.',
+  'error.timeout': 'O servidor demorou para responder. Tente novamente.',
+  'error.unexpected': 'Erro inesperado',
+  'error.internal': 'Erro interno. Tente novamente.',
+
+  'login.title': 'Bem-vindo de volta',
+  'login.subtitle': 'Entre na sua conta para continuar',
+  'login.emailPlaceholder': 'seu@email.com',
+  'login.passwordPlaceholder': 'Digite sua senha',
+  'login.rememberMe': 'Lembrar de mim',
+  'login.forgotPassword': 'Esqueceu a senha?',
+  'login.submit': 'Entrar',
+  'login.submitting': 'Entrando...',
+  'login.noAccount': 'Não tem uma conta?',
+  'login.createAccount': 'Criar conta',
+  'login.noActivationEmail': 'Não recebeu o email de ativação?',
+  'login.resend': 'Reenviar',
+  'login.agreement': 'Ao entrar, você concorda com nossos',
+  'login.success': 'Login realizado com sucesso! Bem-vindo!',
+  'login.failure': 'Erro ao fazer login',
+
+  'register.title': 'Criar nova conta',
+  'register.or': 'Ou',
+  'register.loginLink': 'faça login em sua conta existente',
+  'register.fullNamePlaceholder': 'Digite seu nome completo',
+  'register.emailPlaceholder': 'Digite seu email',
+  'register.passwordPlaceholder': 'Digite sua senha',
+  'register.passwordHint': 'Mínimo 8 caracteres com maiúscula, minúscula e número',
+  'register.confirmPassword': 'Confirmar senha',
+  'register.confirmPasswordPlaceholder': 'Confirme sua senha',
+  'register.submit': 'Criar conta',
+  'register.submitting': 'Criando conta...',
+  'register.agreement': 'Ao criar uma conta, você concorda com nossos',
+  'register.success': 'Conta criada! Verifique seu email para ativar a conta.',
+  'register.failure': 'Erro ao criar conta',
+  'register.unexpected': 'Erro inesperado ao criar conta',
+
+  'legal.terms': 'Termos de Serviço',
+  'legal.and': 'e',
+  'legal.privacy': 'Política de Privacidade',
+
+  'money.installment.interestFree': '{count}x de {amount} sem juros',
+  'money.installment.withInterest': '{count}x de {amount} com juros',
+  'money.pixPrice': '{amount} no PIX',
+  'money.pixDiscount': '{percent}% de desconto',
+
+  'footer.about.title': 'Sobre a Empresa',
+  'footer.about.aboutUs': 'Sobre Nós',
+  'footer.about.history': 'Nossa História',
+  'footer.about.careers': 'Carreiras',
+  'footer.about.press': 'Imprensa',
+  'footer.service.title': 'Atendimento ao Cliente',
+  'footer.service.help': 'Central de Ajuda',
+  'footer.service.contact': 'Fale Conosco',
+  'footer.service.returns': 'Trocas e Devoluções',
+  'footer.service.privacy': 'Política de Privacidade',
+  'footer.categories.title': 'Categorias',
+  'footer.categories.electronics': 'Eletrônicos',
+  'footer.categories.clothing': 'Roupas',
+  'footer.categories.homeGarden': 'Casa e Jardim',
+  'footer.categories.sports': 'Esportes',
+  'footer.newsletter.title': 'Newsletter',
+  'footer.newsletter.text': 'Receba ofertas exclusivas e novidades em primeira mão!',
+  'footer.newsletter.placeholder': 'Seu e-mail',
+  'footer.newsletter.submit': 'Inscrever-se',
+  'footer.newsletter.success': 'Obrigado por se inscrever em nossa newsletter!',
+  'footer.newsletter.invalid': 'Por favor, insira um email válido.',
+  'footer.follow': 'Siga-nos',
+  'footer.contact': 'Contato',
+  'footer.hours.title': 'Horário de Funcionamento',
+  'footer.hours.weekdays': 'Segunda a Sexta: 8h às 18h',
+  'footer.hours.saturday': 'Sábado: 9h às 17h',
+  'footer.hours.sunday': 'Domingo: 10h às 16h',
+  'footer.certificates': 'Certificados',
+  'footer.rights': '© {year} BCommerce. Todos os direitos reservados.',
+  'footer.terms': 'Termos de Uso',
+  'footer.privacy': 'Política de Privacidade',
+  'footer.cookies': 'Cookies',
+  'footer.payments': 'Formas de pagamento:',
+
+  'auth.backToLogin': 'Voltar para o login',
+  'auth.notAuthenticated': 'Usuário não autenticado',
+
+  'confirmEmail.loading': 'Confirmando seu email...',
+  'confirmEmail.success': 'Email confirmado!',
+  'confirmEmail.successText': 'Sua conta está ativa. Você já pode entrar.',
+  'confirmEmail.goToLogin': 'Ir para o login',
+  'confirmEmail.errorTitle': 'Não foi possível confirmar',
+  'confirmEmail.invalidLink': 'Link de confirmação inválido ou incompleto.',
+  'confirmEmail.failure': 'Não foi possível confirmar seu email.',
+
+  'forgotPassword.title': 'Esqueceu a senha?',
+  'forgotPassword.subtitle': 'Informe seu email e enviaremos um link para redefinir sua senha',
+  'forgotPassword.submitted': 'Se o email informado estiver cadastrado, você receberá em instantes as instruções para redefinir sua senha. O link expira em 15 minutos.',
+  'forgotPassword.submit': 'Enviar link de redefinição',
+  'forgotPassword.failure': 'Erro ao solicitar redefinição de senha',
+
+  'resendActivation.title': 'Reenviar ativação',
+  'resendActivation.subtitle': 'Informe seu email para receber um novo link de ativação da conta',
+  'resendActivation.sent': 'Enviamos um novo link de ativação. Confira sua caixa de entrada e o spam.',
+  'resendActivation.cooldown': 'Reenviar em {seconds}s',
+  'resendActivation.submit': 'Reenviar email de ativação',
+  'resendActivation.success': 'Email de ativação reenviado!',
+  'resendActivation.failure': 'Erro ao reenviar email de ativação',
+
+  'resetPassword.title': 'Redefinir senha',
+  'resetPassword.subtitle': 'Escolha uma nova senha para sua conta',
+  'resetPassword.invalidLink': 'Link de redefinição inválido ou incompleto. Solicite um novo link.',
+  'resetPassword.requestNewLink': 'Solicitar novo link',
+  'resetPassword.newPasswordPlaceholder': 'Digite a nova senha',
+  'resetPassword.confirmPassword': 'Confirmar nova senha',
+  'resetPassword.confirmPasswordPlaceholder': 'Repita a nova senha',
+  'resetPassword.submit': 'Redefinir senha',
+  'resetPassword.success': 'Senha redefinida com sucesso! Faça login com a nova senha.',
+  'resetPassword.failure': 'Erro ao redefinir senha',
+
+  'favorites.added': 'Produto adicionado aos favoritos',
+  'favorites.add': 'Adicionar aos favoritos',
+  'favorites.remove': 'Remover dos favoritos',
+  'favorites.count.one': '{count} produto salvo',
+  'favorites.count.other': '{count} produtos salvos',
+  'favorites.loading': 'Carregando favoritos...',
+  'favorites.empty': 'Você ainda não tem favoritos',
+  'favorites.emptyText': 'Toque no coração dos produtos para guardá-los aqui.',
+  'favorites.moving': 'Movendo...',
+  'favorites.moveToCart': 'Mover para o carrinho',
+  'favorites.movedToCart': 'Produto movido para o carrinho',
+  'favorites.removed': 'Produto removido dos favoritos',
+  'favorites.addFailed': 'Não foi possível favoritar o produto',
+  'favorites.removeFailed': 'Não foi possível remover dos favoritos',
+
+  'idle.title': 'Você ainda está aí?',
+  'idle.message': 'Por inatividade, você será desconectado em',
+  'idle.logout': 'Sair agora',
+  'idle.stay': 'Continuar conectado',
+  'idle.loggedOut': 'Sua sessão foi encerrada por inatividade',
+
+  'pagination.label': 'Paginação',
+  'pagination.previous': 'Página anterior',
+  'pagination.next': 'Próxima página',
+
+  'product.outOfStock': 'Esgotado',
+  'product.notFound': 'Produto não encontrado',
+  'product.notFoundText': 'O produto que você procura não existe ou foi removido.',
+  'product.viewCategories': 'Ver categorias',
+  'product.soldOut': 'Produto esgotado',
+  'product.lowStock.one': 'Última unidade!',
+  'product.lowStock.other': 'Últimas {count} unidades!',
+  'product.inStock': 'Em estoque',
+  'product.quantity': 'Quantidade',
+  'product.addToCart': 'Adicionar ao carrinho',
+  'product.adding': 'Adicionando...',
+  'product.inCart.one': 'Você já tem {count} unidade deste produto no carrinho.',
+  'product.inCart.other': 'Você já tem {count} unidades deste produto no carrinho.',
+  'product.unavailable': 'Indisponível',
+  'product.description': 'Descrição',
+  'product.addedToCart': 'Produto adicionado ao carrinho',
+  'product.addToCartFailed': 'Não foi possível adicionar o produto ao carrinho',
+  'product.loadFailed': 'Não foi possível carregar o produto',
+
+  'rating.select': 'Selecione uma nota',
+  'rating.value': 'Nota {rating} de 5',
+  'rating.stars.one': '{count} estrela',
+  'rating.stars.other': '{count} estrelas',
+
+  'address.default': 'Padrão',
+  'address.recipientName': 'Destinatário',
+  'address.zipCode': 'CEP',
+  'address.street': 'Rua',
+  'address.number': 'Número',
+  'address.complement': 'Complemento',
+  'address.neighborhood': 'Bairro',
+  'address.city': 'Cidade',
+  'address.state': 'UF',
+  'address.lookingUpCep': 'Buscando endereço...',
+  'address.cepNotFound': 'CEP não encontrado. Preencha o endereço manualmente.',
+  'address.invalidZipCode': 'CEP inválido',
+  'address.invalidState': 'Use a sigla do estado (ex.: SP)',
+  'address.useAsDefault': 'Usar como endereço padrão',
+  'address.save': 'Salvar endereço',
+  'address.created': 'Endereço cadastrado',
+  'address.updated': 'Endereço atualizado',
+  'address.saveFailed': 'Não foi possível salvar o endereço',
+
+  'cart.title': 'Carrinho',
+  'cart.close': 'Fechar carrinho',
+  'cart.empty': 'Seu carrinho está vazio.',
+  'cart.explore': 'Explorar produtos',
+  'cart.pendingChanges': 'Alguns itens mudaram de preço ou disponibilidade.',
+  'cart.acknowledgeChanges': 'Entendi, atualizar carrinho',
+  'cart.subtotal': 'Subtotal',
+  'cart.checkout': 'Finalizar compra',
+  'cart.view': 'Ver carrinho',
+  'cart.item.fallbackName': 'Produto',
+  'cart.item.remove': 'Remover item',
+  'cart.item.unitPrice': '{price} cada',
+  'cart.item.unavailable': 'Produto indisponível no momento. Ele será retirado do carrinho.',
+  'cart.item.priceUp': 'O preço subiu de {from} para {to}.',
+  'cart.item.priceDown': 'O preço baixou de {from} para {to}.',
+  'cart.item.lowStock.one': 'Resta apenas {count} unidade em estoque.',
+  'cart.item.lowStock.other': 'Restam apenas {count} unidades em estoque.',
+  'cart.item.decrease': 'Diminuir quantidade',
+  'cart.item.increase': 'Aumentar quantidade',
+  'cart.loading': 'Carregando carrinho...',
+  'cart.emptyTitle': 'Seu carrinho está vazio',
+  'cart.emptyText': 'Explore o catálogo e adicione produtos para continuar.',
+  'cart.browseCategories': 'Ver categorias',
+  'cart.pendingChangesDetail': 'Alguns itens do seu carrinho mudaram de preço ou disponibilidade desde que foram adicionados. Revise os destaques abaixo.',
+  'cart.items': 'Itens do carrinho',
+  'cart.summary': 'Resumo',
+  'cart.itemCount': 'Itens',
+  'cart.total': 'Total',
+  'cart.shippingAtCheckout': 'O frete é calculado no checkout.',
+  'cart.confirmChanges': 'Confirme as mudanças do carrinho para continuar.',
+  'cart.continueShopping': 'Continuar comprando',
+  'cart.clear': 'Esvaziar carrinho',
+  'cart.updateQuantityFailed': 'Não foi possível alterar a quantidade',
+  'cart.removeFailed': 'Não foi possível remover o item',
+  'cart.repriceFailed': 'Não foi possível atualizar o carrinho',
+  'cart.mergeFailed': 'Não foi possível adicionar ao carrinho os itens escolhidos antes de entrar',
+  'cart.signInRequired': 'Entre na sua conta para adicionar produtos ao carrinho',
+
+  'coupon.label': 'Cupom de desconto',
+  'coupon.placeholder': 'Digite o código',
+  'coupon.apply': 'Aplicar',
+  'coupon.applying': 'Validando...',
+  'coupon.discount': 'Desconto',
+  'coupon.validationFailed': 'Não foi possível validar o cupom',
+  'coupon.ineligible.not_found': 'Cupom não encontrado',
+  'coupon.ineligible.inactive': 'Este cupom não está mais disponível',
+  'coupon.ineligible.not_started': 'Este cupom vale a partir de {date}',
+  'coupon.ineligible.expired': 'Este cupom expirou em {date}',
+  'coupon.ineligible.exhausted': 'Este cupom atingiu o limite de usos',
+  'coupon.ineligible.already_used': 'Você já utilizou este cupom',
+  'coupon.ineligible.below_minimum': 'Este cupom vale para compras a partir de {minimum}. Faltam {missing}.',
+  'coupon.percentOff': '{percent}% de desconto',
+
+  'search.label': 'Buscar produtos',
+  'search.placeholder': 'Buscar produtos...',
+  'search.recent': 'Buscas recentes',
+  'search.clearRecent': 'Limpar',
+  'search.removeRecent': 'Remover das buscas recentes',
+  'search.category': 'Categoria',
+  'search.searchFor': 'Buscar por',
+
+  'notifications.title': 'Notificações',
+  'notifications.unread.one': 'Notificações: {count} não lida',
+  'notifications.unread.other': 'Notificações: {count} não lidas',
+  'notifications.markAllAsRead': 'Marcar todas como lidas',
+  'notifications.empty': 'Nenhuma notificação por aqui',
+  'notifications.viewAll': 'Ver todas',
+  'notifications.unreadCount.one': '{count} não lida',
+  'notifications.unreadCount.other': '{count} não lidas',
+  'notifications.loading': 'Carregando notificações...',
+  'notifications.viewDetails': 'Ver detalhes',
+  'notifications.markAsRead': 'Marcar como lida',
+  'notifications.loadFailed': 'Não foi possível carregar suas notificações',
+  'notifications.markAsReadFailed': 'Não foi possível marcar a notificação como lida',
+  'notifications.markAllAsReadFailed': 'Não foi possível marcar as notificações como lidas',
+  'notifications.new.one': 'Você tem uma nova notificação',
+  'notifications.new.other': 'Você tem {count} novas notificações',
+  'notifications.view': 'Ver',
+
+  'card.number': 'Número do cartão',
+  'card.holderName': 'Nome impresso no cartão',
+  'card.expiry': 'Validade',
+  'card.expiryPlaceholder': 'MM/AA',
+  'card.cvv': 'Código de segurança',
+  'card.cvvLength': 'O código de segurança tem {digits} dígitos',
+  'card.useAsDefault': 'Usar como cartão padrão',
+  'card.securityNote': 'Os dados do cartão são enviados de forma segura à operadora. Guardamos apenas os quatro últimos dígitos.',
+  'card.save': 'Salvar cartão',
+  'card.saved': 'Cartão salvo',
+  'card.saveFailed': 'Não foi possível salvar o cartão',
+  'card.validationFailed': 'Não foi possível validar o cartão',
+  'card.declined': 'Cartão recusado pela operadora',
+  'card.tokenizerUnavailable': 'Cadastro de cartões indisponível: nenhum gateway de pagamento configurado',
+  'card.brand.visa': 'Visa',
+  'card.brand.mastercard': 'Mastercard',
+  'card.brand.amex': 'American Express',
+  'card.brand.elo': 'Elo',
+  'card.brand.hipercard': 'Hipercard',
+  'card.brand.diners': 'Diners Club',
+  'card.brand.unknown': 'Cartão',
+
+  'breadcrumb.label': 'Trilha de navegação',
+  'breadcrumb.home': 'Início',
+
+  'payment.method.credit_card': 'Cartão de crédito',
+  'payment.method.pix': 'PIX',
+  'payment.method.boleto': 'Boleto bancário',
+
+  'checkout.step.address': 'Endereço',
+  'checkout.step.shipping': 'Frete',
+  'checkout.step.payment': 'Pagamento',
+  'checkout.step.review': 'Revisão',
+  'checkout.steps': 'Etapas do checkout',
+  'checkout.emptyText': 'Adicione produtos ao carrinho para finalizar uma compra.',
+  'checkout.pendingChanges': 'Alguns itens do seu carrinho mudaram de preço ou disponibilidade. Revise o carrinho para continuar.',
+  'checkout.reviewCart': 'Revisar carrinho',
+  'checkout.summary': 'Resumo do pedido',
+  'checkout.subtotal.one': 'Subtotal ({count} item)',
+  'checkout.subtotal.other': 'Subtotal ({count} itens)',
+  'checkout.freeShipping': 'Grátis',
+  'checkout.toBeCalculated': 'A calcular',
+  'checkout.pixDiscount': 'Desconto PIX',
+  'checkout.incomplete': 'Preencha todas as etapas antes de confirmar o pedido',
+  'checkout.installmentUnavailable': 'O parcelamento escolhido não está disponível para este valor. Escolha novamente na etapa de pagamento.',
+  'checkout.cartChanged': 'Alguns itens mudaram de preço ou disponibilidade. Revise o carrinho antes de continuar.',
+  'checkout.address.title': 'Endereço de entrega',
+  'checkout.address.loading': 'Carregando endereços...',
+  'checkout.address.options': 'Endereços',
+  'checkout.address.new': 'Novo endereço',
+  'checkout.address.add': 'Adicionar novo endereço',
+  'checkout.address.continue': 'Continuar para o frete',
+  'checkout.address.loadFailed': 'Não foi possível carregar seus endereços',
+  'checkout.shipping.deliverTo': 'Entrega para {name}, CEP {zipCode}',
+  'checkout.shipping.loading': 'Calculando opções de frete...',
+  'checkout.shipping.none': 'Nenhuma opção de entrega disponível para este endereço.',
+  'checkout.shipping.options': 'Opções de frete',
+  'checkout.shipping.estimate.one': 'até {count} dia útil',
+  'checkout.shipping.estimate.other': 'até {count} dias úteis',
+  'checkout.shipping.continue': 'Continuar para o pagamento',
+  'checkout.shipping.loadFailed': 'Não foi possível calcular o frete',
+  'checkout.payment.methods': 'Formas de pagamento',
+  'checkout.payment.creditCardDescription': 'Use um cartão salvo ou cadastre um novo',
+  'checkout.payment.pixDescription': 'Aprovação imediata após o pagamento',
+  'checkout.payment.pixDiscountDescription': '{percent}% de desconto e aprovação imediata após o pagamento',
+  'checkout.payment.boletoDescription': 'Compensação em até 3 dias úteis',
+  'checkout.payment.loadingCards': 'Carregando cartões...',
+  'checkout.payment.noCards': 'Você ainda não tem cartões válidos salvos.',
+  'checkout.payment.installments': 'Parcelamento',
+  'checkout.payment.addCard': 'Adicionar novo cartão',
+  'checkout.payment.continue': 'Revisar pedido',
+  'checkout.review.title': 'Revisão do pedido',
+  'checkout.review.change': 'Alterar',
+  'checkout.review.estimate.one': 'Até {count} dia útil',
+  'checkout.review.estimate.other': 'Até {count} dias úteis',
+  'checkout.review.items': 'Itens',
+  'checkout.review.notes': 'Observações (opcional)',
+  'checkout.review.notesPlaceholder': 'Ex.: deixar com o porteiro',
+  'checkout.review.placing': 'Enviando pedido...',
+  'checkout.review.place': 'Confirmar pedido · {total}',
+  'checkout.review.placeFailed': 'Não foi possível criar o pedido',
+
+  'orderConfirmation.loading': 'Carregando pedido...',
+  'orderConfirmation.loadFailed': 'Não foi possível carregar o pedido',
+  'orderConfirmation.placed': 'Pedido realizado!',
+  'orderConfirmation.placedText': 'Obrigado pela compra. Você receberá as atualizações do pedido por e-mail.',
+  'orderConfirmation.pix.instructions': 'Pague {amount} com PIX para confirmar o pedido.',
+  'orderConfirmation.pix.qrCode': 'QR code do PIX',
+  'orderConfirmation.pix.expiresIn': 'Expira em',
+  'orderConfirmation.pix.copyPaste': 'PIX copia e cola',
+  'orderConfirmation.pix.copied': 'Código PIX copiado',
+  'orderConfirmation.pix.expired': 'Código PIX expirado',
+  'orderConfirmation.boleto.instructions': 'Pague o boleto de {amount} até {dueDate}. A compensação leva até 3 dias úteis.',
+  'orderConfirmation.boleto.digitableLine': 'Linha digitável',
+  'orderConfirmation.boleto.download': 'Baixar boleto (PDF)',
+  'orderConfirmation.boleto.copied': 'Linha digitável copiada',
+  'orderConfirmation.boleto.expired': 'Boleto vencido',
+  'orderConfirmation.copyFailed': 'Não foi possível copiar. Selecione o código e copie manualmente.',
+  'orderConfirmation.awaitingPayment': 'Aguardando a confirmação do pagamento',
+  'orderConfirmation.expiredText': 'O pedido continua reservado. Gere uma nova cobrança para pagar.',
+  'orderConfirmation.renew': 'Gerar nova cobrança',
+  'orderConfirmation.renewing': 'Gerando...',
+  'orderConfirmation.chargeFailed': 'Não foi possível gerar a cobrança',
+  'orderConfirmation.cancelled': 'Pedido cancelado',
+  'orderConfirmation.cancelledText': 'Este pedido foi cancelado antes da confirmação do pagamento.',
+  'orderConfirmation.paymentConfirmed': 'Pagamento confirmado!',
+  'orderConfirmation.paymentConfirmedText': 'Recebemos seu pagamento e já estamos preparando o pedido.',
+  'orderConfirmation.orderNumber': 'Número do pedido',
+  'orderConfirmation.track': 'Acompanhar pedido',
+
+  'account.title': 'Minha conta',
+  'account.orders': 'Pedidos',
+  'account.ordersDescription': 'Histórico, rastreamento e cancelamentos',
+  'account.favorites': 'Favoritos',
+  'account.favoritesDescription': 'Produtos salvos para comprar depois',
+  'account.addresses': 'Endereços',
+  'account.addressesDescription': 'Endereços de entrega e endereço padrão',
+  'account.cards': 'Cartões',
+  'account.cardsDescription': 'Cartões salvos para pagamento',
+  'account.security': 'Segurança',
+  'account.securityDescription': 'Sessões ativas e atividade recente',
+  'account.logout': 'Sair',
+
+  'profile.verified': 'Verificado',
+  'profile.notVerified': 'Não verificado',
+  'profile.lastLogin': 'Último acesso em',
+  'profile.refreshing': 'Atualizando...',
+  'profile.personalData': 'Dados pessoais',
+  'profile.updated': 'Perfil atualizado com sucesso!',
+  'profile.updateFailed': 'Erro ao atualizar perfil',
+  'profile.changePassword': 'Alterar senha',
+  'profile.changingPassword': 'Alterando...',
+  'profile.showPasswords': 'Mostrar senhas',
+  'profile.hidePasswords': 'Ocultar senhas',
+  'profile.passwordHint': 'Mínimo 8 caracteres com maiúscula, minúscula e número. Após a alteração você precisará entrar novamente.',
+  'profile.passwordChanged': 'Senha alterada com sucesso! Entre novamente com a nova senha.',
+  'profile.passwordChangeFailed': 'Erro ao alterar senha',
+
+  'addresses.title': 'Meus endereços',
+  'addresses.empty': 'Nenhum endereço cadastrado',
+  'addresses.emptyText': 'Cadastre um endereço para agilizar suas compras.',
+  'addresses.edit': 'Editar endereço',
+  'addresses.confirmDelete': 'Excluir este endereço? Pedidos já feitos não serão afetados.',
+  'addresses.defaultUpdated': 'Endereço padrão atualizado',
+  'addresses.defaultFailed': 'Não foi possível alterar o endereço padrão',
+  'addresses.deleted': 'Endereço excluído',
+  'addresses.deleteFailed': 'Não foi possível excluir o endereço',
+
+  'cards.title': 'Meus cartões',
+  'cards.new': 'Novo cartão',
+  'cards.empty': 'Nenhum cartão salvo',
+  'cards.emptyText': 'Salve um cartão para pagar mais rápido nas próximas compras.',
+  'cards.expiredOn': 'Venceu em {date}',
+  'cards.validUntil': 'Válido até {date}',
+  'cards.confirmDelete': 'Excluir este cartão? Pedidos já feitos não serão afetados.',
+  'cards.loadFailed': 'Não foi possível carregar seus cartões',
+  'cards.defaultUpdated': 'Cartão padrão atualizado',
+  'cards.defaultFailed': 'Não foi possível alterar o cartão padrão',
+  'cards.deleted': 'Cartão excluído',
+  'cards.deleteFailed': 'Não foi possível excluir o cartão',
+
+  'security.sessions': 'Sessões ativas',
+  'security.sessionsDescription': 'Dispositivos conectados à sua conta',
+  'security.revokeOthers': 'Encerrar todas as outras',
+  'security.revokeOthersConfirm.one': 'Encerrar a outra sessão? Esse dispositivo precisará entrar de novo.',
+  'security.revokeOthersConfirm.other': 'Encerrar as outras {count} sessões? Esses dispositivos precisarão entrar de novo.',
+  'security.revoke': 'Encerrar',
+  'security.revoking': 'Encerrando...',
+  'security.revokeConfirm': 'Encerrar esta sessão?',
+  'security.loadingSessions': 'Carregando sessões...',
+  'security.thisDevice': 'Este dispositivo',
+  'security.unknownIp': 'IP desconhecido',
+  'security.lastUsed': 'Último uso em {date}',
+  'security.device': '{browser} no {system}',
+  'security.unknownDevice': 'Dispositivo desconhecido',
+  'security.activity': 'Atividade recente',
+  'security.eventType': 'Tipo',
+  'security.allEvents': 'Todos',
+  'security.loadingEvents': 'Carregando eventos...',
+  'security.noEvents': 'Nenhum evento encontrado',
+  'security.ip': 'IP {ip}',
+  'security.loadSessionsFailed': 'Não foi possível carregar suas sessões',
+  'security.revoked': 'Sessão encerrada',
+  'security.revokeFailed': 'Não foi possível encerrar a sessão',
+  'security.othersRevoked': 'As outras sessões foram encerradas',
+  'security.revokeOthersFailed': 'Não foi possível encerrar as outras sessões',
+  'security.loadEventsFailed': 'Não foi possível carregar os eventos de segurança',
+  'security.event.LOGIN_SUCCESS': 'Login realizado',
+  'security.event.LOGIN_FAILED': 'Tentativa de login sem sucesso',
+  'security.event.LOGOUT': 'Logout',
+  'security.event.PASSWORD_CHANGED': 'Senha alterada',
+  'security.event.PASSWORD_RESET_REQUESTED': 'Redefinição de senha solicitada',
+  'security.event.PASSWORD_RESET': 'Senha redefinida',
+  'security.event.EMAIL_CONFIRMED': 'E-mail confirmado',
+  'security.event.ACCOUNT_LOCKED': 'Conta bloqueada temporariamente',
+  'security.event.SESSION_REVOKED': 'Sessão encerrada',
+
+  'reviews.title': 'Avaliações',
+  'reviews.count.one': '{count} avaliação',
+  'reviews.count.other': '{count} avaliações',
+  'reviews.none': 'Este produto ainda não foi avaliado.',
+  'reviews.signIn': 'Entre',
+  'reviews.signInToReview': 'para avaliar produtos que você comprou.',
+  'reviews.formTitle': 'Avalie este produto',
+  'reviews.commentPlaceholder': 'Conte o que achou do produto (opcional)',
+  'reviews.submit': 'Publicar avaliação',
+  'reviews.alreadyReviewed': 'Você já avaliou este produto.',
+  'reviews.buyersOnly': 'Somente quem comprou este produto pode avaliá-lo.',
+  'reviews.anonymous': 'Cliente',
+  'reviews.verifiedPurchase': 'Compra verificada',
+  'reviews.empty': 'Nenhuma avaliação por aqui ainda.',
+  'reviews.published': 'Avaliação publicada. Obrigado!',
+  'reviews.publishFailed': 'Não foi possível publicar a avaliação',
+
+  'filters.priceRange': 'Faixa de preço',
+  'filters.min': 'Mín.',
+  'filters.max': 'Máx.',
+  'filters.minPrice': 'Preço mínimo',
+  'filters.maxPrice': 'Preço máximo',
+  'filters.apply': 'Aplicar',
+  'filters.inStock': 'Somente em estoque',
+  'filters.clear': 'Limpar filtros',
+  'filters.invalidRange': 'O preço mínimo não pode ser maior que o máximo',
+
+  'gallery.image': 'Imagem {index}',
+  'gallery.previous': 'Imagem anterior',
+  'gallery.next': 'Próxima imagem',
+
+  'sort.label': 'Ordenar por',
+  'sort.relevance': 'Relevância',
+  'sort.priceAsc': 'Menor preço',
+  'sort.priceDesc': 'Maior preço',
+  'sort.newest': 'Mais recentes',
+  'sort.nameAsc': 'Nome (A-Z)',
+
+  'catalog.resultCount.one': '{count} produto encontrado',
+  'catalog.resultCount.other': '{count} produtos encontrados',
+  'catalog.noResultsFiltered': 'Nenhum produto encontrado com os filtros selecionados.',
+  'catalog.noResultsFor': 'Nenhum produto encontrado para "{term}".',
+  'catalog.search': 'Busca',
+  'catalog.resultsFor': 'Resultados para "{term}"',
+  'catalog.searchPrompt': 'Digite o que você procura na barra de busca.',
+  'catalog.allCategories': 'Ver todas as categorias',
+  'catalog.noCategories': 'Nenhuma categoria disponível.',
+  'catalog.categoryNotFound': 'Categoria não encontrada',
+  'catalog.loadFailed': 'Não foi possível carregar os produtos',
+  'catalog.searchFailed': 'Não foi possível realizar a busca',
+  'catalog.categoriesFailed': 'Não foi possível carregar as categorias',
+
+  'orders.title': 'Meus pedidos',
+  'orders.filters': 'Filtros',
+  'orders.filter.status': 'Status',
+  'orders.filter.all': 'Todos',
+  'orders.filter.from': 'De',
+  'orders.filter.to': 'Até',
+  'orders.loading': 'Carregando pedidos...',
+  'orders.noResults': 'Nenhum pedido encontrado com esses filtros',
+  'orders.empty': 'Você ainda não fez nenhum pedido',
+  'orders.startShopping': 'Começar a comprar',
+  'orders.itemCount.one': '{count} item',
+  'orders.itemCount.other': '{count} itens',
+  'orders.loadFailed': 'Não foi possível carregar seus pedidos',
+  'orders.status.PENDING_PAYMENT': 'Aguardando pagamento',
+  'orders.status.PAYMENT_CONFIRMED': 'Pagamento confirmado',
+  'orders.status.PROCESSING': 'Em separação',
+  'orders.status.SHIPPED': 'Enviado',
+  'orders.status.DELIVERED': 'Entregue',
+  'orders.status.CANCELLED': 'Cancelado',
+  'orders.status.REFUNDED': 'Reembolsado',
+  'orders.detail.loading': 'Carregando pedido...',
+  'orders.detail.backToOrders': 'Voltar aos pedidos',
+  'orders.detail.title': 'Pedido #{number}',
+  'orders.detail.placedAt': 'Realizado em {date}',
+  'orders.detail.payNow': 'Pagar agora',
+  'orders.detail.reorder': 'Comprar novamente',
+  'orders.detail.cancel': 'Cancelar pedido',
+  'orders.detail.cancelling': 'Cancelando...',
+  'orders.detail.cancelConfirm': 'Cancelar este pedido? Pagamentos já realizados serão estornados.',
+  'orders.detail.items': 'Itens',
+  'orders.detail.delivery': 'Entrega',
+  'orders.detail.carrier': 'Transportadora:',
+  'orders.detail.trackingCode': 'Código de rastreamento:',
+  'orders.detail.deliveredAt': 'Entregue em {date}',
+  'orders.detail.estimatedDelivery': 'Previsão de entrega:',
+  'orders.detail.trackOnCarrier': 'Acompanhar no site da transportadora',
+  'orders.detail.timeline': 'Acompanhamento',
+  'orders.detail.notes': 'Observações: {notes}',
+  'orders.detail.notFound': 'Pedido não encontrado',
+  'orders.detail.loadFailed': 'Não foi possível carregar o pedido',
+  'orders.detail.cancelled': 'Pedido cancelado',
+  'orders.detail.cancelFailed': 'Não foi possível cancelar o pedido',
+  'orders.detail.productsFailed': 'Não foi possível consultar os produtos',
+  'orders.detail.reorderNone': 'Nenhum item deste pedido está disponível no momento',
+  'orders.detail.reorderPartial': 'Alguns itens não estão mais disponíveis e ficaram de fora',
+  'orders.detail.reordered': 'Itens adicionados ao carrinho',
+
+  'home.title': 'Bem-vindo ao BCommerce',
+  'home.subtitle': 'Sua plataforma de e-commerce completa',
+
+  'format.date': 'dd/MM/yyyy',
+  'format.dateTime': 'dd/MM/yyyy HH:mm',
+  'format.dateTimeLong': "dd/MM/yyyy 'às' HH:mm"
+} as const;
@@ -0,0 +1,17 @@
+import { PT_BR } from './pt-BR';
+
+/**
+ * Chaves de tradução, derivadas do catálogo pt-BR
+ */
+export type TranslationKey = keyof typeof PT_BR;
+
+/**
+ * Formato exigido dos demais catálogos: todas as chaves, nenhuma a mais
+ * Uma chave ausente em qualquer catálogo é erro de compilação (ng build / ngc)
+ */
+export type TranslationCatalog = { readonly [K in TranslationKey]: string };
+
+/**
+ * Valores interpolados nos textos ("{field}" → params.field)
+ */
+export type TranslationParams = Record<string, string | number>;
@@ -0,0 +1,7 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Marca requisições que não devem disparar a renovação automática de token
+ * (login, registro, logout e o próprio refresh)
+ */
+export const BYPASS_AUTH_REFRESH = new HttpContextToken<boolean>(() => false);
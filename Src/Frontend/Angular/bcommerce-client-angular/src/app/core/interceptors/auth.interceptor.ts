@@ -0,0 +1,84 @@
+import { inject } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandlerFn,
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpStatusCode
+} from '@angular/common/http';
+import { Observable, catchError, from, switchMap, throwError } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+import { BYPASS_AUTH_REFRESH } from './auth-context';
+import { APP_CONFIG } from '../config/app-config';
+
+/**
+ * Interceptor funcional de autenticação
+ * - Anexa o access token às chamadas da API
+ * - Renova o token antes de expirar
+ * - Em caso de 401, renova uma única vez e reenvia as requisições pendentes
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!isApiRequest(req, inject(APP_CONFIG).apiBaseUrl)) {
+    return next(req);
+  }
+
+  const authService = inject(AuthService);
+
+  if (req.context.get(BYPASS_AUTH_REFRESH)) {
+    return next(withAccessToken(req, authService.getAccessToken()));
+  }
+
+  // Renovação proativa: evita enviar um token prestes a expirar
+  const request$ = authService.isTokenExpiringSoon()
+    ? from(authService.refreshToken()).pipe(
+        switchMap(() => next(withAccessToken(req, authService.getAccessToken())))
+      )
+    : next(withAccessToken(req, authService.getAccessToken()));
+
+  return request$.pipe(
+    catchError((error: unknown) => {
+      if (
+        error instanceof HttpErrorResponse &&
+        error.status === HttpStatusCode.Unauthorized &&
+        authService.getAccessToken()
+      ) {
+        return retryAfterRefresh(req, next, authService, error);
+      }
+
+      return throwError(() => error);
+    })
+  );
+};
+
+/**
+ * Aguarda a renovação compartilhada do token e reenvia a requisição original
+ */
+function retryAfterRefresh(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  authService: AuthService,
+  originalError: HttpErrorResponse
+): Observable<HttpEvent<unknown>> {
+  return from(authService.refreshToken()).pipe(
+    switchMap((refreshed) =>
+      refreshed
+        ? next(withAccessToken(req, authService.getAccessToken()))
+        : throwError(() => originalError)
+    )
+  );
+}
+
+/**
+ * Apenas chamadas à API recebem o token (nunca URLs de terceiros)
+ */
+function isApiRequest(req: HttpRequest<unknown>, apiBaseUrl: string): boolean {
+  return apiBaseUrl ? req.url.startsWith(apiBaseUrl) : req.url.startsWith('/api/');
+}
+
+/**
+ * Clona a requisição com o header Authorization, quando houver token
+ */
+function withAccessToken(req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+  return token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
+}
@@ -0,0 +1,13 @@
+import { inject } from '@angular/core';
+import { HttpInterceptorFn } from '@angular/common/http';
+import { timeout } from 'rxjs';
+import { APP_CONFIG } from '../config/app-config';
+
+/**
+ * Interceptor funcional que aplica o tempo limite configurado às requisições
+ */
+export const timeoutInterceptor: HttpInterceptorFn = (req, next) => {
+  const { httpRequestMs } = inject(APP_CONFIG).timeouts;
+
+  return httpRequestMs > 0 ? next(req).pipe(timeout(httpRequestMs)) : next(req);
+};
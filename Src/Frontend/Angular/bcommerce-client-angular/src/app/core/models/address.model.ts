@@ -0,0 +1,45 @@
+/**
+ * Endereço de entrega do usuário (tabela addresses)
+ */
+export interface Address {
+  id: string;
+  recipientName: string;
+  street: string;
+  number: string;
+  complement: string | null;
+  neighborhood: string;
+  city: string;
+  /** UF com duas letras */
+  state: string;
+  /** CEP somente com dígitos */
+  zipCode: string;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Dados para cadastrar ou alterar um endereço
+ */
+export interface AddressRequest {
+  recipientName: string;
+  street: string;
+  number: string;
+  complement?: string | null;
+  neighborhood: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  isDefault?: boolean;
+}
+
+/**
+ * Endereço encontrado para um CEP (sem número e complemento)
+ */
+export interface CepLookupResult {
+  zipCode: string;
+  street: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * Categorias de erro normalizadas a partir das respostas da API
+ * - validation: dados rejeitados com erros por campo (ModelState / ValidationProblemDetails)
+ * - business: regra de negócio recusada (ApiResponse com success = false)
+ * - unauthorized / forbidden / not-found: status HTTP 401, 403 e 404
+ * - server: falhas 5xx
+ * - network: servidor inacessível, CORS ou tempo limite excedido
+ */
+export type ApiErrorKind =
+  | 'validation'
+  | 'business'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'server'
+  | 'network';
+
+/**
+ * Erros por campo, indexados pelo nome enviado pelo backend (ex.: "Email", "Password")
+ */
+export type ApiFieldErrors = Record<string, string[]>;
+
+interface ApiErrorBase {
+  /** Status HTTP (0 quando não houve resposta) */
+  status: number;
+  /** Mensagem principal, pronta para exibição */
+  message: string;
+  /** Todas as mensagens retornadas pelo backend */
+  messages: string[];
+  /** Código de erro do backend, quando houver */
+  code?: string;
+  /** X-Correlation-Id (ou traceId do ProblemDetails) para rastrear a requisição nos logs */
+  correlationId?: string;
+}
+
+export interface ApiValidationError extends ApiErrorBase {
+  kind: 'validation';
+  fieldErrors: ApiFieldErrors;
+}
+
+export interface ApiGenericError extends ApiErrorBase {
+  kind: Exclude<ApiErrorKind, 'validation'>;
+}
+
+/**
+ * Erro único da camada HTTP, discriminado por `kind`
+ */
+export type ApiError = ApiValidationError | ApiGenericError;
+
+/**
+ * Item de erro retornado pelo BuildingBlocks (record Error(string Message))
+ */
+export interface ApiErrorItem {
+  message: string;
+}
@@ -1,3 +1,5 @@
+import { ApiError, ApiErrorItem } from './api-error.model';
+
 /**
  * Interface genérica para respostas da API
  * Segue o padrão utilizado pelo backend para respostas consistentes
@@ -7,5 +9,7 @@ export interface ApiResponse<T> {
   message?: string;
   code?: string;
   data?: T;
-  errors?: string[];
-}
\ No newline at end of file
+  errors?: ApiErrorItem[];
+  /** Erro normalizado pelo ApiClient quando success = false */
+  error?: ApiError;
+}
@@ -0,0 +1,56 @@
+/**
+ * Bandeiras reconhecidas pelo prefixo do número do cartão
+ */
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'elo' | 'hipercard' | 'diners' | 'unknown';
+
+/**
+ * Cartão salvo do usuário (tabela cards)
+ * O número completo nunca chega ao client: apenas os últimos dígitos e o token do gateway
+ */
+export interface SavedCard {
+  id: string;
+  cardholderName: string;
+  cardNumberLastFour: string;
+  /** Código da bandeira (visa, mastercard, ...); cartões salvos antes dos códigos guardam o nome */
+  cardBrand: string;
+  expiryMonth: string;
+  expiryYear: string;
+  isDefault: boolean;
+  createdAt: string;
+}
+
+/**
+ * Dados digitados pelo usuário; existem apenas em memória até a tokenização
+ */
+export interface CardDetails {
+  /** Número somente com dígitos */
+  number: string;
+  holderName: string;
+  /** Mês com dois dígitos (01-12) */
+  expiryMonth: string;
+  /** Ano com quatro dígitos */
+  expiryYear: string;
+  cvv: string;
+}
+
+/**
+ * Resultado da tokenização no gateway de pagamento
+ */
+export interface CardToken {
+  token: string;
+  lastFour: string;
+  brand: CardBrand;
+}
+
+/**
+ * Dados enviados ao backend para salvar um cartão (nunca o número ou o CVV)
+ */
+export interface SaveCardRequest {
+  token: string;
+  cardholderName: string;
+  cardNumberLastFour: string;
+  cardBrand: CardBrand;
+  expiryMonth: string;
+  expiryYear: string;
+  isDefault: boolean;
+}
@@ -0,0 +1,74 @@
+/**
+ * Dados do produto guardados no item no momento em que foi adicionado
+ * (coluna product_snapshot), para exibir o carrinho sem consultar o catálogo
+ */
+export interface ProductSnapshot {
+  name: string;
+  slug: string;
+  imageUrl: string | null;
+  /** Estoque conhecido ao adicionar; limita a quantidade no client */
+  stockQuantity?: number;
+}
+
+/**
+ * Item do carrinho (tabela cart_items)
+ */
+export interface CartItem {
+  id: string;
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  productSnapshot: ProductSnapshot | null;
+  addedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Carrinho de compras (tabela carts)
+ * O carrinho de visitante não tem id nem userId: existe apenas no navegador
+ */
+export interface Cart {
+  id: string | null;
+  userId: string | null;
+  items: CartItem[];
+  subtotal: number;
+  totalItems: number;
+  createdAt?: string;
+  updatedAt?: string;
+  expiresAt?: string | null;
+}
+
+/**
+ * Dados para adicionar um produto ao carrinho do servidor
+ */
+export interface AddCartItemRequest {
+  productId: string;
+  quantity: number;
+  productSnapshot: ProductSnapshot | null;
+}
+
+/**
+ * Itens do carrinho de visitante enviados ao servidor após o login
+ * `quantity` é a quantidade final do produto no carrinho (não um incremento),
+ * então reenviar a mesma requisição não duplica itens
+ */
+export interface MergeCartRequest {
+  items: AddCartItemRequest[];
+}
+
+/**
+ * Diferença entre o item do carrinho e o produto atual no catálogo
+ */
+export interface CartItemChange {
+  productId: string;
+  /** Preço gravado no item (unit_price) */
+  previousPrice: number;
+  currentPrice: number;
+  /** Estoque atual; 0 quando o produto foi desativado */
+  currentStock: number;
+  priceChanged: boolean;
+  /** A quantidade no carrinho é maior que o estoque atual */
+  insufficientStock: boolean;
+  unavailable: boolean;
+}
@@ -0,0 +1,108 @@
+/**
+ * Categoria de produtos (tabela categories)
+ */
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  isActive: boolean;
+  createdAt: string;
+  /** Subcategorias, quando o endpoint retorna a árvore */
+  children?: Category[];
+}
+
+/**
+ * Imagem de produto (tabela product_images)
+ */
+export interface ProductImage {
+  id: string;
+  productId: string;
+  imageUrl: string;
+  displayOrder: number;
+  isPrimary: boolean;
+  createdAt: string;
+}
+
+/**
+ * Produto do catálogo (tabela products)
+ */
+export interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  categoryId: string | null;
+  /** Resumo da categoria, quando incluído pelo backend */
+  category?: Pick<Category, 'id' | 'name' | 'slug'> | null;
+  price: number;
+  stockQuantity: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  images: ProductImage[];
+}
+
+/**
+ * Ordenações aceitas pela listagem de produtos
+ */
+export type ProductSort = 'relevance' | 'price-asc' | 'price-desc' | 'newest' | 'name-asc';
+
+/**
+ * Filtros, ordenação e paginação da listagem de produtos
+ */
+export interface ProductListQuery {
+  categorySlug?: string;
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  sort?: ProductSort;
+  pageNumber: number;
+  pageSize: number;
+}
+
+/**
+ * Avaliação de produto (tabela product_reviews)
+ */
+export interface ProductReview {
+  id: string;
+  productId: string;
+  userId: string;
+  /** Nome exibido do autor, quando incluído pelo backend */
+  userName?: string;
+  orderId: string | null;
+  rating: number;
+  comment: string | null;
+  isVerifiedPurchase: boolean;
+  createdAt: string;
+}
+
+/**
+ * Resumo das avaliações de um produto
+ */
+export interface ProductReviewSummary {
+  averageRating: number;
+  totalReviews: number;
+  /** Quantidade de avaliações por nota (1 a 5) */
+  distribution: Record<number, number>;
+}
+
+/**
+ * Indica se o usuário autenticado pode avaliar o produto
+ */
+export interface ReviewEligibility {
+  canReview: boolean;
+  /** Pedido que comprova a compra, enviado junto com a avaliação */
+  orderId?: string | null;
+  alreadyReviewed?: boolean;
+}
+
+/**
+ * Dados para criar uma avaliação
+ */
+export interface CreateReviewRequest {
+  rating: number;
+  comment: string | null;
+  orderId?: string | null;
+}
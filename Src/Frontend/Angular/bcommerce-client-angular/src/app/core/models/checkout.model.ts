@@ -0,0 +1,22 @@
+import { Address } from './address.model';
+import { SavedCard } from './card.model';
+import { PaymentMethod, ShippingOption } from './order.model';
+
+/**
+ * Etapas do checkout, na ordem em que são percorridas
+ */
+export type CheckoutStep = 'address' | 'shipping' | 'payment' | 'review';
+
+/**
+ * Escolhas feitas no checkout (guardadas no sessionStorage para sobreviver ao refresh)
+ * Endereço, frete e cartão são guardados inteiros para a revisão não depender de novas consultas
+ */
+export interface CheckoutState {
+  address: Address | null;
+  shippingOption: ShippingOption | null;
+  paymentMethod: PaymentMethod | null;
+  card: SavedCard | null;
+  /** Número de parcelas no cartão (1 nas formas à vista) */
+  installments: number;
+  notes: string;
+}
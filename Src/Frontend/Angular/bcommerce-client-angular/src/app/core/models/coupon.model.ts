@@ -0,0 +1,73 @@
+/**
+ * Tipo de desconto (enum discount_type)
+ */
+export type DiscountType = 'PERCENTAGE' | 'FIXED_AMOUNT';
+
+/**
+ * Tipo de cupom (enum coupon_type): geral ou exclusivo de um usuário
+ */
+export type CouponType = 'GLOBAL' | 'INDIVIDUAL';
+
+/**
+ * Cupom de desconto (tabela coupons)
+ */
+export interface Coupon {
+  id: string;
+  code: string;
+  discountType: DiscountType;
+  /** Percentual (0-100) ou valor em reais, conforme discountType */
+  discountValue: number;
+  couponType: CouponType;
+  minPurchaseAmount: number | null;
+  maxUses: number | null;
+  currentUses: number;
+  usesPerUser: number;
+  /** Usos do usuário autenticado (tabela user_coupons); 0 para visitantes */
+  timesUsedByUser: number;
+  validFrom: string;
+  validUntil: string;
+  isActive: boolean;
+}
+
+/**
+ * Motivos pelos quais um cupom não pode ser aplicado
+ */
+export type CouponIneligibility =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'below_minimum'
+  | 'already_used'
+  | 'exhausted';
+
+/**
+ * Resultado da conferência de um cupom contra o carrinho
+ */
+export interface CouponEligibility {
+  eligible: boolean;
+  reason: CouponIneligibility | null;
+  /** Valores citados na mensagem do motivo (vigência e compra mínima) */
+  details?: CouponIneligibilityDetails;
+  /** Mensagem do servidor quando a conferência falhou sem um motivo conhecido */
+  message: string | null;
+}
+
+export interface CouponIneligibilityDetails {
+  /** Início ou fim da vigência (ISO 8601) */
+  date?: string;
+  minimum?: number;
+  missing?: number;
+}
+
+/**
+ * Valores do pedido calculados no client (carrinho e checkout usam o mesmo cálculo)
+ */
+export interface OrderPricing {
+  subtotal: number;
+  discount: number;
+  /** Desconto da forma de pagamento (PIX à vista) */
+  paymentDiscount: number;
+  shipping: number;
+  total: number;
+}
@@ -0,0 +1,12 @@
+import { Product } from './catalog.model';
+
+/**
+ * Produto favoritado pelo usuário (tabela favorite_products, única por usuário e produto)
+ */
+export interface FavoriteProduct {
+  id: string;
+  productId: string;
+  /** Dados atuais do produto (preço, estoque e imagens) */
+  product: Product;
+  createdAt: string;
+}
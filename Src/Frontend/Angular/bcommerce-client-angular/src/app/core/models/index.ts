@@ -1,5 +1,20 @@
 /**
  * Barrel export para todos os models
  */
+export * from './address.model';
+export * from './api-error.model';
 export * from './api-response.model';
-export * from './user.model';
\ No newline at end of file
+export * from './card.model';
+export * from './cart.model';
+export * from './catalog.model';
+export * from './checkout.model';
+export * from './coupon.model';
+export * from './favorite.model';
+export * from './jwt-claims.model';
+export * from './money.model';
+export * from './notification.model';
+export * from './order.model';
+export * from './paged-result.model';
+export * from './payment.model';
+export * from './security.model';
+export * from './user.model';
@@ -0,0 +1,21 @@
+/**
+ * Claims do access token já normalizados para o client
+ *
+ * O JwtSecurityTokenHandler do backend encurta os ClaimTypes do .NET
+ * ("http://schemas.microsoft.com/ws/2008/06/identity/claims/role" → "role"),
+ * e claims repetidos chegam como array; o decoder trata as duas formas.
+ */
+export interface JwtClaims {
+  sub: string;
+  email?: string;
+  name?: string;
+  fullName?: string;
+  roles: string[];
+  permissions: string[];
+  emailConfirmed: boolean | null;
+  /** Expiração em segundos (Unix epoch), como no JWT */
+  exp?: number;
+  iat?: number;
+  /** Payload original, para claims não mapeados */
+  raw: Record<string, unknown>;
+}
@@ -0,0 +1,11 @@
+/**
+ * Uma das opções de parcelamento de um valor
+ */
+export interface InstallmentOption {
+  count: number;
+  /** Valor de cada parcela; centavos que sobram da divisão vão para a primeira */
+  amount: number;
+  /** Total pago ao fim das parcelas (igual ao valor à vista quando não há juros) */
+  total: number;
+  interestFree: boolean;
+}
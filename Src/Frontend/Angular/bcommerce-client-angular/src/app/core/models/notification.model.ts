@@ -0,0 +1,33 @@
+/**
+ * Canal pelo qual a notificação foi enviada (enum notification_type)
+ */
+export type NotificationChannel = 'EMAIL' | 'SMS';
+
+/**
+ * Situação do envio (enum notification_status)
+ */
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+/**
+ * Notificação do usuário (tabela notifications), também exibida no app
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationChannel;
+  subject: string | null;
+  body: string;
+  status: NotificationStatus;
+  sentAt: string | null;
+  /** Quando o usuário a viu no app; null enquanto não lida */
+  readAt: string | null;
+  /** Rota do app relacionada (ex.: /orders/BC-1001), quando houver */
+  link?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Total de notificações não lidas
+ */
+export interface UnreadNotificationsCount {
+  count: number;
+}
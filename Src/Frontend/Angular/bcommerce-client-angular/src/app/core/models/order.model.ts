@@ -0,0 +1,144 @@
+import { Address } from './address.model';
+import { ProductSnapshot } from './cart.model';
+
+/**
+ * Status do pedido (enum order_status)
+ */
+export type OrderStatus =
+  | 'PENDING_PAYMENT'
+  | 'PAYMENT_CONFIRMED'
+  | 'PROCESSING'
+  | 'SHIPPED'
+  | 'DELIVERED'
+  | 'CANCELLED'
+  | 'REFUNDED';
+
+/**
+ * Formas de pagamento aceitas (coluna payment_method)
+ */
+export type PaymentMethod = 'credit_card' | 'pix' | 'boleto';
+
+/**
+ * Opção de frete cotada para o endereço e os itens do carrinho
+ */
+export interface ShippingOption {
+  id: string;
+  name: string;
+  carrier: string;
+  price: number;
+  /** Prazo estimado em dias úteis */
+  estimatedDays: number;
+}
+
+/**
+ * Dados do endereço gravados no pedido (coluna address_snapshot)
+ */
+export type AddressSnapshot = Omit<Address, 'id' | 'isDefault' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Dados do cartão gravados no pedido (coluna card_snapshot)
+ */
+export interface CardSnapshot {
+  cardholderName: string;
+  cardNumberLastFour: string;
+  cardBrand: string;
+}
+
+/**
+ * Item do pedido (tabela order_items)
+ */
+export interface OrderItem {
+  id: string;
+  productId: string;
+  productSnapshot: ProductSnapshot;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+}
+
+/**
+ * Pedido (tabela orders)
+ */
+export interface Order {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  items: OrderItem[];
+  addressSnapshot: AddressSnapshot;
+  cardSnapshot: CardSnapshot | null;
+  subtotal: number;
+  discountAmount: number;
+  shippingCost: number;
+  totalAmount: number;
+  paymentMethod: PaymentMethod;
+  /** Identificador da cobrança no gateway (PIX/boleto), quando já emitida */
+  paymentGatewayId: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Mudança de status do pedido (tabela order_status_history)
+ */
+export interface OrderStatusHistoryEntry {
+  id: string;
+  status: OrderStatus;
+  notes: string | null;
+  createdAt: string;
+}
+
+/**
+ * Rastreamento da entrega (tabela order_tracking)
+ */
+export interface OrderTracking {
+  carrier: string | null;
+  trackingCode: string | null;
+  trackingUrl: string | null;
+  /** Data (yyyy-MM-dd) estimada de entrega */
+  estimatedDelivery: string | null;
+  deliveredAt: string | null;
+}
+
+/**
+ * Pedido com histórico de status e rastreamento (página de detalhe)
+ */
+export interface OrderDetail extends Order {
+  statusHistory: OrderStatusHistoryEntry[];
+  tracking: OrderTracking | null;
+}
+
+/**
+ * Filtros e paginação do histórico de pedidos
+ */
+export interface OrderListQuery {
+  status?: OrderStatus;
+  /** Data inicial (yyyy-MM-dd), inclusiva */
+  from?: string;
+  /** Data final (yyyy-MM-dd), inclusiva */
+  to?: string;
+  pageNumber: number;
+  pageSize: number;
+}
+
+/**
+ * Cotação de frete para um endereço
+ */
+export interface ShippingQuoteRequest {
+  zipCode: string;
+  items: { productId: string; quantity: number }[];
+}
+
+/**
+ * Dados para criar o pedido a partir do carrinho do servidor
+ * Itens, preços e frete são recalculados pelo backend
+ */
+export interface CreateOrderRequest {
+  addressId: string;
+  shippingOptionId: string;
+  paymentMethod: PaymentMethod;
+  cardId?: string;
+  installments?: number;
+  couponCode?: string;
+  notes?: string;
+}
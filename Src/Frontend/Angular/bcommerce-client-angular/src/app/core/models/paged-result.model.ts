@@ -0,0 +1,12 @@
+/**
+ * Página de resultados no formato do PagedResult do BuildingBlocks
+ */
+export interface PagedResult<T> {
+  items: T[];
+  pageNumber: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+}
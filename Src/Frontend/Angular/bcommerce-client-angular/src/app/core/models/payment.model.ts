@@ -0,0 +1,36 @@
+/**
+ * Cobrança PIX emitida para o pedido
+ */
+export interface PixCharge {
+  method: 'pix';
+  gatewayId: string;
+  amount: number;
+  /** Imagem do QR code (URL ou data URL) */
+  qrCodeImage: string;
+  /** Código "copia e cola" (BR Code) */
+  copyPasteCode: string;
+  expiresAt: string;
+}
+
+/**
+ * Boleto emitido para o pedido
+ */
+export interface BoletoCharge {
+  method: 'boleto';
+  gatewayId: string;
+  amount: number;
+  /** Linha digitável, já formatada com pontos e espaços */
+  digitableLine: string;
+  pdfUrl: string;
+  /** Vencimento (yyyy-MM-dd) */
+  dueDate: string;
+}
+
+export type PaymentCharge = PixCharge | BoletoCharge;
+
+/**
+ * Situação da cobrança acompanhada na confirmação do pedido
+ * - expired: PIX fora do prazo ou boleto vencido; uma nova cobrança pode ser emitida
+ * - failed: pedido cancelado antes do pagamento
+ */
+export type PaymentStatus = 'pending' | 'confirmed' | 'expired' | 'failed';
@@ -0,0 +1,47 @@
+/**
+ * Sessão ativa do usuário (refresh token não revogado e não expirado)
+ */
+export interface UserSession {
+  id: string;
+  /** User-Agent do dispositivo que iniciou a sessão */
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  /** Última renovação do access token com esta sessão */
+  lastUsedAt: string | null;
+  expiresAt: string;
+  /** Sessão deste navegador */
+  isCurrent: boolean;
+}
+
+/**
+ * Tipos de evento gravados em security_logs
+ */
+export type SecurityEventType =
+  | 'LOGIN_SUCCESS'
+  | 'LOGIN_FAILED'
+  | 'LOGOUT'
+  | 'PASSWORD_CHANGED'
+  | 'PASSWORD_RESET_REQUESTED'
+  | 'PASSWORD_RESET'
+  | 'EMAIL_CONFIRMED'
+  | 'ACCOUNT_LOCKED'
+  | 'SESSION_REVOKED';
+
+/**
+ * Evento de segurança (tabela security_logs)
+ * O backend pode registrar tipos novos; o client exibe o código quando não conhece o tipo
+ */
+export interface SecurityLogEntry {
+  id: string;
+  eventType: SecurityEventType | string;
+  ipAddress: string | null;
+  message: string | null;
+  createdAt: string;
+}
+
+export interface SecurityLogQuery {
+  eventType?: SecurityEventType;
+  pageNumber: number;
+  pageSize: number;
+}
@@ -10,6 +10,7 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   lastLoginAt?: string;
+  emailConfirmed?: boolean;
 }
 
 /**
@@ -39,12 +40,121 @@ export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
+  /** Instante (epoch ms) em que o access token expira, calculado no cliente */
+  expiresAt?: number;
 }
 
 /**
- * Interface para resposta de autenticação
+ * Resposta do endpoint de login (LoginUserResponse no backend)
  */
-export interface AuthResponse {
-  user: User;
-  tokens: AuthTokens;
-}
\ No newline at end of file
+export interface LoginResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  tokenType: string;
+  userId: string;
+  email: string;
+  fullName: string;
+}
+
+/**
+ * Resposta do endpoint de registro (RegisterUserResponse no backend)
+ */
+export interface RegisterUserResponse {
+  userId: string;
+  email: string;
+  message: string;
+}
+
+/**
+ * Resposta do endpoint de renovação de token (RefreshTokenResponse no backend)
+ */
+export interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+  expiresIn: number;
+  tokenType: string;
+  userId: string;
+  email: string;
+}
+
+/**
+ * Resposta da confirmação de email (ActivateAccountResponse no backend)
+ */
+export interface ActivateAccountResponse {
+  userId: string;
+  email: string;
+  fullName: string;
+  activatedAt: string;
+  isActivated: boolean;
+}
+
+/**
+ * Resposta do reenvio do token de ativação
+ */
+export interface ResendActivationTokenResponse {
+  email: string;
+  message: string;
+  sentAt: string;
+}
+
+/**
+ * Resposta da solicitação de redefinição de senha
+ */
+export interface ForgotPasswordResult {
+  success: boolean;
+  message: string;
+  tokenGenerated: boolean;
+}
+
+/**
+ * Interface para dados de redefinição de senha
+ */
+export interface ResetPasswordRequest {
+  email: string;
+  token: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+/**
+ * Resposta genérica de operações sem payload (senha, atualização de perfil)
+ */
+export interface OperationResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Perfil do usuário autenticado (GetUserProfileResponse no backend)
+ */
+export interface UserProfileResponse {
+  userId: string;
+  email: string;
+  fullName: string;
+  phone: string | null;
+  birthDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string | null;
+  emailConfirmed: boolean;
+}
+
+/**
+ * Interface para atualização do perfil
+ */
+export interface UpdateProfileRequest {
+  fullName: string;
+  phone: string;
+  birthDate: string | null;
+}
+
+/**
+ * Interface para alteração de senha do usuário autenticado
+ */
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
@@ -0,0 +1,42 @@
+import { Injectable, inject } from '@angular/core';
+import { ApiClient } from './api-client.service';
+import { Address, AddressRequest, ApiResponse } from '../models';
+
+/**
+ * Endereços de entrega do usuário autenticado
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AddressService {
+  private readonly api = inject(ApiClient);
+
+  /**
+   * Endereços ativos, com o padrão primeiro
+   */
+  getAddresses(): Promise<ApiResponse<Address[]>> {
+    return this.api.get<Address[]>('users', '/me/addresses');
+  }
+
+  createAddress(data: AddressRequest): Promise<ApiResponse<Address>> {
+    return this.api.post<Address>('users', '/me/addresses', data);
+  }
+
+  updateAddress(id: string, data: AddressRequest): Promise<ApiResponse<Address>> {
+    return this.api.put<Address>('users', `/me/addresses/${id}`, data);
+  }
+
+  /**
+   * Exclusão lógica (deleted_at); pedidos antigos mantêm o snapshot do endereço
+   */
+  deleteAddress(id: string): Promise<ApiResponse<void>> {
+    return this.api.delete<void>('users', `/me/addresses/${id}`);
+  }
+
+  /**
+   * Torna o endereço o padrão do usuário (os demais deixam de ser)
+   */
+  setDefaultAddress(id: string): Promise<ApiResponse<Address>> {
+    return this.api.put<Address>('users', `/me/addresses/${id}/default`, {});
+  }
+}
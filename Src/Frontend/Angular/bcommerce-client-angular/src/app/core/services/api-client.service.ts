@@ -0,0 +1,121 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext, HttpHeaders, HttpParams, HttpResponse } from '@angular/common/http';
+import { Observable, catchError, firstValueFrom, map, of } from 'rxjs';
+import { ApiResponse } from '../models';
+import { APP_CONFIG, ApiServiceName, serviceUrl } from '../config/app-config';
+import { ApiErrorMessages, parseErrorBody, toApiError } from '../utils/api-error.utils';
+import { I18nService } from './i18n.service';
+
+/**
+ * Opções aceitas pelos helpers do ApiClient
+ */
+export interface ApiRequestOptions {
+  params?: HttpParams | Record<string, string | number | boolean | readonly (string | number | boolean)[]>;
+  headers?: HttpHeaders | Record<string, string | string[]>;
+  context?: HttpContext;
+}
+
+/**
+ * Cliente HTTP tipado para os serviços do backend
+ * Toda resposta é devolvida como ApiResponse<T>; falhas nunca lançam exceção
+ * e trazem o erro normalizado em `error`
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiClient {
+  private readonly http = inject(HttpClient);
+  private readonly config = inject(APP_CONFIG);
+  private readonly i18n = inject(I18nService);
+
+  get<T>(service: ApiServiceName, path: string, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.send<T>(this.http.get(this.url(service, path), { ...options, observe: 'response' }));
+  }
+
+  post<T>(service: ApiServiceName, path: string, body: unknown, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.send<T>(this.http.post(this.url(service, path), body, { ...options, observe: 'response' }));
+  }
+
+  put<T>(service: ApiServiceName, path: string, body: unknown, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.send<T>(this.http.put(this.url(service, path), body, { ...options, observe: 'response' }));
+  }
+
+  delete<T>(service: ApiServiceName, path: string, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.send<T>(this.http.delete(this.url(service, path), { ...options, observe: 'response' }));
+  }
+
+  /**
+   * Versão cancelável do get: cancelar a inscrição aborta a requisição HTTP
+   * Útil com switchMap, onde uma nova busca descarta a anterior
+   */
+  get$<T>(service: ApiServiceName, path: string, options?: ApiRequestOptions): Observable<ApiResponse<T>> {
+    return this.toResponse$<T>(this.http.get(this.url(service, path), { ...options, observe: 'response' }));
+  }
+
+  /**
+   * URL absoluta de um endpoint do serviço
+   */
+  url(service: ApiServiceName, path = ''): string {
+    return `${serviceUrl(this.config, service)}${path}`;
+  }
+
+  private send<T>(request$: Observable<HttpResponse<unknown>>): Promise<ApiResponse<T>> {
+    return firstValueFrom(this.toResponse$<T>(request$));
+  }
+
+  private toResponse$<T>(request$: Observable<HttpResponse<unknown>>): Observable<ApiResponse<T>> {
+    return request$.pipe(
+      map((response) => this.toApiResponse<T>(response)),
+      catchError((error: unknown) => {
+        const apiError = toApiError(error, this.errorMessages());
+        return of<ApiResponse<T>>({
+          success: false,
+          message: apiError.message,
+          code: apiError.code,
+          errors: apiError.messages.map((message) => ({ message })),
+          error: apiError
+        });
+      })
+    );
+  }
+
+  /**
+   * Respostas 2xx podem vir no envelope ApiResponse ou como payload direto
+   */
+  private toApiResponse<T>(response: HttpResponse<unknown>): ApiResponse<T> {
+    const body = response.body;
+
+    if (!this.isEnvelope(body)) {
+      return { success: true, data: (body ?? undefined) as T | undefined };
+    }
+
+    const envelope = body as ApiResponse<T>;
+    if (envelope.success) {
+      return envelope;
+    }
+
+    const apiError = parseErrorBody(
+      response.status,
+      body,
+      response.headers.get('X-Correlation-Id') ?? undefined,
+      this.errorMessages()
+    );
+    return { ...envelope, message: envelope.message ?? apiError.message, error: apiError };
+  }
+
+  /**
+   * Mensagens genéricas no idioma atual, para quando o backend não envia nenhuma
+   */
+  private errorMessages(): ApiErrorMessages {
+    return {
+      default: this.i18n.t('error.default'),
+      network: this.i18n.t('error.network'),
+      timeout: this.i18n.t('error.timeout'),
+      unexpected: this.i18n.t('error.unexpected')
+    };
+  }
+
+  private isEnvelope(body: unknown): boolean {
+    return typeof body === 'object' && body !== null && typeof (body as { success?: unknown }).success === 'boolean';
+  }
+}
@@ -1,15 +1,31 @@
 import { Injectable, inject, signal, computed, effect } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { HttpContext } from '@angular/common/http';
 import { Router } from '@angular/router';
-import { firstValueFrom } from 'rxjs';
 import { 
   User, 
   LoginRequest, 
+  LoginResponse,
   RegisterUserRequest, 
+  RegisterUserResponse,
+  RefreshTokenResponse,
+  ActivateAccountResponse,
+  ResendActivationTokenResponse,
+  ForgotPasswordResult,
+  ResetPasswordRequest,
+  OperationResponse,
+  UserProfileResponse,
+  UpdateProfileRequest,
+  ChangePasswordRequest,
   AuthTokens, 
-  AuthResponse, 
-  ApiResponse 
+  ApiResponse,
+  JwtClaims
 } from '../models';
+import { BYPASS_AUTH_REFRESH } from '../interceptors/auth-context';
+import { APP_CONFIG } from '../config/app-config';
+import { ApiClient } from './api-client.service';
+import { I18nService } from './i18n.service';
+import { TOKEN_STORAGES, TokenStorage, TokenStorageStrategy } from './token-storage';
+import { decodeJwt, readClaimValues } from '../utils/jwt.utils';
 
 /**
  * Serviço de autenticação usando Signals e sintaxe moderna do Angular 20
@@ -18,13 +34,21 @@ import {
   providedIn: 'root'
 })
 export class AuthService {
-  private readonly http = inject(HttpClient);
+  private readonly api = inject(ApiClient);
   private readonly router = inject(Router);
+  private readonly config = inject(APP_CONFIG);
+  private readonly i18n = inject(I18nService);
+  private readonly storages = inject(TOKEN_STORAGES);
   
-  private readonly API_BASE_URL = 'http://localhost:5050/api/auth';
   private readonly TOKEN_KEY = 'auth_tokens';
   private readonly USER_KEY = 'current_user';
 
+  // Renovação em andamento, compartilhada entre requisições concorrentes
+  private refreshInFlight: Promise<boolean> | null = null;
+
+  // Onde a sessão atual é persistida (definido no login ou ao restaurar a sessão)
+  private storage: TokenStorage = this.storages.local;
+
   // Signals para gerenciamento de estado
   private readonly _currentUser = signal<User | null>(null);
   private readonly _tokens = signal<AuthTokens | null>(null);
@@ -34,43 +58,57 @@ export class AuthService {
   readonly currentUser = this._currentUser.asReadonly();
   readonly tokens = this._tokens.asReadonly();
   readonly isLoading = this._isLoading.asReadonly();
+  // Com refresh token a sessão continua válida mesmo com o access token vencido:
+  // o interceptor o renova na próxima requisição
   readonly isAuthenticated = computed(() => {
     const tokens = this._tokens();
-    return tokens !== null && this.isTokenValid(tokens.accessToken);
+    return tokens !== null && (!!tokens.refreshToken || this.isTokenValid(tokens.accessToken));
   });
 
+  // Claims do access token atual (null quando não autenticado)
+  readonly claims = computed<JwtClaims | null>(() => decodeJwt(this._tokens()?.accessToken));
+  readonly roles = computed(() => this.claims()?.roles ?? []);
+  readonly permissions = computed(() => this.claims()?.permissions ?? []);
+  readonly emailConfirmed = computed<boolean | null>(
+    () => this.claims()?.emailConfirmed ?? this._currentUser()?.emailConfirmed ?? null
+  );
+
   constructor() {
-    // Effect para sincronizar com localStorage
+    // Effect para persistir a sessão no armazenamento escolhido
     effect(() => {
       const tokens = this._tokens();
       const user = this._currentUser();
       
       if (tokens && user) {
-        localStorage.setItem(this.TOKEN_KEY, JSON.stringify(tokens));
-        localStorage.setItem(this.USER_KEY, JSON.stringify(user));
+        this.storage.setItem(this.TOKEN_KEY, JSON.stringify(tokens));
+        this.storage.setItem(this.USER_KEY, JSON.stringify(user));
       } else {
-        localStorage.removeItem(this.TOKEN_KEY);
-        localStorage.removeItem(this.USER_KEY);
+        this.storage.removeItem(this.TOKEN_KEY);
+        this.storage.removeItem(this.USER_KEY);
       }
     });
 
-    // Carregar dados do localStorage na inicialização
+    // Restaurar a sessão persistida na inicialização
     this.loadFromStorage();
+
+    // Login, logout e renovações feitos em outras abas chegam como eventos de storage
+    window.addEventListener('storage', (event) => this.syncFromOtherTab(event));
   }
 
   /**
    * Realiza login do usuário
+   * @param strategy onde manter a sessão; "local" corresponde ao "Lembrar de mim"
    */
-  async login(credentials: LoginRequest): Promise<ApiResponse<any>> {
+  async login(
+    credentials: LoginRequest,
+    strategy: TokenStorageStrategy = 'local'
+  ): Promise<ApiResponse<LoginResponse>> {
     this._isLoading.set(true);
     
     try {
-      const response = await firstValueFrom(
-        this.http.post<ApiResponse<any>>(
-          `${this.API_BASE_URL}/login`,
-          credentials
-        )
-      );
+      const response = await this.api.post<LoginResponse>('auth', '/login', credentials, {
+        context: this.bypassRefresh()
+      });
 
       if (response?.success && response.data) {
         // O backend retorna os dados diretamente em response.data
@@ -90,16 +128,19 @@ export class AuthService {
         const tokens: AuthTokens = {
           accessToken: loginData.accessToken,
           refreshToken: loginData.refreshToken,
-          expiresIn: loginData.expiresIn
+          expiresIn: loginData.expiresIn,
+          expiresAt: this.computeExpiresAt(loginData.expiresIn)
         };
 
+        this.useStorage(strategy);
         this._currentUser.set(user);
         this._tokens.set(tokens);
+
+        // O login não traz telefone, datas etc.; o perfil completo é carregado em seguida
+        void this.loadProfile();
       }
 
       return response;
-    } catch (error) {
-      return this.handleError(error);
     } finally {
       this._isLoading.set(false);
     }
@@ -107,31 +148,114 @@ export class AuthService {
 
   /**
    * Realiza registro de novo usuário
+   * O backend não autentica no registro: a conta precisa ser confirmada por email
    */
-  async register(userData: RegisterUserRequest): Promise<ApiResponse<AuthResponse>> {
+  async register(userData: RegisterUserRequest): Promise<ApiResponse<RegisterUserResponse>> {
     this._isLoading.set(true);
     
     try {
-      const response = await firstValueFrom(
-        this.http.post<ApiResponse<AuthResponse>>(
-          `${this.API_BASE_URL}/register`,
-          userData
-        )
-      );
-
-      if (response?.success && response.data) {
-        this._currentUser.set(response.data.user);
-        this._tokens.set(response.data.tokens);
-      }
-
-      return response;
-    } catch (error) {
-      return this.handleError(error);
+      return await this.api.post<RegisterUserResponse>('auth', '/register', userData, {
+        context: this.bypassRefresh()
+      });
     } finally {
       this._isLoading.set(false);
     }
   }
 
+  /**
+   * Carrega o perfil completo do usuário autenticado e atualiza o currentUser
+   */
+  async loadProfile(): Promise<ApiResponse<UserProfileResponse>> {
+    if (!this._tokens()) {
+      return { success: false, message: this.i18n.t('auth.notAuthenticated') };
+    }
+
+    const response = await this.api.get<UserProfileResponse>('auth', '/profile');
+
+    // Ignora a resposta se a sessão foi encerrada durante a requisição
+    if (response.success && response.data && this._tokens()) {
+      this._currentUser.set(this.mapProfileToUser(response.data));
+    }
+
+    return response;
+  }
+
+  /**
+   * Atualiza o perfil com atualização otimista do currentUser
+   * Em caso de falha o valor anterior é restaurado
+   */
+  async updateProfile(data: UpdateProfileRequest): Promise<ApiResponse<OperationResponse>> {
+    const previous = this._currentUser();
+
+    if (previous) {
+      this._currentUser.set({
+        ...previous,
+        fullName: data.fullName,
+        phone: data.phone || undefined,
+        birthDate: data.birthDate ?? undefined
+      });
+    }
+
+    const response = await this.api.put<OperationResponse>('auth', '/profile', data);
+
+    if (!response.success && this._currentUser()) {
+      this._currentUser.set(previous);
+    }
+
+    return response;
+  }
+
+  /**
+   * Altera a senha do usuário autenticado
+   * O backend revoga todos os refresh tokens após a alteração
+   */
+  changePassword(data: ChangePasswordRequest): Promise<ApiResponse<OperationResponse>> {
+    return this.api.post<OperationResponse>('auth', '/change-password', data);
+  }
+
+  /**
+   * Confirma o email do usuário com o token enviado no link de ativação
+   */
+  confirmEmail(userId: string, token: string): Promise<ApiResponse<ActivateAccountResponse>> {
+    return this.api.get<ActivateAccountResponse>('auth', '/confirm-email', {
+      params: { userId, token },
+      context: this.bypassRefresh()
+    });
+  }
+
+  /**
+   * Reenvia o email de ativação da conta
+   */
+  resendActivationToken(email: string): Promise<ApiResponse<ResendActivationTokenResponse>> {
+    return this.api.post<ResendActivationTokenResponse>(
+      'auth',
+      '/resend-activation-token',
+      { email },
+      { context: this.bypassRefresh() }
+    );
+  }
+
+  /**
+   * Solicita o email com o link de redefinição de senha
+   */
+  forgotPassword(email: string): Promise<ApiResponse<ForgotPasswordResult>> {
+    return this.api.post<ForgotPasswordResult>(
+      'auth',
+      '/forgot-password',
+      { email },
+      { context: this.bypassRefresh() }
+    );
+  }
+
+  /**
+   * Redefine a senha usando o token recebido por email
+   */
+  resetPassword(data: ResetPasswordRequest): Promise<ApiResponse<OperationResponse>> {
+    return this.api.post<OperationResponse>('auth', '/reset-password', data, {
+      context: this.bypassRefresh()
+    });
+  }
+
   /**
    * Realiza logout do usuário
    */
@@ -142,14 +266,17 @@ export class AuthService {
       const tokens = this._tokens();
       if (tokens) {
         // Opcional: chamar endpoint de logout no backend
-        await firstValueFrom(
-          this.http.post(`${this.API_BASE_URL}/logout`, {
-            refreshToken: tokens.refreshToken
-          })
+        const response = await this.api.post(
+          'auth',
+          '/logout',
+          { refreshToken: tokens.refreshToken },
+          { context: this.bypassRefresh() }
         );
+
+        if (!response.success) {
+          console.warn('Erro ao fazer logout no servidor:', response.error);
+        }
       }
-    } catch (error) {
-      console.warn('Erro ao fazer logout no servidor:', error);
     } finally {
       this.clearAuthData();
       this._isLoading.set(false);
@@ -158,142 +285,250 @@ export class AuthService {
   }
 
   /**
-   * Atualiza o access token usando o refresh token
+   * Atualiza o access token usando o refresh token.
+   * Chamadas concorrentes compartilham a mesma renovação; se ela falhar,
+   * a sessão é encerrada uma única vez e o usuário é enviado ao login.
+   */
+  refreshToken(): Promise<boolean> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.requestTokenRefresh()
+        .then((refreshed) => {
+          if (!refreshed) {
+            this.expireSession();
+          }
+          return refreshed;
+        })
+        .finally(() => {
+          this.refreshInFlight = null;
+        });
+    }
+
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Indica se o access token expira dentro da janela de renovação antecipada
    */
-  async refreshToken(): Promise<boolean> {
+  isTokenExpiringSoon(): boolean {
+    const tokens = this._tokens();
+    if (!tokens) return false;
+
+    const expiresAt = tokens.expiresAt ?? this.getTokenExpiration(tokens.accessToken);
+    if (!expiresAt) return false;
+
+    return expiresAt - Date.now() <= this.config.timeouts.tokenRefreshLeadMs;
+  }
+
+  /**
+   * Encerra a sessão local e redireciona para o login preservando a URL atual
+   */
+  expireSession(): void {
+    const returnUrl = this.router.routerState.snapshot.url;
+
+    this.clearAuthData();
+    this.router.navigate(['/login'], {
+      queryParams: returnUrl && returnUrl !== '/login' ? { returnUrl } : {}
+    });
+  }
+
+  /**
+   * Obtém o access token atual
+   */
+  getAccessToken(): string | null {
+    return this._tokens()?.accessToken || null;
+  }
+
+  /**
+   * Verifica se o usuário possui ao menos um dos papéis informados
+   * A comparação ignora maiúsculas ("Admin" e "admin" são equivalentes)
+   */
+  hasRole(...roles: string[]): boolean {
+    const userRoles = this.roles().map((role) => role.toLowerCase());
+    return roles.some((role) => userRoles.includes(role.toLowerCase()));
+  }
+
+  /**
+   * Verifica se o token possui o claim informado
+   * Sem `value`, basta o claim existir; "permission" também consulta as permissões normalizadas
+   */
+  hasClaim(type: string, value?: string): boolean {
+    const claims = this.claims();
+    const values = type === 'permission' ? this.permissions() : readClaimValues(claims, type);
+
+    if (value === undefined) {
+      return values.length > 0 || (claims !== null && type in claims.raw);
+    }
+    return values.includes(value);
+  }
+
+  /**
+   * Chama o endpoint de renovação de token do backend
+   */
+  private async requestTokenRefresh(): Promise<boolean> {
     const tokens = this._tokens();
     if (!tokens?.refreshToken) {
-      this.clearAuthData();
       return false;
     }
 
-    this._isLoading.set(true);
-    
-    try {
-      const response = await firstValueFrom(
-        this.http.post<ApiResponse<AuthTokens>>(
-          `${this.API_BASE_URL}/refresh`,
-          { refreshToken: tokens.refreshToken }
-        )
-      );
+    const response = await this.api.post<RefreshTokenResponse>(
+      'auth',
+      '/refresh-token',
+      {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken
+      },
+      { context: this.bypassRefresh() }
+    );
 
-      if (response?.success && response.data) {
-        this._tokens.set(response.data);
-        return true;
-      } else {
-        this.clearAuthData();
-        return false;
-      }
-    } catch (error) {
-      console.error('Erro ao renovar token:', error);
-      this.clearAuthData();
-      return false;
-    } finally {
-      this._isLoading.set(false);
+    if (response.success && response.data) {
+      this._tokens.set({
+        accessToken: response.data.accessToken,
+        refreshToken: response.data.refreshToken,
+        expiresIn: response.data.expiresIn,
+        expiresAt: this.computeExpiresAt(response.data.expiresIn)
+      });
+      return true;
+    }
+
+    // Outra aba pode ter renovado primeiro, invalidando o refresh token enviado
+    const stored = this.readStoredSession();
+    if (stored && stored.tokens.refreshToken !== tokens.refreshToken) {
+      this._tokens.set(stored.tokens);
+      return true;
     }
+
+    console.error('Erro ao renovar token:', response.error);
+    return false;
   }
 
   /**
-   * Obtém o access token atual
+   * Converte a resposta do GET profile no modelo User usado pelo cliente
    */
-  getAccessToken(): string | null {
-    return this._tokens()?.accessToken || null;
+  private mapProfileToUser(profile: UserProfileResponse): User {
+    return {
+      id: profile.userId,
+      fullName: profile.fullName,
+      email: profile.email,
+      phone: profile.phone ?? undefined,
+      birthDate: profile.birthDate ?? undefined,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+      lastLoginAt: profile.lastLoginAt ?? undefined,
+      emailConfirmed: profile.emailConfirmed
+    };
+  }
+
+  /**
+   * Marca a requisição para não passar pela renovação automática de token
+   */
+  private bypassRefresh(): HttpContext {
+    return new HttpContext().set(BYPASS_AUTH_REFRESH, true);
+  }
+
+  /**
+   * Converte o expiresIn (segundos) retornado pelo backend em timestamp absoluto
+   */
+  private computeExpiresAt(expiresIn: number): number | undefined {
+    return expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined;
+  }
+
+  /**
+   * Obtém a expiração (ms) a partir do claim exp do JWT
+   */
+  private getTokenExpiration(token: string): number | null {
+    const exp = decodeJwt(token)?.exp;
+    return exp !== undefined ? exp * 1000 : null;
   }
 
   /**
    * Verifica se o token ainda é válido
    */
   private isTokenValid(token: string): boolean {
-    if (!token) return false;
-    
-    try {
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const currentTime = Math.floor(Date.now() / 1000);
-      return payload.exp > currentTime;
-    } catch {
-      return false;
-    }
+    const expiresAt = this.getTokenExpiration(token);
+    return expiresAt !== null && expiresAt > Date.now();
   }
 
   /**
-   * Carrega dados do localStorage
+   * Restaura a sessão persistida
+   * A sessão da aba (sessionStorage) tem prioridade sobre a lembrada (localStorage)
    */
   private loadFromStorage(): void {
-    try {
-      const storedTokens = localStorage.getItem(this.TOKEN_KEY);
-      const storedUser = localStorage.getItem(this.USER_KEY);
-
-      if (storedTokens && storedUser) {
-        const tokens: AuthTokens = JSON.parse(storedTokens);
-        const user: User = JSON.parse(storedUser);
-
-        if (this.isTokenValid(tokens.accessToken)) {
-          this._tokens.set(tokens);
-          this._currentUser.set(user);
-        } else {
-          this.clearAuthData();
-        }
+    for (const store of [this.storages.session, this.storages.local]) {
+      const stored = this.readStoredSession(store);
+      if (stored) {
+        this.storage = store;
+        this._tokens.set(stored.tokens);
+        this._currentUser.set(stored.user);
+        return;
       }
-    } catch (error) {
-      console.error('Erro ao carregar dados do localStorage:', error);
-      this.clearAuthData();
     }
+
+    this.clearAuthData();
   }
 
   /**
-   * Limpa todos os dados de autenticação
+   * Troca o armazenamento da sessão, removendo o que estiver no anterior
    */
-  private clearAuthData(): void {
-    this._currentUser.set(null);
-    this._tokens.set(null);
+  private useStorage(strategy: TokenStorageStrategy): void {
+    const next = this.storages[strategy];
+    if (next === this.storage) return;
+
+    this.storage.removeItem(this.TOKEN_KEY);
+    this.storage.removeItem(this.USER_KEY);
+    this.storage = next;
   }
 
   /**
-   * Trata erros das requisições HTTP
+   * Lê a sessão persistida, descartando-a apenas se o access token expirou e não há refresh token
    */
-  private handleError(error: any): ApiResponse<any> {
-    if (error instanceof HttpErrorResponse) {
-      // Tentar extrair a mensagem de diferentes estruturas possíveis do backend
-      let errorMessage = 'Erro na comunicação com o servidor';
-      
-      if (error.error) {
-        // Caso 1: error.error.errors[0].message (estrutura do backend atual)
-        if (error.error.errors && Array.isArray(error.error.errors) && error.error.errors.length > 0 && error.error.errors[0].message) {
-          errorMessage = error.error.errors[0].message;
-        }
-        // Caso 2: error.error.message (estrutura padrão)
-        else if (error.error.message) {
-          errorMessage = error.error.message;
-        }
-        // Caso 3: error.error.Message (com M maiúsculo - padrão .NET)
-        else if (error.error.Message) {
-          errorMessage = error.error.Message;
-        }
-        // Caso 4: error.error é uma string direta
-        else if (typeof error.error === 'string') {
-          errorMessage = error.error;
-        }
-        // Caso 5: error.error.title (algumas APIs usam title)
-        else if (error.error.title) {
-          errorMessage = error.error.title;
-        }
-        // Caso 6: error.error.detail (algumas APIs usam detail)
-        else if (error.error.detail) {
-          errorMessage = error.error.detail;
-        }
+  private readStoredSession(store: TokenStorage = this.storage): { tokens: AuthTokens; user: User } | null {
+    try {
+      const storedTokens = store.getItem(this.TOKEN_KEY);
+      const storedUser = store.getItem(this.USER_KEY);
+      if (!storedTokens || !storedUser) return null;
+
+      const tokens: AuthTokens = JSON.parse(storedTokens);
+      const user: User = JSON.parse(storedUser);
+      return tokens.refreshToken || this.isTokenValid(tokens.accessToken) ? { tokens, user } : null;
+    } catch (error) {
+      console.error('Erro ao carregar a sessão armazenada:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Aplica a sessão gravada por outra aba (o evento storage não dispara na aba que escreveu)
+   * Um logout remoto encerra a sessão aqui também, levando o usuário ao login.
+   * Só sessões lembradas (localStorage) são compartilhadas; uma sessão restrita
+   * à aba não é afetada pelo que acontece nas demais.
+   */
+  private syncFromOtherTab(event: StorageEvent): void {
+    if (event.storageArea !== localStorage) return;
+    if (event.key !== null && event.key !== this.TOKEN_KEY && event.key !== this.USER_KEY) return;
+
+    const wasAuthenticated = this.isAuthenticated();
+    if (wasAuthenticated && this.storage !== this.storages.local) return;
+
+    const stored = this.readStoredSession(this.storages.local);
+
+    if (stored) {
+      this.storage = this.storages.local;
+      if (stored.tokens.accessToken !== this._tokens()?.accessToken) {
+        this._tokens.set(stored.tokens);
       }
-      
-      return {
-        success: false,
-        message: errorMessage,
-        errors: error.error?.errors || [errorMessage]
-      };
+      if (JSON.stringify(stored.user) !== JSON.stringify(this._currentUser())) {
+        this._currentUser.set(stored.user);
+      }
+    } else if (wasAuthenticated) {
+      this.expireSession();
     }
+  }
 
-    return {
-      success: false,
-      message: 'Erro inesperado',
-      errors: [error?.message || 'Erro desconhecido']
-    };
+  /**
+   * Limpa todos os dados de autenticação
+   */
+  private clearAuthData(): void {
+    this._currentUser.set(null);
+    this._tokens.set(null);
   }
 }
\ No newline at end of file
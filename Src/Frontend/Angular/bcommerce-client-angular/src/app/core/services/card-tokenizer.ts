@@ -0,0 +1,67 @@
+import { InjectionToken, inject } from '@angular/core';
+import { APP_CONFIG } from '../config/app-config';
+import { CardDetails, CardToken } from '../models';
+import { I18nService } from './i18n.service';
+import { detectCardBrand, normalizeCardNumber } from '../utils/card.utils';
+
+/**
+ * Troca os dados do cartão por um token do gateway de pagamento
+ * O número e o CVV vão direto para o gateway; o backend recebe apenas o token
+ */
+export abstract class CardTokenizer {
+  /**
+   * @throws Error com mensagem para o usuário quando o gateway recusa o cartão
+   */
+  abstract tokenize(card: CardDetails): Promise<CardToken>;
+}
+
+/**
+ * Tokenizador local, sem gateway: gera tokens fictícios
+ * Números terminados em 0002 são recusados, para simular a falha
+ */
+export class FakeCardTokenizer extends CardTokenizer {
+  constructor(private readonly i18n: I18nService) {
+    super();
+  }
+
+  async tokenize(card: CardDetails): Promise<CardToken> {
+    const number = normalizeCardNumber(card.number);
+    if (number.endsWith('0002')) {
+      throw new Error(this.i18n.t('card.declined'));
+    }
+
+    return {
+      token: `tok_fake_${crypto.randomUUID()}`,
+      lastFour: number.slice(-4),
+      brand: detectCardBrand(number)
+    };
+  }
+}
+
+/**
+ * Usado enquanto nenhum gateway está configurado: recusa todos os cartões
+ * Assim um token fictício nunca é salvo como cartão real
+ */
+export class UnavailableCardTokenizer extends CardTokenizer {
+  constructor(private readonly i18n: I18nService) {
+    super();
+  }
+
+  async tokenize(): Promise<CardToken> {
+    throw new Error(this.i18n.t('card.tokenizerUnavailable'));
+  }
+}
+
+/**
+ * Tokenizador em uso
+ * O FakeCardTokenizer só é usado com `features.fakePayments`; um gateway real é fornecido sobrescrevendo o token
+ */
+export const CARD_TOKENIZER = new InjectionToken<CardTokenizer>('CARD_TOKENIZER', {
+  providedIn: 'root',
+  factory: () => {
+    const i18n = inject(I18nService);
+    return inject(APP_CONFIG).features.fakePayments
+      ? new FakeCardTokenizer(i18n)
+      : new UnavailableCardTokenizer(i18n);
+  }
+});
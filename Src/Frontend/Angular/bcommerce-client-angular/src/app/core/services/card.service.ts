@@ -0,0 +1,41 @@
+import { Injectable, inject } from '@angular/core';
+import { ApiClient } from './api-client.service';
+import { ApiResponse, SaveCardRequest, SavedCard } from '../models';
+
+/**
+ * Cartões salvos do usuário autenticado
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CardService {
+  private readonly api = inject(ApiClient);
+
+  /**
+   * Cartões ativos, com o padrão primeiro
+   */
+  getCards(): Promise<ApiResponse<SavedCard[]>> {
+    return this.api.get<SavedCard[]>('users', '/me/cards');
+  }
+
+  /**
+   * Salva um cartão já tokenizado
+   */
+  addCard(data: SaveCardRequest): Promise<ApiResponse<SavedCard>> {
+    return this.api.post<SavedCard>('users', '/me/cards', data);
+  }
+
+  /**
+   * Exclusão lógica (deleted_at); pedidos antigos mantêm o snapshot do cartão
+   */
+  deleteCard(id: string): Promise<ApiResponse<void>> {
+    return this.api.delete<void>('users', `/me/cards/${id}`);
+  }
+
+  /**
+   * Torna o cartão o padrão do usuário (os demais deixam de ser)
+   */
+  setDefaultCard(id: string): Promise<ApiResponse<SavedCard>> {
+    return this.api.put<SavedCard>('users', `/me/cards/${id}/default`, {});
+  }
+}
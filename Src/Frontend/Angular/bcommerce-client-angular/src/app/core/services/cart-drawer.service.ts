@@ -0,0 +1,24 @@
+import { Injectable, signal } from '@angular/core';
+
+/**
+ * Estado do carrinho lateral (aberto pelo header, exibido no App)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartDrawerService {
+  private readonly _isOpen = signal(false);
+  readonly isOpen = this._isOpen.asReadonly();
+
+  open(): void {
+    this._isOpen.set(true);
+  }
+
+  close(): void {
+    this._isOpen.set(false);
+  }
+
+  toggle(): void {
+    this._isOpen.update((open) => !open);
+  }
+}
@@ -0,0 +1,395 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { ApiClient } from './api-client.service';
+import { CatalogService } from './catalog.service';
+import { AuthService } from './auth.service';
+import { ToastService } from './toast.service';
+import { I18nService } from './i18n.service';
+import { APP_CONFIG } from '../config/app-config';
+import { AddCartItemRequest, ApiResponse, Cart, CartItem, CartItemChange, MergeCartRequest, Product } from '../models';
+import { getPrimaryImage } from '../utils/product.utils';
+import { clampQuantity, detectItemChanges, emptyCart, mergeGuestItems, summarizeCart } from '../utils/cart.utils';
+
+/**
+ * Carrinho de compras usando Signals
+ *
+ * Visitantes usam um carrinho guardado no localStorage; usuários autenticados
+ * usam o carrinho do servidor. Ao entrar, os itens do visitante são enviados
+ * ao servidor (ver mergeGuestItems para as regras de conflito) e o carrinho
+ * local é descartado.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartService {
+  private readonly api = inject(ApiClient);
+  private readonly catalogService = inject(CatalogService);
+  private readonly authService = inject(AuthService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  private readonly config = inject(APP_CONFIG);
+
+  private readonly GUEST_CART_KEY = 'guest_cart';
+
+  private readonly _cart = signal<Cart>(emptyCart());
+  private readonly _isLoading = signal(false);
+  private readonly _changes = signal<CartItemChange[]>([]);
+
+  // Incrementado a cada alteração; permite saber se o rollback ainda é seguro
+  private version = 0;
+
+  readonly cart = this._cart.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly items = computed(() => this._cart().items);
+  readonly subtotal = computed(() => this._cart().subtotal);
+  readonly totalItems = computed(() => this._cart().totalItems);
+  readonly isEmpty = computed(() => this._cart().items.length === 0);
+
+  // Itens cujo preço ou estoque mudou desde que foram adicionados
+  readonly changes = this._changes.asReadonly();
+  readonly hasPendingChanges = computed(() => this._changes().length > 0);
+
+  // Só muda ao entrar/sair (ou trocar de usuário), não a cada atualização do perfil
+  private readonly userId = computed(() =>
+    this.authService.isAuthenticated() ? this.authService.currentUser()?.id ?? null : null
+  );
+
+  constructor() {
+    effect(() => {
+      const userId = this.userId();
+      untracked(() => {
+        this._changes.set([]);
+        if (userId) {
+          void this.syncServerCart();
+        } else {
+          this._cart.set(this.readGuestCart());
+        }
+      });
+    });
+
+    // Carrinho de visitante aberto em outra aba
+    window.addEventListener('storage', (event) => {
+      if (event.key === this.GUEST_CART_KEY && !this.userId()) {
+        this._cart.set(this.readGuestCart());
+      }
+    });
+  }
+
+  /**
+   * Quantidade do produto já no carrinho
+   */
+  quantityOf(productId: string): number {
+    return this.items().find((item) => item.productId === productId)?.quantity ?? 0;
+  }
+
+  /**
+   * Adiciona o produto (ou soma à quantidade existente)
+   */
+  async addItem(product: Product, quantity = 1): Promise<ApiResponse<Cart>> {
+    const request: AddCartItemRequest = {
+      productId: product.id,
+      quantity,
+      productSnapshot: {
+        name: product.name,
+        slug: product.slug,
+        imageUrl: getPrimaryImage(product)?.imageUrl ?? null,
+        stockQuantity: product.stockQuantity
+      }
+    };
+
+    if (this.userId()) {
+      return this.applyServerResponse(await this.api.post<Cart>('cart', '/items', request));
+    }
+
+    const guestUnavailable = this.guestUnavailable();
+    if (guestUnavailable) return guestUnavailable;
+
+    const existing = this.items().find((item) => item.productId === product.id);
+    const now = new Date().toISOString();
+    const items = existing
+      ? this.items().map((item) =>
+          item.productId === product.id
+            ? {
+                ...item,
+                quantity: clampQuantity(item.quantity + quantity, request.productSnapshot),
+                unitPrice: product.price,
+                productSnapshot: request.productSnapshot,
+                updatedAt: now
+              }
+            : item
+        )
+      : [
+          ...this.items(),
+          {
+            id: crypto.randomUUID(),
+            productId: product.id,
+            quantity: clampQuantity(quantity, request.productSnapshot),
+            unitPrice: product.price,
+            subtotal: 0,
+            productSnapshot: request.productSnapshot,
+            addedAt: now,
+            updatedAt: now
+          }
+        ];
+
+    return this.saveGuestCart(items);
+  }
+
+  /**
+   * Define a quantidade de um item (mínimo 1; para retirar use removeItem)
+   * No carrinho do servidor a alteração aparece na hora e é desfeita se a API recusar
+   */
+  async updateQuantity(productId: string, quantity: number): Promise<ApiResponse<Cart>> {
+    const items = this.items().map((item) =>
+      item.productId === productId
+        ? { ...item, quantity: clampQuantity(quantity, item.productSnapshot), updatedAt: new Date().toISOString() }
+        : item
+    );
+
+    if (!this.userId()) {
+      return this.saveGuestCart(items);
+    }
+
+    const next = items.find((item) => item.productId === productId);
+    return this.optimistic(
+      items,
+      () => this.api.put<Cart>('cart', `/items/${productId}`, { quantity: next?.quantity ?? quantity }),
+      this.i18n.t('cart.updateQuantityFailed')
+    );
+  }
+
+  async removeItem(productId: string): Promise<ApiResponse<Cart>> {
+    const items = this.items().filter((item) => item.productId !== productId);
+
+    const response = this.userId()
+      ? await this.optimistic(
+          items,
+          () => this.api.delete<Cart>('cart', `/items/${productId}`),
+          this.i18n.t('cart.removeFailed')
+        )
+      : this.saveGuestCart(items);
+
+    // O aviso de preço/estoque só sai depois que o item saiu; se a remoção falhar, continua pendente
+    if (response.success) {
+      this._changes.update((changes) => changes.filter((change) => change.productId !== productId));
+    }
+    return response;
+  }
+
+  /**
+   * Compara os itens com o catálogo atual e registra mudanças de preço ou estoque
+   * Chamado ao abrir o carrinho e antes do checkout
+   */
+  async validate(): Promise<CartItemChange[]> {
+    const items = this.items();
+    if (items.length === 0) {
+      this._changes.set([]);
+      return [];
+    }
+
+    const response = await this.catalogService.getProductsByIds(items.map((item) => item.productId));
+    if (!response.success || !response.data) {
+      // Sem como conferir, mantém o que já se sabia
+      return this._changes();
+    }
+
+    const changes = detectItemChanges(this.items(), response.data);
+    this._changes.set(changes);
+    return changes;
+  }
+
+  /**
+   * O usuário aceitou as mudanças: itens passam a usar o preço atual, quantidades
+   * são ajustadas ao estoque e produtos indisponíveis saem do carrinho
+   */
+  async acknowledgeChanges(): Promise<ApiResponse<Cart>> {
+    const changes = this._changes();
+    const byProduct = new Map(changes.map((change) => [change.productId, change]));
+
+    const items = this.items()
+      .filter((item) => !byProduct.get(item.productId)?.unavailable)
+      .map((item) => {
+        const change = byProduct.get(item.productId);
+        if (!change) return item;
+
+        const productSnapshot = item.productSnapshot
+          ? { ...item.productSnapshot, stockQuantity: change.currentStock }
+          : null;
+        return {
+          ...item,
+          unitPrice: change.currentPrice,
+          productSnapshot,
+          quantity: clampQuantity(item.quantity, productSnapshot)
+        };
+      });
+
+    if (!this.userId()) {
+      this._changes.set([]);
+      return this.saveGuestCart(items);
+    }
+
+    // O servidor reprecifica pelo catálogo; o client apenas antecipa o resultado
+    const response = await this.optimistic(
+      items,
+      () => this.api.post<Cart>('cart', '/reprice', {}),
+      this.i18n.t('cart.repriceFailed')
+    );
+    if (response.success) {
+      this._changes.set([]);
+    }
+    return response;
+  }
+
+  async clear(): Promise<ApiResponse<Cart>> {
+    this._changes.set([]);
+
+    if (this.userId()) {
+      const response = await this.api.delete<Cart>('cart', '');
+      if (response.success) {
+        this._cart.set(response.data ? summarizeCart(response.data) : emptyCart());
+      }
+      return response;
+    }
+
+    return this.saveGuestCart([]);
+  }
+
+  /**
+   * Recarrega o carrinho do servidor (ex.: antes do checkout)
+   */
+  async refresh(): Promise<void> {
+    if (this.userId()) {
+      await this.loadServerCart();
+    }
+  }
+
+  /**
+   * Após o login: envia os itens do visitante e passa a usar o carrinho do servidor
+   */
+  private async syncServerCart(): Promise<void> {
+    this._isLoading.set(true);
+
+    try {
+      const guestItems = this.readGuestCart().items;
+      const server = await this.api.get<Cart>('cart', '');
+
+      if (guestItems.length === 0 || !server.success) {
+        this.applyServerResponse(server);
+        return;
+      }
+
+      const merged = mergeGuestItems(server.data?.items ?? [], guestItems);
+      const request: MergeCartRequest = {
+        items: merged.map((item) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          productSnapshot: item.productSnapshot
+        }))
+      };
+
+      const response = this.applyServerResponse(await this.api.post<Cart>('cart', '/merge', request));
+      if (response.success) {
+        localStorage.removeItem(this.GUEST_CART_KEY);
+      } else {
+        // Mantém o carrinho de visitante para tentar de novo no próximo login
+        this.applyServerResponse(server);
+        this.toastService.warning(this.i18n.t('cart.mergeFailed'));
+      }
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  private async loadServerCart(): Promise<void> {
+    this._isLoading.set(true);
+    try {
+      this.applyServerResponse(await this.api.get<Cart>('cart', ''));
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  /**
+   * Aplica a alteração localmente antes da resposta do servidor
+   * Em caso de erro volta ao estado anterior; se outra alteração aconteceu nesse
+   * meio tempo, recarrega o carrinho do servidor em vez de sobrescrevê-la
+   */
+  private async optimistic(
+    items: CartItem[],
+    request: () => Promise<ApiResponse<Cart>>,
+    errorMessage: string
+  ): Promise<ApiResponse<Cart>> {
+    const previous = this._cart();
+    const version = ++this.version;
+    this._cart.set(summarizeCart({ ...previous, items }));
+
+    const response = await request();
+
+    if (response.success) {
+      // Só a resposta mais recente define o estado final
+      if (version === this.version) {
+        this.applyServerResponse(response);
+      }
+    } else {
+      if (version === this.version) {
+        this._cart.set(previous);
+      } else {
+        void this.loadServerCart();
+      }
+      this.toastService.error(response.message || errorMessage);
+    }
+
+    return response;
+  }
+
+  private applyServerResponse(response: ApiResponse<Cart>): ApiResponse<Cart> {
+    // Resposta de um usuário que já saiu não deve sobrescrever o carrinho de visitante
+    if (response.success && this.userId()) {
+      this._cart.set(response.data ? summarizeCart(response.data) : emptyCart());
+    }
+    return response;
+  }
+
+  /**
+   * Visitantes só têm carrinho quando a feature guestCart está ligada
+   */
+  private guestUnavailable(): ApiResponse<Cart> | null {
+    if (this.config.features.guestCart) return null;
+
+    const message = this.i18n.t('cart.signInRequired');
+    return {
+      success: false,
+      message,
+      errors: [{ message }],
+      error: { kind: 'unauthorized', status: 401, message, messages: [message] }
+    };
+  }
+
+  private saveGuestCart(items: CartItem[]): ApiResponse<Cart> {
+    const cart = summarizeCart({ ...emptyCart(), items });
+    this._cart.set(cart);
+
+    try {
+      if (items.length > 0) {
+        localStorage.setItem(this.GUEST_CART_KEY, JSON.stringify(cart));
+      } else {
+        localStorage.removeItem(this.GUEST_CART_KEY);
+      }
+    } catch (error) {
+      console.warn('Não foi possível salvar o carrinho:', error);
+    }
+
+    return { success: true, data: cart };
+  }
+
+  private readGuestCart(): Cart {
+    if (!this.config.features.guestCart) return emptyCart();
+
+    try {
+      const stored = localStorage.getItem(this.GUEST_CART_KEY);
+      const cart: Cart | null = stored ? JSON.parse(stored) : null;
+      return cart && Array.isArray(cart.items) ? summarizeCart({ ...emptyCart(), items: cart.items }) : emptyCart();
+    } catch {
+      return emptyCart();
+    }
+  }
+}
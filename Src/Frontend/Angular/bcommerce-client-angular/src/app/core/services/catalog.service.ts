@@ -0,0 +1,110 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiClient } from './api-client.service';
+import {
+  ApiResponse,
+  Category,
+  CreateReviewRequest,
+  PagedResult,
+  Product,
+  ProductListQuery,
+  ProductReview,
+  ProductReviewSummary,
+  ReviewEligibility
+} from '../models';
+
+/**
+ * Serviço de leitura do catálogo (categorias e produtos)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CatalogService {
+  private readonly api = inject(ApiClient);
+
+  /**
+   * Categorias ativas
+   */
+  getCategories(): Promise<ApiResponse<Category[]>> {
+    return this.api.get<Category[]>('catalog', '/categories');
+  }
+
+  /**
+   * Categoria pelo slug da URL
+   */
+  getCategoryBySlug(slug: string): Promise<ApiResponse<Category>> {
+    return this.api.get<Category>('catalog', `/categories/${encodeURIComponent(slug)}`);
+  }
+
+  /**
+   * Lista paginada de produtos com filtros e ordenação
+   */
+  getProducts(query: ProductListQuery): Promise<ApiResponse<PagedResult<Product>>> {
+    const params: Record<string, string | number | boolean> = {
+      pageNumber: query.pageNumber,
+      pageSize: query.pageSize
+    };
+
+    if (query.categorySlug) params['category'] = query.categorySlug;
+    if (query.search) params['search'] = query.search;
+    if (query.minPrice !== undefined) params['minPrice'] = query.minPrice;
+    if (query.maxPrice !== undefined) params['maxPrice'] = query.maxPrice;
+    if (query.inStock) params['inStock'] = true;
+    if (query.sort && query.sort !== 'relevance') params['sort'] = query.sort;
+
+    return this.api.get<PagedResult<Product>>('catalog', '/products', { params });
+  }
+
+  /**
+   * Busca rápida de produtos para sugestões (cancelável)
+   */
+  searchProducts$(term: string, limit: number): Observable<ApiResponse<PagedResult<Product>>> {
+    return this.api.get$<PagedResult<Product>>('catalog', '/products', {
+      params: { search: term, pageNumber: 1, pageSize: limit }
+    });
+  }
+
+  /**
+   * Dados atuais de vários produtos (preço e estoque para conferir o carrinho)
+   */
+  getProductsByIds(ids: string[]): Promise<ApiResponse<Product[]>> {
+    return this.api.get<Product[]>('catalog', '/products/batch', { params: { ids } });
+  }
+
+  /**
+   * Produto pelo slug da URL, com imagens
+   */
+  getProductBySlug(slug: string): Promise<ApiResponse<Product>> {
+    return this.api.get<Product>('catalog', `/products/${encodeURIComponent(slug)}`);
+  }
+
+  /**
+   * Avaliações paginadas do produto, das mais recentes para as mais antigas
+   */
+  getReviews(productId: string, pageNumber: number, pageSize: number): Promise<ApiResponse<PagedResult<ProductReview>>> {
+    return this.api.get<PagedResult<ProductReview>>('catalog', `/products/${productId}/reviews`, {
+      params: { pageNumber, pageSize }
+    });
+  }
+
+  /**
+   * Média e distribuição das notas do produto
+   */
+  getReviewSummary(productId: string): Promise<ApiResponse<ProductReviewSummary>> {
+    return this.api.get<ProductReviewSummary>('catalog', `/products/${productId}/reviews/summary`);
+  }
+
+  /**
+   * Verifica se o usuário autenticado comprou o produto e ainda não o avaliou
+   */
+  getReviewEligibility(productId: string): Promise<ApiResponse<ReviewEligibility>> {
+    return this.api.get<ReviewEligibility>('catalog', `/products/${productId}/reviews/eligibility`);
+  }
+
+  /**
+   * Publica a avaliação do usuário autenticado
+   */
+  createReview(productId: string, data: CreateReviewRequest): Promise<ApiResponse<ProductReview>> {
+    return this.api.post<ProductReview>('catalog', `/products/${productId}/reviews`, data);
+  }
+}
@@ -0,0 +1,79 @@
+import { InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { CepLookupResult } from '../models';
+import { normalizeZipCode } from '../utils/address.utils';
+
+/**
+ * Consulta de endereço pelo CEP, usada para preencher o formulário de endereço
+ * Implementações alternativas (ex.: stub local em testes) são fornecidas via CEP_LOOKUP
+ */
+export abstract class CepLookupProvider {
+  /**
+   * @returns null quando o CEP não existe ou o serviço está indisponível
+   */
+  abstract lookup(zipCode: string): Promise<CepLookupResult | null>;
+}
+
+interface ViaCepResponse {
+  cep?: string;
+  logradouro?: string;
+  bairro?: string;
+  localidade?: string;
+  uf?: string;
+  erro?: boolean | string;
+}
+
+/**
+ * Consulta pública do ViaCEP (https://viacep.com.br)
+ */
+export class ViaCepLookupProvider extends CepLookupProvider {
+  constructor(
+    private readonly http: HttpClient,
+    private readonly baseUrl = 'https://viacep.com.br/ws'
+  ) {
+    super();
+  }
+
+  async lookup(zipCode: string): Promise<CepLookupResult | null> {
+    const digits = normalizeZipCode(zipCode);
+    if (digits.length !== 8) return null;
+
+    try {
+      const response = await firstValueFrom(this.http.get<ViaCepResponse>(`${this.baseUrl}/${digits}/json/`));
+      if (!response || response.erro) return null;
+
+      return {
+        zipCode: digits,
+        street: response.logradouro ?? '',
+        neighborhood: response.bairro ?? '',
+        city: response.localidade ?? '',
+        state: response.uf ?? ''
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Responde a partir de uma tabela fixa de CEPs, sem acesso à rede
+ */
+export class StaticCepLookupProvider extends CepLookupProvider {
+  constructor(private readonly entries: readonly CepLookupResult[]) {
+    super();
+  }
+
+  async lookup(zipCode: string): Promise<CepLookupResult | null> {
+    const digits = normalizeZipCode(zipCode);
+    return this.entries.find((entry) => normalizeZipCode(entry.zipCode) === digits) ?? null;
+  }
+}
+
+/**
+ * Provedor de consulta de CEP em uso (ViaCEP por padrão)
+ */
+export const CEP_LOOKUP = new InjectionToken<CepLookupProvider>('CEP_LOOKUP', {
+  providedIn: 'root',
+  factory: () => new ViaCepLookupProvider(inject(HttpClient))
+});
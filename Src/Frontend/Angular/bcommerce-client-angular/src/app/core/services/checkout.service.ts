@@ -0,0 +1,205 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import { AuthService } from './auth.service';
+import { CartService } from './cart.service';
+import { CouponService } from './coupon.service';
+import { I18nService } from './i18n.service';
+import { OrdersService } from './orders.service';
+import { APP_CONFIG } from '../config/app-config';
+import {
+  Address,
+  ApiResponse,
+  CheckoutState,
+  CheckoutStep,
+  CreateOrderRequest,
+  InstallmentOption,
+  Order,
+  OrderPricing,
+  PaymentMethod,
+  SavedCard,
+  ShippingOption
+} from '../models';
+import { canEnterStep, emptyCheckoutState, firstIncompleteStep } from '../utils/checkout.utils';
+import { calculatePricing } from '../utils/pricing.utils';
+import { calculateInstallments, paymentDiscountPercent } from '../utils/money.utils';
+
+/**
+ * Estado do checkout entre as etapas do assistente
+ * As escolhas ficam no sessionStorage (por usuário) para sobreviver ao refresh
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckoutService {
+  private readonly authService = inject(AuthService);
+  private readonly cartService = inject(CartService);
+  private readonly couponService = inject(CouponService);
+  private readonly i18n = inject(I18nService);
+  private readonly ordersService = inject(OrdersService);
+  private readonly paymentRules = inject(APP_CONFIG).payments;
+
+  private readonly STATE_KEY_PREFIX = 'checkout_state';
+
+  private readonly stateKey = computed(
+    () => `${this.STATE_KEY_PREFIX}:${this.authService.currentUser()?.id ?? 'guest'}`
+  );
+
+  /** Lido já na criação do serviço: o guard das etapas roda antes de qualquer effect */
+  private loadedKey = this.stateKey();
+  private readonly _state = signal<CheckoutState>(this.readState(this.loadedKey));
+  private readonly _isPlacingOrder = signal(false);
+
+  readonly state = this._state.asReadonly();
+  readonly isPlacingOrder = this._isPlacingOrder.asReadonly();
+  readonly nextStep = computed(() => firstIncompleteStep(this._state()));
+
+  /** Mesmo cálculo usado na página do carrinho, acrescido do frete e do desconto da forma de pagamento */
+  readonly pricing = computed(() => this.pricingFor(this._state().paymentMethod));
+
+  /** Parcelamento escolhido; null se o valor mudou e a opção deixou de existir */
+  readonly selectedInstallment = computed(() => {
+    const { paymentMethod, installments } = this._state();
+    if (!paymentMethod) return null;
+    return this.installmentOptions(paymentMethod).find((option) => option.count === installments) ?? null;
+  });
+
+  constructor() {
+    // Login ou logout troca a chave: passam a valer as escolhas do novo usuário
+    effect(() => {
+      const key = this.stateKey();
+      if (key === this.loadedKey) return;
+
+      this.loadedKey = key;
+      this._state.set(this.readState(key));
+    });
+  }
+
+  canEnter(step: CheckoutStep): boolean {
+    return canEnterStep(this._state(), step);
+  }
+
+  /**
+   * Trocar para um endereço de outro CEP descarta o frete já escolhido
+   */
+  selectAddress(address: Address): void {
+    this.update((state) => ({
+      ...state,
+      address,
+      shippingOption: state.address?.zipCode === address.zipCode ? state.shippingOption : null
+    }));
+  }
+
+  selectShipping(option: ShippingOption): void {
+    this.update((state) => ({ ...state, shippingOption: option }));
+  }
+
+  selectPayment(method: PaymentMethod, card: SavedCard | null = null, installments = 1): void {
+    this.update((state) => ({
+      ...state,
+      paymentMethod: method,
+      card: method === 'credit_card' ? card : null,
+      installments: this.paymentRules.installments[method] ? installments : 1
+    }));
+  }
+
+  /**
+   * Opções de parcelamento do total do pedido na forma de pagamento
+   */
+  installmentOptions(method: PaymentMethod): InstallmentOption[] {
+    return calculateInstallments(this.pricingFor(method).total, this.paymentRules.installments[method]);
+  }
+
+  setNotes(notes: string): void {
+    this.update((state) => ({ ...state, notes }));
+  }
+
+  /**
+   * Confere o carrinho mais uma vez e cria o pedido
+   * Em caso de sucesso o checkout é reiniciado, o cupom removido e o carrinho recarregado (o servidor o esvazia)
+   */
+  async placeOrder(): Promise<ApiResponse<Order>> {
+    const state = this._state();
+    if (firstIncompleteStep(state) !== 'review' || !state.address || !state.shippingOption || !state.paymentMethod) {
+      return this.failure(this.i18n.t('checkout.incomplete'));
+    }
+
+    this._isPlacingOrder.set(true);
+    try {
+      if (!this.selectedInstallment()) {
+        return this.failure(this.i18n.t('checkout.installmentUnavailable'));
+      }
+
+      const changes = await this.cartService.validate();
+      if (changes.length > 0) {
+        return this.failure(this.i18n.t('checkout.cartChanged'));
+      }
+
+      const couponCode = this.couponService.appliedCode();
+      const request: CreateOrderRequest = {
+        addressId: state.address.id,
+        shippingOptionId: state.shippingOption.id,
+        paymentMethod: state.paymentMethod,
+        ...(state.card ? { cardId: state.card.id } : {}),
+        ...(state.installments > 1 ? { installments: state.installments } : {}),
+        ...(couponCode ? { couponCode } : {}),
+        ...(state.notes.trim() ? { notes: state.notes.trim() } : {})
+      };
+
+      const response = await this.ordersService.createOrder(request);
+      if (response.success) {
+        this.reset();
+        this.couponService.remove();
+        await this.cartService.refresh();
+      }
+      return response;
+    } finally {
+      this._isPlacingOrder.set(false);
+    }
+  }
+
+  reset(): void {
+    this._state.set(emptyCheckoutState());
+    try {
+      sessionStorage.removeItem(this.stateKey());
+    } catch {
+      // Nada a limpar sem armazenamento disponível
+    }
+  }
+
+  private pricingFor(method: PaymentMethod | null): OrderPricing {
+    return calculatePricing({
+      subtotal: this.cartService.subtotal(),
+      shipping: this._state().shippingOption?.price ?? 0,
+      coupon: this.couponService.coupon(),
+      paymentDiscountPercent: paymentDiscountPercent(method, this.paymentRules)
+    });
+  }
+
+  private update(change: (state: CheckoutState) => CheckoutState): void {
+    const state = change(this._state());
+    this._state.set(state);
+
+    try {
+      sessionStorage.setItem(this.stateKey(), JSON.stringify(state));
+    } catch {
+      // Sem armazenamento disponível as escolhas valem até o próximo refresh
+    }
+  }
+
+  private readState(key: string): CheckoutState {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(key) ?? 'null');
+      return stored && typeof stored === 'object' ? { ...emptyCheckoutState(), ...stored } : emptyCheckoutState();
+    } catch {
+      return emptyCheckoutState();
+    }
+  }
+
+  private failure(message: string): ApiResponse<Order> {
+    return {
+      success: false,
+      message,
+      errors: [{ message }],
+      error: { kind: 'business', status: 0, message, messages: [message] }
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+import { CartService } from './cart.service';
+import { I18nService } from './i18n.service';
+import { Coupon, CouponEligibility } from '../models';
+import { formatBRL } from '../utils/money.utils';
+import { calculateDiscount, checkCouponEligibility, couponNotFound } from '../utils/pricing.utils';
+
+/**
+ * Cupom aplicado ao carrinho
+ * A elegibilidade e o desconto são recalculados a cada mudança do carrinho
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CouponService {
+  private readonly api = inject(ApiClient);
+  private readonly authService = inject(AuthService);
+  private readonly cartService = inject(CartService);
+  private readonly i18n = inject(I18nService);
+
+  private readonly COUPON_KEY = 'applied_coupon';
+
+  private readonly _coupon = signal<Coupon | null>(this.readCoupon());
+  private readonly _isApplying = signal(false);
+
+  readonly coupon = this._coupon.asReadonly();
+  readonly isApplying = this._isApplying.asReadonly();
+
+  readonly eligibility = computed<CouponEligibility | null>(() => {
+    const coupon = this._coupon();
+    return coupon ? checkCouponEligibility(coupon, this.cartService.subtotal()) : null;
+  });
+
+  readonly discount = computed(() => {
+    const coupon = this._coupon();
+    return coupon && this.eligibility()?.eligible ? calculateDiscount(coupon, this.cartService.subtotal()) : 0;
+  });
+
+  /** Motivo de o cupom aplicado não valer para o carrinho atual */
+  readonly ineligibleMessage = computed(() => {
+    const eligibility = this.eligibility();
+    return eligibility ? this.describe(eligibility) : null;
+  });
+
+  /** Código enviado no pedido; cupons que deixaram de valer não são enviados */
+  readonly appliedCode = computed(() => (this.eligibility()?.eligible ? this._coupon()?.code ?? null : null));
+
+  private readonly userId = computed(() =>
+    this.authService.isAuthenticated() ? this.authService.currentUser()?.id ?? null : null
+  );
+
+  constructor() {
+    // Os usos por usuário mudam com o login: confere o cupom de novo
+    effect(() => {
+      this.userId();
+      untracked(() => {
+        const coupon = this._coupon();
+        if (coupon) void this.reload(coupon.code);
+      });
+    });
+  }
+
+  /**
+   * Busca o cupom e o aplica se valer para o carrinho atual
+   */
+  async apply(code: string): Promise<CouponEligibility> {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized) return couponNotFound();
+
+    this._isApplying.set(true);
+    try {
+      const response = await this.api.get<Coupon>('promotions', `/coupons/${encodeURIComponent(normalized)}`);
+      if (!response.success || !response.data) {
+        if (response.error?.kind === 'not-found' || response.success) return couponNotFound();
+
+        const message = response.message ?? this.i18n.t('coupon.validationFailed');
+        return { eligible: false, reason: null, message };
+      }
+
+      const eligibility = checkCouponEligibility(response.data, this.cartService.subtotal());
+      if (eligibility.eligible) {
+        this.setCoupon(response.data);
+      }
+      return eligibility;
+    } finally {
+      this._isApplying.set(false);
+    }
+  }
+
+  remove(): void {
+    this.setCoupon(null);
+  }
+
+  /**
+   * Texto do motivo de o cupom não valer, no idioma escolhido (null se elegível)
+   */
+  describe(eligibility: CouponEligibility): string | null {
+    if (eligibility.eligible) return null;
+    if (!eligibility.reason) return eligibility.message ?? this.i18n.t('coupon.validationFailed');
+
+    const { date, minimum, missing } = eligibility.details ?? {};
+    return this.i18n.t(`coupon.ineligible.${eligibility.reason}`, {
+      date: date ? new Intl.DateTimeFormat(this.i18n.locale()).format(new Date(date)) : '',
+      minimum: minimum !== undefined ? formatBRL(minimum) : '',
+      missing: missing !== undefined ? formatBRL(missing) : ''
+    });
+  }
+
+  private async reload(code: string): Promise<void> {
+    const response = await this.api.get<Coupon>('promotions', `/coupons/${encodeURIComponent(code)}`);
+    if (response.success && response.data) {
+      this.setCoupon(response.data);
+    } else if (response.error?.kind === 'not-found') {
+      this.setCoupon(null);
+    }
+  }
+
+  private setCoupon(coupon: Coupon | null): void {
+    this._coupon.set(coupon);
+
+    try {
+      if (coupon) {
+        sessionStorage.setItem(this.COUPON_KEY, JSON.stringify(coupon));
+      } else {
+        sessionStorage.removeItem(this.COUPON_KEY);
+      }
+    } catch {
+      // Sem armazenamento disponível o cupom vale até o próximo refresh
+    }
+  }
+
+  private readCoupon(): Coupon | null {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(this.COUPON_KEY) ?? 'null');
+      return stored && typeof stored.code === 'string' ? (stored as Coupon) : null;
+    } catch {
+      return null;
+    }
+  }
+}
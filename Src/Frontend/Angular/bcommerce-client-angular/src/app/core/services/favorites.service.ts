@@ -0,0 +1,159 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { Router } from '@angular/router';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+import { ToastService } from './toast.service';
+import { I18nService } from './i18n.service';
+import { APP_CONFIG } from '../config/app-config';
+import { ApiResponse, FavoriteProduct, Product } from '../models';
+
+/**
+ * Produtos favoritos do usuário autenticado
+ *
+ * A lista é carregada ao entrar e descartada ao sair. Visitantes que tentam
+ * favoritar são levados ao login; o returnUrl aponta para /favorites/add/:productId,
+ * que conclui o favorito e volta para a página onde o usuário estava.
+ * Com a feature wishlist desligada nada é carregado e os botões ficam ocultos.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FavoritesService {
+  private readonly api = inject(ApiClient);
+  private readonly authService = inject(AuthService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  private readonly router = inject(Router);
+
+  readonly enabled = inject(APP_CONFIG).features.wishlist;
+
+  private readonly _favorites = signal<FavoriteProduct[]>([]);
+  private readonly _isLoading = signal(false);
+  // Produtos com inclusão ou remoção em andamento
+  private readonly _pending = signal<ReadonlySet<string>>(new Set());
+
+  readonly favorites = this._favorites.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly count = computed(() => this._favorites().length);
+  private readonly productIds = computed(() => new Set(this._favorites().map((favorite) => favorite.productId)));
+
+  private readonly userId = computed(() =>
+    this.authService.isAuthenticated() ? this.authService.currentUser()?.id ?? null : null
+  );
+
+  constructor() {
+    effect(() => {
+      const userId = this.userId();
+      untracked(() => {
+        if (userId && this.enabled) {
+          void this.load();
+        } else {
+          this._favorites.set([]);
+        }
+      });
+    });
+  }
+
+  isFavorite(productId: string): boolean {
+    return this.productIds().has(productId);
+  }
+
+  isPending(productId: string): boolean {
+    return this._pending().has(productId);
+  }
+
+  /**
+   * Recarrega a lista do servidor
+   */
+  async load(): Promise<void> {
+    this._isLoading.set(true);
+    try {
+      const response = await this.api.get<FavoriteProduct[]>('catalog', '/favorites');
+      if (response.success && this.userId()) {
+        this._favorites.set(response.data ?? []);
+      }
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  /**
+   * Favorita ou desfavorita o produto
+   * Visitantes são enviados ao login e o favorito é concluído depois de entrar
+   */
+  async toggle(product: Product): Promise<void> {
+    if (!this.userId()) {
+      const next = this.router.url;
+      await this.router.navigate(['/login'], {
+        queryParams: { returnUrl: this.router.serializeUrl(this.addUrl(product.id, next)) }
+      });
+      return;
+    }
+
+    if (this.isFavorite(product.id)) {
+      await this.remove(product.id);
+    } else {
+      await this.add(product.id);
+    }
+  }
+
+  async add(productId: string): Promise<ApiResponse<FavoriteProduct>> {
+    return this.track(productId, async () => {
+      const response = await this.api.post<FavoriteProduct>('catalog', '/favorites', { productId });
+
+      if (response.success && response.data) {
+        const favorite = response.data;
+        this._favorites.update((favorites) => [
+          favorite,
+          ...favorites.filter((item) => item.productId !== favorite.productId)
+        ]);
+      } else if (response.success || response.error?.status === 409) {
+        // 409: já era favorito (ex.: favoritado em outra aba)
+        await this.load();
+      } else {
+        this.toastService.error(response.message || this.i18n.t('favorites.addFailed'));
+      }
+      return response;
+    });
+  }
+
+  /**
+   * Remove o favorito na hora e o devolve à lista se a API recusar
+   */
+  async remove(productId: string): Promise<ApiResponse<void>> {
+    return this.track(productId, async () => {
+      const previous = this._favorites();
+      this._favorites.set(previous.filter((favorite) => favorite.productId !== productId));
+
+      const response = await this.api.delete<void>('catalog', `/favorites/${productId}`);
+      // Já não estava favoritado no servidor: o resultado é o mesmo
+      if (!response.success && response.error?.kind !== 'not-found') {
+        this._favorites.set(previous);
+        this.toastService.error(response.message || this.i18n.t('favorites.removeFailed'));
+      }
+      return response;
+    });
+  }
+
+  /**
+   * Rota que conclui o favorito e redireciona para `next`
+   */
+  private addUrl(productId: string, next: string) {
+    return this.router.createUrlTree(['/favorites/add', productId], {
+      queryParams: next.startsWith('/') ? { next } : {}
+    });
+  }
+
+  private async track<T>(productId: string, action: () => Promise<T>): Promise<T> {
+    this._pending.update((pending) => new Set(pending).add(productId));
+    try {
+      return await action();
+    } finally {
+      this._pending.update((pending) => {
+        const next = new Set(pending);
+        next.delete(productId);
+        return next;
+      });
+    }
+  }
+}
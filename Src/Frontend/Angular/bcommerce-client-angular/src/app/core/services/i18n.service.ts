@@ -0,0 +1,118 @@
+import { Injectable, effect, signal } from '@angular/core';
+import { ValidationErrors } from '@angular/forms';
+import {
+  CATALOG_LOADERS,
+  DEFAULT_CATALOG,
+  DEFAULT_LOCALE,
+  LOCALES,
+  Locale,
+  TranslationCatalog,
+  TranslationKey,
+  TranslationParams,
+  isLocale
+} from '../i18n';
+import { interpolate } from '../utils/text.utils';
+
+/**
+ * Textos traduzidos da interface
+ *
+ * O idioma escolhido no header fica salvo no localStorage. `t` lê o idioma de um
+ * signal, então templates e computeds que o usam se atualizam ao trocar de idioma.
+ * Só o catálogo padrão vai no bundle inicial; os outros são baixados ao serem escolhidos
+ * e o idioma só muda quando o catálogo chega, para os pipes puros não guardarem o texto
+ * do catálogo padrão.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class I18nService {
+  private readonly LOCALE_KEY = 'locale';
+
+  private readonly _locale = signal<Locale>(DEFAULT_LOCALE);
+  private readonly catalogs: Partial<Record<Locale, TranslationCatalog>> = { [DEFAULT_LOCALE]: DEFAULT_CATALOG };
+  /** Último idioma escolhido; uma escolha feita enquanto outro catálogo carrega prevalece */
+  private requestedLocale: Locale = DEFAULT_LOCALE;
+
+  readonly locale = this._locale.asReadonly();
+  readonly locales = LOCALES;
+
+  constructor() {
+    effect(() => {
+      document.documentElement.lang = this._locale();
+    });
+
+    void this.applyLocale(this.readLocale());
+  }
+
+  setLocale(locale: Locale): void {
+    void this.applyLocale(locale);
+
+    try {
+      localStorage.setItem(this.LOCALE_KEY, locale);
+    } catch {
+      // Sem armazenamento disponível o idioma vale até o próximo refresh
+    }
+  }
+
+  /**
+   * @param locale idioma do texto; por padrão o escolhido no header
+   */
+  t(key: TranslationKey, params?: TranslationParams, locale: Locale = this._locale()): string {
+    const catalog = this.catalogs[locale] ?? DEFAULT_CATALOG;
+    return interpolate(catalog[key], params);
+  }
+
+  /**
+   * Mensagem do primeiro erro de validação do controle
+   * Cobre os validators do Angular e os do projeto (senha, telefone e cartão)
+   *
+   * @param field rótulo já traduzido, usado em "{field} é obrigatório"
+   */
+  validationError(errors: ValidationErrors | null | undefined, field: string): string | null {
+    if (!errors) return null;
+
+    if (errors['required']) return this.t('validation.required', { field });
+    if (errors['email']) return this.t('validation.email');
+    if (errors['minlength']) {
+      return this.t('validation.minlength', { field, requiredLength: errors['minlength'].requiredLength });
+    }
+    if (errors['maxlength']) {
+      return this.t('validation.maxlength', { field, requiredLength: errors['maxlength'].requiredLength });
+    }
+    if (errors['strongPassword']) return this.t('validation.strongPassword');
+    if (errors['invalidPhone']) return this.t('validation.invalidPhone', { example: '(11) 99999-9999' });
+    if (errors['passwordMismatch']) return this.t('validation.passwordMismatch');
+    if (errors['cardNumberLength']) return this.t('validation.cardNumberLength');
+    if (errors['cardNumber']) return this.t('validation.cardNumber');
+    if (errors['cardExpiry']) return this.t('validation.cardExpiry');
+    if (errors['cardExpired']) return this.t('validation.cardExpired');
+
+    return this.t('validation.invalid');
+  }
+
+  private async applyLocale(locale: Locale): Promise<void> {
+    this.requestedLocale = locale;
+
+    if (!this.catalogs[locale]) {
+      try {
+        this.catalogs[locale] = await CATALOG_LOADERS[locale]();
+      } catch {
+        // Sem o catálogo o idioma atual continua; uma nova escolha tenta de novo
+        return;
+      }
+    }
+
+    if (this.requestedLocale === locale) {
+      this._locale.set(locale);
+    }
+  }
+
+  private readLocale(): Locale {
+    try {
+      const stored = localStorage.getItem(this.LOCALE_KEY);
+      return isLocale(stored) ? stored : DEFAULT_LOCALE;
+    } catch {
+      return DEFAULT_LOCALE;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, NgZone, computed, effect, inject, signal } from '@angular/core';
+import { APP_CONFIG } from '../config/app-config';
+import { AuthService } from './auth.service';
+import { ToastService } from './toast.service';
+import { I18nService } from './i18n.service';
+
+/**
+ * Encerra a sessão após um período sem interação do usuário
+ *
+ * A última atividade é compartilhada via localStorage, então interagir com
+ * qualquer aba mantém todas conectadas. O aviso é exibido `idleWarningMs`
+ * antes do logout e some assim que houver nova atividade.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService {
+  private readonly authService = inject(AuthService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  private readonly config = inject(APP_CONFIG);
+  private readonly ngZone = inject(NgZone);
+
+  private readonly ACTIVITY_KEY = 'last_activity';
+  private readonly ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+  // Intervalo mínimo entre gravações da atividade no localStorage
+  private readonly ACTIVITY_THROTTLE_MS = 5_000;
+  private readonly TICK_MS = 1_000;
+
+  private lastActivity = Date.now();
+  private lastPersisted = 0;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+
+  // Tempo restante até o logout enquanto o aviso está visível
+  private readonly _remainingMs = signal<number | null>(null);
+
+  readonly isWarningVisible = computed(() => this._remainingMs() !== null);
+  readonly secondsRemaining = computed(() => Math.ceil((this._remainingMs() ?? 0) / 1000));
+
+  private readonly onActivity = () => this.recordActivity();
+  private readonly onStorage = (event: StorageEvent) => {
+    if (event.key === this.ACTIVITY_KEY && event.newValue) {
+      this.lastActivity = Math.max(this.lastActivity, Number(event.newValue) || 0);
+    }
+  };
+
+  constructor() {
+    // Monitora apenas enquanto há sessão ativa
+    effect(() => {
+      if (this.authService.isAuthenticated() && this.config.timeouts.idleLogoutMs > 0) {
+        this.start();
+      } else {
+        this.stop();
+      }
+    });
+  }
+
+  /**
+   * Mantém a sessão ativa (botão "Continuar conectado" do aviso)
+   */
+  stayActive(): void {
+    this.recordActivity(true);
+  }
+
+  private start(): void {
+    if (this.ticker) return;
+
+    this.recordActivity(true);
+
+    // Eventos de alta frequência ficam fora da zona para não disparar change detection
+    this.ngZone.runOutsideAngular(() => {
+      this.ACTIVITY_EVENTS.forEach((name) =>
+        document.addEventListener(name, this.onActivity, { passive: true })
+      );
+      window.addEventListener('storage', this.onStorage);
+      this.ticker = setInterval(() => this.tick(), this.TICK_MS);
+    });
+  }
+
+  private stop(): void {
+    if (!this.ticker) return;
+
+    clearInterval(this.ticker);
+    this.ticker = null;
+    this.ACTIVITY_EVENTS.forEach((name) => document.removeEventListener(name, this.onActivity));
+    window.removeEventListener('storage', this.onStorage);
+    this._remainingMs.set(null);
+  }
+
+  private recordActivity(force = false): void {
+    const now = Date.now();
+    this.lastActivity = now;
+
+    if (this._remainingMs() !== null) {
+      this._remainingMs.set(null);
+    }
+
+    if (force || now - this.lastPersisted >= this.ACTIVITY_THROTTLE_MS) {
+      this.lastPersisted = now;
+      try {
+        localStorage.setItem(this.ACTIVITY_KEY, String(now));
+      } catch {
+        // Sem armazenamento a atividade só vale para esta aba
+      }
+    }
+  }
+
+  private tick(): void {
+    const { idleLogoutMs, idleWarningMs } = this.config.timeouts;
+    const remaining = idleLogoutMs - (Date.now() - this.lastActivity);
+
+    if (remaining <= 0) {
+      this.ngZone.run(() => this.logoutForInactivity());
+      return;
+    }
+
+    this._remainingMs.set(remaining <= idleWarningMs ? remaining : null);
+  }
+
+  private logoutForInactivity(): void {
+    this.stop();
+    this.toastService.info(this.i18n.t('idle.loggedOut'));
+    void this.authService.logout();
+  }
+}
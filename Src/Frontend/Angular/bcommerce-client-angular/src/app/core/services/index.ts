@@ -1,4 +1,23 @@
 /**
  * Barrel export para todos os services
  */
-export * from './auth.service';
\ No newline at end of file
+export * from './address.service';
+export * from './api-client.service';
+export * from './auth.service';
+export * from './card.service';
+export * from './card-tokenizer';
+export * from './cart.service';
+export * from './cart-drawer.service';
+export * from './catalog.service';
+export * from './cep-lookup';
+export * from './checkout.service';
+export * from './coupon.service';
+export * from './favorites.service';
+export * from './i18n.service';
+export * from './idle.service';
+export * from './notifications.service';
+export * from './orders.service';
+export * from './payment-provider';
+export * from './search.service';
+export * from './security.service';
+export * from './token-storage';
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { Router } from '@angular/router';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+import { ToastService } from './toast.service';
+import { I18nService } from './i18n.service';
+import { APP_CONFIG } from '../config/app-config';
+import { ApiResponse, AppNotification, PagedResult, UnreadNotificationsCount } from '../models';
+
+/**
+ * Central de notificações do usuário autenticado
+ *
+ * O total de não lidas é consultado a cada `notificationsPollMs` enquanto a aba
+ * está visível. Quando aumenta, a lista do sino é recarregada e um toast avisa
+ * da novidade. Marcar como lida atualiza o sino na hora e volta ao estado
+ * anterior se a API recusar.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationsService {
+  private readonly api = inject(ApiClient);
+  private readonly authService = inject(AuthService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  private readonly router = inject(Router);
+  private readonly config = inject(APP_CONFIG);
+
+  // Itens por página no sino do header
+  readonly DROPDOWN_PAGE_SIZE = 5;
+
+  private readonly _unreadCount = signal(0);
+  private readonly _items = signal<AppNotification[]>([]);
+  private readonly _page = signal(0);
+  private readonly _hasMore = signal(false);
+  private readonly _isLoading = signal(false);
+
+  readonly unreadCount = this._unreadCount.asReadonly();
+  readonly items = this._items.asReadonly();
+  readonly hasMore = this._hasMore.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly hasUnread = computed(() => this._unreadCount() > 0);
+
+  private poller: ReturnType<typeof setInterval> | null = null;
+  // Evita o toast de "nova notificação" na primeira consulta após o login
+  private hasChecked = false;
+
+  private readonly onVisibilityChange = () => {
+    if (!document.hidden) void this.checkUnread();
+  };
+
+  private readonly userId = computed(() =>
+    this.authService.isAuthenticated() ? this.authService.currentUser()?.id ?? null : null
+  );
+
+  constructor() {
+    effect(() => {
+      const userId = this.userId();
+      untracked(() => {
+        this.stop();
+        this.clear();
+        if (userId) {
+          this.start();
+        }
+      });
+    });
+  }
+
+  /**
+   * Lista paginada, das mais recentes para as mais antigas
+   */
+  getNotifications(pageNumber: number, pageSize: number): Promise<ApiResponse<PagedResult<AppNotification>>> {
+    return this.api.get<PagedResult<AppNotification>>('notifications', '', { params: { pageNumber, pageSize } });
+  }
+
+  /**
+   * Recarrega a primeira página do sino
+   */
+  async refresh(): Promise<void> {
+    await this.loadPage(1);
+  }
+
+  /**
+   * Anexa a próxima página ao sino
+   */
+  async loadMore(): Promise<void> {
+    if (!this._hasMore() || this._isLoading()) return;
+    await this.loadPage(this._page() + 1);
+  }
+
+  async markAsRead(notification: AppNotification): Promise<ApiResponse<void>> {
+    if (notification.readAt) return { success: true };
+
+    const readAt = new Date().toISOString();
+    const previousItems = this._items();
+    const previousCount = this._unreadCount();
+    this._items.set(previousItems.map((item) => (item.id === notification.id ? { ...item, readAt } : item)));
+    this._unreadCount.set(Math.max(0, previousCount - 1));
+
+    const response = await this.api.put<void>('notifications', `/${notification.id}/read`, {});
+    if (!response.success) {
+      this._items.set(previousItems);
+      this._unreadCount.set(previousCount);
+      this.toastService.error(response.message || this.i18n.t('notifications.markAsReadFailed'));
+    }
+    return response;
+  }
+
+  async markAllAsRead(): Promise<ApiResponse<void>> {
+    const readAt = new Date().toISOString();
+    const previousItems = this._items();
+    const previousCount = this._unreadCount();
+    this._items.set(previousItems.map((item) => (item.readAt ? item : { ...item, readAt })));
+    this._unreadCount.set(0);
+
+    const response = await this.api.put<void>('notifications', '/read-all', {});
+    if (!response.success) {
+      this._items.set(previousItems);
+      this._unreadCount.set(previousCount);
+      this.toastService.error(response.message || this.i18n.t('notifications.markAllAsReadFailed'));
+    }
+    return response;
+  }
+
+  /**
+   * Consulta o total de não lidas e avisa quando chegou algo novo
+   */
+  async checkUnread(): Promise<void> {
+    const userId = this.userId();
+    if (!userId) return;
+
+    const response = await this.api.get<UnreadNotificationsCount>('notifications', '/unread-count');
+    if (!response.success || !response.data || this.userId() !== userId) return;
+
+    const count = response.data.count;
+    const previous = this.hasChecked ? this._unreadCount() : null;
+    this.hasChecked = true;
+    this._unreadCount.set(count);
+
+    if (previous !== null && count > previous) {
+      await this.refresh();
+      this.announce(count - previous);
+    }
+  }
+
+  private start(): void {
+    void this.checkUnread();
+    void this.refresh();
+
+    const interval = this.config.timeouts.notificationsPollMs;
+    if (interval > 0) {
+      this.poller = setInterval(() => {
+        if (!document.hidden) void this.checkUnread();
+      }, interval);
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+  }
+
+  private stop(): void {
+    if (this.poller) {
+      clearInterval(this.poller);
+      this.poller = null;
+    }
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  private clear(): void {
+    this.hasChecked = false;
+    this._unreadCount.set(0);
+    this._items.set([]);
+    this._page.set(0);
+    this._hasMore.set(false);
+  }
+
+  private async loadPage(pageNumber: number): Promise<void> {
+    const userId = this.userId();
+    if (!userId) return;
+
+    this._isLoading.set(true);
+    try {
+      const response = await this.getNotifications(pageNumber, this.DROPDOWN_PAGE_SIZE);
+      if (!response.success || !response.data || this.userId() !== userId) return;
+
+      const page = response.data;
+      this._items.update((items) => {
+        if (pageNumber === 1) return page.items;
+        const known = new Set(items.map((item) => item.id));
+        return [...items, ...page.items.filter((item) => !known.has(item.id))];
+      });
+      this._page.set(page.pageNumber);
+      this._hasMore.set(page.hasNext);
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  private announce(newCount: number): void {
+    const latest = this._items().find((item) => !item.readAt);
+    const message =
+      newCount === 1 && latest
+        ? latest.subject || this.i18n.t('notifications.new.one')
+        : this.i18n.t('notifications.new.other', { count: newCount });
+
+    this.toastService.info(message, {
+      action: {
+        label: this.i18n.t('notifications.view'),
+        run: () => void this.router.navigateByUrl(newCount === 1 && latest?.link ? latest.link : '/notifications')
+      }
+    });
+  }
+}
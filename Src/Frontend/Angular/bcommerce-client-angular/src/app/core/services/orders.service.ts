@@ -0,0 +1,66 @@
+import { Injectable, inject } from '@angular/core';
+import { ApiClient } from './api-client.service';
+import {
+  ApiResponse,
+  CreateOrderRequest,
+  Order,
+  OrderDetail,
+  OrderListQuery,
+  PagedResult,
+  ShippingOption,
+  ShippingQuoteRequest
+} from '../models';
+
+/**
+ * Frete e pedidos do usuário autenticado
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OrdersService {
+  private readonly api = inject(ApiClient);
+
+  /**
+   * Opções de frete para o CEP e os itens informados, da mais barata para a mais cara
+   */
+  getShippingOptions(data: ShippingQuoteRequest): Promise<ApiResponse<ShippingOption[]>> {
+    return this.api.post<ShippingOption[]>('orders', '/shipping/quote', data);
+  }
+
+  /**
+   * Cria o pedido com os itens do carrinho do servidor
+   */
+  createOrder(data: CreateOrderRequest): Promise<ApiResponse<Order>> {
+    return this.api.post<Order>('orders', '', data);
+  }
+
+  /**
+   * Histórico paginado, dos pedidos mais recentes para os mais antigos
+   */
+  getOrders(query: OrderListQuery): Promise<ApiResponse<PagedResult<Order>>> {
+    const params: Record<string, string | number> = {
+      pageNumber: query.pageNumber,
+      pageSize: query.pageSize
+    };
+
+    if (query.status) params['status'] = query.status;
+    if (query.from) params['from'] = query.from;
+    if (query.to) params['to'] = query.to;
+
+    return this.api.get<PagedResult<Order>>('orders', '', { params });
+  }
+
+  /**
+   * Pedido pelo número exibido ao cliente, com histórico e rastreamento
+   */
+  getOrderByNumber(orderNumber: string): Promise<ApiResponse<OrderDetail>> {
+    return this.api.get<OrderDetail>('orders', `/${encodeURIComponent(orderNumber)}`);
+  }
+
+  /**
+   * Cancela o pedido (permitido apenas antes do envio)
+   */
+  cancelOrder(id: string, reason?: string): Promise<ApiResponse<OrderDetail>> {
+    return this.api.post<OrderDetail>('orders', `/${id}/cancel`, { reason: reason ?? null });
+  }
+}
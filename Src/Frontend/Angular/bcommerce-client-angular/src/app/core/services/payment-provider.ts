@@ -0,0 +1,308 @@
+import { InjectionToken, inject } from '@angular/core';
+import { APP_CONFIG } from '../config/app-config';
+import { ApiClient } from './api-client.service';
+import { I18nService } from './i18n.service';
+import { BoletoCharge, Order, PaymentCharge, PaymentStatus, PixCharge } from '../models';
+import { chargeExpiresAt, paymentStatusFromOrder } from '../utils/payment.utils';
+import { toCents } from '../utils/money.utils';
+
+/**
+ * Emissão e acompanhamento das cobranças PIX e boleto do pedido
+ * Implementações alternativas (ex.: fake local em testes) são fornecidas via PAYMENT_PROVIDER
+ */
+export abstract class PaymentProvider {
+  /**
+   * Cobrança em aberto do pedido; uma nova é emitida se não houver ou se a anterior expirou
+   * @throws Error com mensagem para o usuário quando a cobrança não pode ser emitida
+   */
+  abstract getCharge(order: Order): Promise<PaymentCharge>;
+
+  /**
+   * Situação atual da cobrança; falhas de consulta são tratadas como "pending"
+   */
+  abstract getStatus(order: Order, charge: PaymentCharge): Promise<PaymentStatus>;
+}
+
+/**
+ * Cobranças emitidas pelo backend (orders-service), que guarda o id do gateway no pedido
+ * O pagamento é confirmado quando o pedido sai de PENDING_PAYMENT
+ */
+export class ApiPaymentProvider extends PaymentProvider {
+  constructor(
+    private readonly api: ApiClient,
+    private readonly i18n: I18nService
+  ) {
+    super();
+  }
+
+  async getCharge(order: Order): Promise<PaymentCharge> {
+    const response = await this.api.post<PaymentCharge>('orders', `/${order.id}/payment`, {});
+    if (!response.success || !response.data) {
+      throw new Error(response.message || this.i18n.t('orderConfirmation.chargeFailed'));
+    }
+    return response.data;
+  }
+
+  async getStatus(order: Order, charge: PaymentCharge): Promise<PaymentStatus> {
+    const response = await this.api.get<Order>('orders', `/${encodeURIComponent(order.orderNumber)}`);
+    if (!response.success || !response.data) return 'pending';
+
+    const status = paymentStatusFromOrder(response.data.status);
+    return status === 'pending' && Date.now() > chargeExpiresAt(charge) ? 'expired' : status;
+  }
+}
+
+export interface FakePaymentOptions {
+  /** Tempo até o pagamento ser dado como confirmado */
+  confirmAfterMs?: number;
+  /** Validade do QR code PIX */
+  pixExpiresInMs?: number;
+  /** Dias até o vencimento do boleto */
+  boletoDueDays?: number;
+}
+
+/**
+ * Provedor local, sem gateway: emite cobranças fictícias e confirma o pagamento
+ * sozinho após `confirmAfterMs` (20 s por padrão), para percorrer o fluxo offline
+ * O QR code é ilustrativo (não é lido por apps de banco); o copia e cola e a linha
+ * digitável seguem o formato real, com dígitos verificadores válidos.
+ */
+export class FakePaymentProvider extends PaymentProvider {
+  private readonly charges = new Map<string, { charge: PaymentCharge; issuedAt: number }>();
+
+  constructor(private readonly options: FakePaymentOptions = {}) {
+    super();
+  }
+
+  async getCharge(order: Order): Promise<PaymentCharge> {
+    const existing = this.charges.get(order.id);
+    if (existing && Date.now() <= chargeExpiresAt(existing.charge)) {
+      return existing.charge;
+    }
+
+    const charge = order.paymentMethod === 'boleto' ? this.issueBoleto(order) : this.issuePix(order);
+    this.charges.set(order.id, { charge, issuedAt: Date.now() });
+    return charge;
+  }
+
+  async getStatus(order: Order, charge: PaymentCharge): Promise<PaymentStatus> {
+    if (order.status !== 'PENDING_PAYMENT') return paymentStatusFromOrder(order.status);
+
+    const issued = this.charges.get(order.id);
+    if (!issued || issued.charge.gatewayId !== charge.gatewayId) return 'expired';
+    if (Date.now() > chargeExpiresAt(charge)) return 'expired';
+
+    return Date.now() - issued.issuedAt >= (this.options.confirmAfterMs ?? 20_000) ? 'confirmed' : 'pending';
+  }
+
+  private issuePix(order: Order): PixCharge {
+    const gatewayId = `fake_pix_${crypto.randomUUID()}`;
+    const copyPasteCode = buildPixCode(order.totalAmount, order.orderNumber);
+
+    return {
+      method: 'pix',
+      gatewayId,
+      amount: order.totalAmount,
+      qrCodeImage: buildQrPlaceholder(copyPasteCode),
+      copyPasteCode,
+      expiresAt: new Date(Date.now() + (this.options.pixExpiresInMs ?? 30 * 60_000)).toISOString()
+    };
+  }
+
+  private issueBoleto(order: Order): BoletoCharge {
+    const due = new Date();
+    due.setDate(due.getDate() + (this.options.boletoDueDays ?? 3));
+    const dueDate = `${due.getFullYear()}-${String(due.getMonth() + 1).padStart(2, '0')}-${String(due.getDate()).padStart(2, '0')}`;
+    const digitableLine = buildBoletoLine(order.totalAmount, due, order.orderNumber);
+
+    return {
+      method: 'boleto',
+      gatewayId: `fake_boleto_${crypto.randomUUID()}`,
+      amount: order.totalAmount,
+      digitableLine,
+      pdfUrl: buildBoletoPdf(order, digitableLine, dueDate),
+      dueDate
+    };
+  }
+}
+
+/**
+ * Provedor em uso
+ * O padrão é o backend; o FakePaymentProvider só é usado com `features.fakePayments`
+ */
+export const PAYMENT_PROVIDER = new InjectionToken<PaymentProvider>('PAYMENT_PROVIDER', {
+  providedIn: 'root',
+  factory: () =>
+    inject(APP_CONFIG).features.fakePayments
+      ? new FakePaymentProvider()
+      : new ApiPaymentProvider(inject(ApiClient), inject(I18nService))
+});
+
+// --- Geradores do provedor fictício ---
+
+/**
+ * BR Code (padrão EMV do PIX) com chave aleatória e CRC16 no final
+ */
+function buildPixCode(amount: number, orderNumber: string): string {
+  const field = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+  const txid = orderNumber.replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || '***';
+
+  const payload =
+    field('00', '01') +
+    field('26', field('00', 'br.gov.bcb.pix') + field('01', crypto.randomUUID())) +
+    field('52', '0000') +
+    field('53', '986') +
+    field('54', (toCents(amount) / 100).toFixed(2)) +
+    field('58', 'BR') +
+    field('59', 'BCOMMERCE') +
+    field('60', 'SAO PAULO') +
+    field('62', field('05', txid)) +
+    '6304';
+
+  return payload + crc16(payload);
+}
+
+function crc16(text: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Imagem SVG com cara de QR code, derivada do texto (não é um QR code válido)
+ */
+function buildQrPlaceholder(text: string): string {
+  const size = 25;
+  let seed = [...text].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed / 0x100000000;
+  };
+
+  const isFinder = (x: number, y: number) =>
+    (x < 8 && y < 8) || (x >= size - 8 && y < 8) || (x < 8 && y >= size - 8);
+
+  const cells: string[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isFinder(x, y) && random() < 0.5) cells.push(`M${x} ${y}h1v1h-1z`);
+    }
+  }
+
+  const finder = (x: number, y: number) =>
+    `<path d="M${x} ${y}h7v7h-7z M${x + 1} ${y + 1}v5h5v-5z" fill-rule="evenodd"/><path d="M${x + 2} ${y + 2}h3v3h-3z"/>`;
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="-2 -2 ${size + 4} ${size + 4}" shape-rendering="crispEdges">` +
+    `<rect x="-2" y="-2" width="${size + 4}" height="${size + 4}" fill="#fff"/>` +
+    `<path d="${cells.join('')}"/>` +
+    finder(0, 0) +
+    finder(size - 7, 0) +
+    finder(0, size - 7) +
+    '</svg>';
+
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+}
+
+/**
+ * Linha digitável de um boleto do Banco do Brasil (001) com dígitos verificadores válidos
+ */
+function buildBoletoLine(amount: number, dueDate: Date, orderNumber: string): string {
+  const bank = '0019';
+  const factor = String(dueDateFactor(dueDate)).padStart(4, '0');
+  const value = String(toCents(amount)).padStart(10, '0').slice(-10);
+  const digits = orderNumber.replace(/\D/g, '');
+  const free = (digits + String(Date.now())).padStart(25, '0').slice(-25);
+
+  const generalDv = mod11(bank + factor + value + free);
+
+  const block = (text: string) => text + mod10(text);
+  const field1 = block(bank + free.slice(0, 5));
+  const field2 = block(free.slice(5, 15));
+  const field3 = block(free.slice(15, 25));
+
+  return [
+    `${field1.slice(0, 5)}.${field1.slice(5)}`,
+    `${field2.slice(0, 5)}.${field2.slice(5)}`,
+    `${field3.slice(0, 5)}.${field3.slice(5)}`,
+    generalDv,
+    factor + value
+  ].join(' ');
+}
+
+/**
+ * Fator de vencimento: dias desde 07/10/1997, reiniciado em 1000 a cada 9000 dias
+ */
+function dueDateFactor(date: Date): number {
+  const base = Date.UTC(1997, 9, 7);
+  const days = Math.floor((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - base) / 86_400_000);
+  return ((days - 1000) % 9000) + 1000;
+}
+
+function mod10(digits: string): string {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += Math.floor(product / 10) + (product % 10);
+    weight = weight === 2 ? 1 : 2;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+function mod11(digits: string): string {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const dv = 11 - (sum % 11);
+  return String(dv === 0 || dv >= 10 ? 1 : dv);
+}
+
+/**
+ * PDF de uma página com os dados do boleto, como data URL
+ */
+function buildBoletoPdf(order: Order, digitableLine: string, dueDate: string): string {
+  const [year, month, day] = dueDate.split('-');
+  const lines = [
+    'BCommerce - Boleto ficticio (ambiente de testes)',
+    `Pedido: ${order.orderNumber}`,
+    `Valor: R$ ${(toCents(order.totalAmount) / 100).toFixed(2).replace('.', ',')}`,
+    `Vencimento: ${day}/${month}/${year}`,
+    `Linha digitavel: ${digitableLine}`
+  ];
+
+  const text = lines
+    .map((line, index) => `BT /F1 12 Tf 50 ${780 - index * 24} Td (${line.replace(/[()\\]/g, '\\$&')}) Tj ET`)
+    .join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< /Length ${text.length} >>\nstream\n${text}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return `data:application/pdf;base64,${btoa(pdf)}`;
+}
@@ -0,0 +1,163 @@
+import { DestroyRef, Injectable, computed, effect, inject, signal } from '@angular/core';
+import { Subject, combineLatest, debounceTime, distinctUntilChanged, from, map, of, switchMap } from 'rxjs';
+import { AuthService } from './auth.service';
+import { CatalogService } from './catalog.service';
+import { Category, Product } from '../models';
+import { normalizeText } from '../utils/text.utils';
+
+/**
+ * Sugestões exibidas no typeahead da busca
+ */
+export interface SearchSuggestions {
+  term: string;
+  products: Product[];
+  categories: Category[];
+}
+
+/**
+ * Busca do header: sugestões com debounce e buscas recentes por usuário
+ *
+ * Cada termo digitado cancela a requisição anterior (switchMap sobre o get$ do
+ * ApiClient), então respostas lentas nunca sobrescrevem um termo mais novo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchService {
+  private readonly catalogService = inject(CatalogService);
+  private readonly authService = inject(AuthService);
+
+  private readonly RECENT_KEY_PREFIX = 'recent_searches';
+  private readonly MAX_RECENT = 8;
+  private readonly DEBOUNCE_MS = 250;
+  private readonly MIN_TERM_LENGTH = 2;
+  private readonly MAX_PRODUCT_SUGGESTIONS = 5;
+  private readonly MAX_CATEGORY_SUGGESTIONS = 3;
+
+  private readonly terms$ = new Subject<string>();
+  // Categorias mudam pouco: carregadas uma vez e filtradas no client
+  private categories: Promise<Category[]> | null = null;
+
+  private readonly _suggestions = signal<SearchSuggestions | null>(null);
+  private readonly _isLoading = signal(false);
+  private readonly _recentSearches = signal<string[]>([]);
+
+  readonly suggestions = this._suggestions.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly recentSearches = this._recentSearches.asReadonly();
+  readonly minTermLength = this.MIN_TERM_LENGTH;
+
+  // Buscas recentes ficam separadas por usuário; visitantes compartilham a chave "guest"
+  private readonly recentKey = computed(
+    () => `${this.RECENT_KEY_PREFIX}:${this.authService.currentUser()?.id ?? 'guest'}`
+  );
+
+  constructor() {
+    effect(() => this._recentSearches.set(this.readRecent(this.recentKey())));
+
+    const subscription = this.terms$
+      .pipe(
+        map((term) => term.trim()),
+        debounceTime(this.DEBOUNCE_MS),
+        distinctUntilChanged(),
+        switchMap((term) => {
+          if (term.length < this.MIN_TERM_LENGTH) {
+            this._isLoading.set(false);
+            return of(null);
+          }
+
+          this._isLoading.set(true);
+          return combineLatest([
+            this.catalogService.searchProducts$(term, this.MAX_PRODUCT_SUGGESTIONS),
+            from(this.matchCategories(term))
+          ]).pipe(
+            map(([products, categories]): SearchSuggestions => ({
+              term,
+              products: products.success ? products.data?.items ?? [] : [],
+              categories
+            }))
+          );
+        })
+      )
+      .subscribe((suggestions) => {
+        this._suggestions.set(suggestions);
+        this._isLoading.set(false);
+      });
+
+    inject(DestroyRef).onDestroy(() => subscription.unsubscribe());
+  }
+
+  /**
+   * Informa o termo digitado; as sugestões chegam em `suggestions`
+   */
+  suggest(term: string): void {
+    this.terms$.next(term);
+  }
+
+  /**
+   * Limpa as sugestões (ex.: ao fechar o dropdown)
+   */
+  clearSuggestions(): void {
+    this.terms$.next('');
+    this._suggestions.set(null);
+  }
+
+  /**
+   * Registra uma busca realizada, movendo-a para o topo das recentes
+   */
+  addRecent(term: string): void {
+    const normalized = term.trim();
+    if (!normalized) return;
+
+    const recent = [
+      normalized,
+      ...this._recentSearches().filter((item) => item.toLowerCase() !== normalized.toLowerCase())
+    ].slice(0, this.MAX_RECENT);
+
+    this.writeRecent(recent);
+  }
+
+  removeRecent(term: string): void {
+    this.writeRecent(this._recentSearches().filter((item) => item !== term));
+  }
+
+  clearRecent(): void {
+    this.writeRecent([]);
+  }
+
+  private async matchCategories(term: string): Promise<Category[]> {
+    if (!this.categories) {
+      this.categories = this.catalogService.getCategories().then((response) => {
+        if (!response.success) {
+          // Não guarda falhas: a próxima busca tenta novamente
+          this.categories = null;
+        }
+        return (response.data ?? []).filter((category) => category.isActive);
+      });
+    }
+
+    const normalized = normalizeText(term);
+    const categories = await this.categories;
+    return categories
+      .filter((category) => normalizeText(category.name).includes(normalized))
+      .slice(0, this.MAX_CATEGORY_SUGGESTIONS);
+  }
+
+  private readRecent(key: string): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeRecent(recent: string[]): void {
+    this._recentSearches.set(recent);
+    try {
+      localStorage.setItem(this.recentKey(), JSON.stringify(recent));
+    } catch {
+      // Sem armazenamento disponível as recentes valem apenas para esta sessão
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, inject } from '@angular/core';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+import { ApiResponse, OperationResponse, PagedResult, SecurityLogEntry, SecurityLogQuery, UserSession } from '../models';
+
+/**
+ * Sessões ativas e eventos de segurança do usuário autenticado
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SecurityService {
+  private readonly api = inject(ApiClient);
+  private readonly authService = inject(AuthService);
+
+  /**
+   * Sessões ativas, a mais recente primeiro
+   */
+  getSessions(): Promise<ApiResponse<UserSession[]>> {
+    return this.api.get<UserSession[]>('auth', '/sessions');
+  }
+
+  /**
+   * Encerra outra sessão; para sair deste navegador use AuthService.logout
+   */
+  revokeSession(id: string): Promise<ApiResponse<OperationResponse>> {
+    return this.api.delete<OperationResponse>('auth', `/sessions/${id}`);
+  }
+
+  /**
+   * Encerra todas as sessões menos a deste navegador
+   * O refresh token atual identifica a sessão que deve ser mantida
+   */
+  revokeOtherSessions(): Promise<ApiResponse<OperationResponse>> {
+    return this.api.post<OperationResponse>('auth', '/sessions/revoke-others', {
+      refreshToken: this.authService.tokens()?.refreshToken
+    });
+  }
+
+  /**
+   * Eventos de segurança paginados, dos mais recentes para os mais antigos
+   */
+  getSecurityLogs(query: SecurityLogQuery): Promise<ApiResponse<PagedResult<SecurityLogEntry>>> {
+    const params: Record<string, string | number> = {
+      pageNumber: query.pageNumber,
+      pageSize: query.pageSize
+    };
+    if (query.eventType) params['eventType'] = query.eventType;
+
+    return this.api.get<PagedResult<SecurityLogEntry>>('auth', '/security-logs', { params });
+  }
+}
@@ -2,10 +2,32 @@ import { Injectable, signal } from '@angular/core';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+/**
+ * Botão exibido no toast (ex.: "Desfazer"); clicar executa a ação e fecha o toast
+ */
+export interface ToastAction {
+  label: string;
+  run: () => void;
+}
+
+export interface ToastOptions {
+  /** Tempo em tela (ms); 0 mantém o toast até o usuário fechar */
+  duration?: number;
+  action?: ToastAction;
+}
+
 export interface Toast {
   id: string;
   type: ToastType;
   message: string;
+  duration: number;
+  action?: ToastAction;
+}
+
+interface ToastTimer {
+  handle: ReturnType<typeof setTimeout> | null;
+  remaining: number;
+  startedAt: number;
 }
 
 @Injectable({
@@ -15,35 +37,108 @@ export class ToastService {
   private readonly _toasts = signal<Toast[]>([]);
   readonly toasts = this._toasts.asReadonly();
 
-  private show(type: ToastType, message: string): void {
+  // Erros e toasts com ação ficam mais tempo para dar tempo de ler e reagir
+  private readonly DEFAULT_DURATION = 3000;
+  private readonly LONG_DURATION = 6000;
+
+  private readonly timers = new Map<string, ToastTimer>();
+  private sequence = 0;
+
+  /**
+   * Exibe o toast e devolve seu id
+   * Uma mensagem idêntica ainda em tela não é repetida: o toast existente reinicia o tempo
+   */
+  private show(type: ToastType, message: string, options: ToastOptions = {}): string {
+    const duration =
+      options.duration ?? (type === 'error' || options.action ? this.LONG_DURATION : this.DEFAULT_DURATION);
+
+    const duplicate = this._toasts().find((toast) => toast.type === type && toast.message === message);
+    if (duplicate) {
+      this._toasts.update((toasts) =>
+        toasts.map((toast) => (toast.id === duplicate.id ? { ...toast, duration, action: options.action } : toast))
+      );
+      this.startTimer(duplicate.id, duration);
+      return duplicate.id;
+    }
+
     const toast: Toast = {
-      id: Date.now().toString(),
+      id: `toast-${++this.sequence}`,
       type,
       message,
+      duration,
+      action: options.action,
     };
 
     this._toasts.update((toasts) => [...toasts, toast]);
-
-    setTimeout(() => this.remove(toast.id), 3000);
+    this.startTimer(toast.id, duration);
+    return toast.id;
   }
-  
+
   remove(id: string): void {
+    this.clearTimer(id);
     this._toasts.update((toasts) => toasts.filter((t) => t.id !== id));
   }
-  
-  success(message: string): void {
-    this.show('success', message);
+
+  /**
+   * Executa a ação do toast e o fecha
+   */
+  runAction(id: string): void {
+    const toast = this._toasts().find((t) => t.id === id);
+    this.remove(id);
+    toast?.action?.run();
+  }
+
+  /**
+   * Congela a contagem enquanto o mouse está sobre o toast
+   */
+  pause(id: string): void {
+    const timer = this.timers.get(id);
+    if (!timer?.handle) return;
+
+    clearTimeout(timer.handle);
+    timer.handle = null;
+    timer.remaining = Math.max(0, timer.remaining - (Date.now() - timer.startedAt));
   }
 
-  error(message: string): void {
-    this.show('error', message);
+  resume(id: string): void {
+    const timer = this.timers.get(id);
+    if (!timer || timer.handle) return;
+
+    this.startTimer(id, timer.remaining);
   }
 
-  warning(message: string): void {
-    this.show('warning', message);
+  success(message: string, options?: ToastOptions): string {
+    return this.show('success', message, options);
+  }
+
+  error(message: string, options?: ToastOptions): string {
+    return this.show('error', message, options);
+  }
+
+  warning(message: string, options?: ToastOptions): string {
+    return this.show('warning', message, options);
+  }
+
+  info(message: string, options?: ToastOptions): string {
+    return this.show('info', message, options);
+  }
+
+  private startTimer(id: string, duration: number): void {
+    this.clearTimer(id);
+    if (duration <= 0) return;
+
+    this.timers.set(id, {
+      handle: setTimeout(() => this.remove(id), duration),
+      remaining: duration,
+      startedAt: Date.now(),
+    });
   }
 
-  info(message: string): void {
-    this.show('info', message);
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer?.handle) {
+      clearTimeout(timer.handle);
+    }
+    this.timers.delete(id);
   }
 }
@@ -0,0 +1,91 @@
+import { InjectionToken } from '@angular/core';
+
+/**
+ * Onde a sessão (tokens e usuário) é persistida
+ * - memory: apenas enquanto a aba estiver aberta, sem sobreviver a um reload
+ * - session: sessionStorage, restrito à aba atual
+ * - local: localStorage, compartilhado entre abas e mantido após fechar o navegador
+ */
+export type TokenStorageStrategy = 'memory' | 'session' | 'local';
+
+/**
+ * Armazenamento chave/valor usado pelo AuthService
+ * Implementações alternativas (ex.: fakes em testes) são fornecidas via TOKEN_STORAGES
+ */
+export abstract class TokenStorage {
+  abstract readonly strategy: TokenStorageStrategy;
+  abstract getItem(key: string): string | null;
+  abstract setItem(key: string, value: string): void;
+  abstract removeItem(key: string): void;
+}
+
+/**
+ * Mantém os valores apenas em memória
+ */
+export class MemoryTokenStorage extends TokenStorage {
+  readonly strategy: TokenStorageStrategy = 'memory';
+  private readonly values = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Adaptador para localStorage/sessionStorage
+ * Se o navegador bloquear o acesso (modo privado, cookies desativados), cai para memória
+ */
+export class WebTokenStorage extends TokenStorage {
+  private readonly fallback = new MemoryTokenStorage();
+
+  constructor(
+    readonly strategy: Exclude<TokenStorageStrategy, 'memory'>,
+    private readonly storage: () => Storage
+  ) {
+    super();
+  }
+
+  getItem(key: string): string | null {
+    try {
+      return this.storage().getItem(key);
+    } catch {
+      return this.fallback.getItem(key);
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    try {
+      this.storage().setItem(key, value);
+    } catch {
+      this.fallback.setItem(key, value);
+    }
+  }
+
+  removeItem(key: string): void {
+    try {
+      this.storage().removeItem(key);
+    } catch {
+      this.fallback.removeItem(key);
+    }
+  }
+}
+
+/**
+ * Implementações disponíveis, uma por estratégia
+ */
+export const TOKEN_STORAGES = new InjectionToken<Record<TokenStorageStrategy, TokenStorage>>('TOKEN_STORAGES', {
+  providedIn: 'root',
+  factory: () => ({
+    memory: new MemoryTokenStorage(),
+    session: new WebTokenStorage('session', () => sessionStorage),
+    local: new WebTokenStorage('local', () => localStorage)
+  })
+});
@@ -0,0 +1,39 @@
+import { Address, AddressSnapshot } from '../models';
+
+/**
+ * CEP somente com dígitos
+ */
+export function normalizeZipCode(zipCode: string): string {
+  return zipCode.replace(/\D/g, '');
+}
+
+/**
+ * Aplica a máscara 00000-000 enquanto o CEP é digitado
+ */
+export function maskZipCode(value: string): string {
+  const digits = normalizeZipCode(value).slice(0, 8);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+}
+
+/**
+ * CEP no formato 00000-000 (aceita entrada com ou sem máscara)
+ */
+export function formatZipCode(zipCode: string): string {
+  const digits = normalizeZipCode(zipCode);
+  return digits.length === 8 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : zipCode;
+}
+
+/**
+ * Rua, número e complemento em uma linha
+ */
+export function formatStreetLine(address: Address | AddressSnapshot): string {
+  const street = `${address.street}, ${address.number}`;
+  return address.complement ? `${street} - ${address.complement}` : street;
+}
+
+/**
+ * Bairro, cidade/UF e CEP em uma linha
+ */
+export function formatCityLine(address: Address | AddressSnapshot): string {
+  return `${address.neighborhood}, ${address.city}/${address.state} - CEP ${formatZipCode(address.zipCode)}`;
+}
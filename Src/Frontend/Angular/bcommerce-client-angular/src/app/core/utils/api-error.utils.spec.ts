@@ -0,0 +1,141 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { ApiErrorMessages, DEFAULT_ERROR_MESSAGES, parseErrorBody, toApiError } from './api-error.utils';
+
+// Corpos de erro como enviados pelos serviços .NET
+const PROBLEM_DETAILS = {
+  type: 'https://tools.ietf.org/html/rfc9110#section-15.5.5',
+  title: 'Not Found',
+  status: 404,
+  detail: 'Produto não encontrado',
+  traceId: '00-abc123-01'
+};
+
+const VALIDATION_PROBLEM_DETAILS = {
+  type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+  title: 'One or more validation errors occurred.',
+  status: 400,
+  errors: {
+    Email: ['Email inválido'],
+    '$.password': ['Senha muito curta', 'Senha deve conter um número']
+  },
+  traceId: '00-def456-01'
+};
+
+const BUILDING_BLOCKS_RESPONSE = {
+  success: false,
+  message: null,
+  errors: [{ message: 'Estoque insuficiente' }, { message: 'Cupom expirado' }],
+  code: 'CART_INVALID'
+};
+
+const TRANSLATED_MESSAGES: ApiErrorMessages = {
+  default: 'Server communication error',
+  network: 'Could not reach the server',
+  timeout: 'The server took too long to respond',
+  unexpected: 'Unexpected error'
+};
+
+describe('api-error.utils', () => {
+  describe('parseErrorBody', () => {
+    it('reads ProblemDetails detail and traceId', () => {
+      const error = parseErrorBody(404, PROBLEM_DETAILS);
+
+      expect(error.kind).toBe('not-found');
+      expect(error.status).toBe(404);
+      expect(error.message).toBe('Produto não encontrado');
+      expect(error.correlationId).toBe('00-abc123-01');
+    });
+
+    it('maps the ValidationProblemDetails errors map to field errors', () => {
+      const error = parseErrorBody(400, VALIDATION_PROBLEM_DETAILS);
+
+      expect(error.kind).toBe('validation');
+      if (error.kind !== 'validation') return;
+      expect(error.fieldErrors).toEqual({
+        Email: ['Email inválido'],
+        password: ['Senha muito curta', 'Senha deve conter um número']
+      });
+      expect(error.message).toBe('Email inválido');
+      expect(error.messages).toEqual(['Email inválido', 'Senha muito curta', 'Senha deve conter um número']);
+    });
+
+    it('reads the BuildingBlocks ApiResponse errors list', () => {
+      const error = parseErrorBody(422, BUILDING_BLOCKS_RESPONSE);
+
+      expect(error.kind).toBe('business');
+      expect(error.message).toBe('Estoque insuficiente');
+      expect(error.messages).toEqual(['Estoque insuficiente', 'Cupom expirado']);
+      expect(error.code).toBe('CART_INVALID');
+    });
+
+    it('reads the code of the first ApiResponse error when there is no top-level code', () => {
+      const error = parseErrorBody(400, {
+        success: false,
+        errors: [{ message: 'A nova senha deve ser diferente da senha atual.', code: 'SAME_PASSWORD' }]
+      });
+
+      expect(error.kind).toBe('business');
+      expect(error.code).toBe('SAME_PASSWORD');
+    });
+
+    it('prefers the explicit correlation id over the traceId', () => {
+      expect(parseErrorBody(404, PROBLEM_DETAILS, 'corr-1').correlationId).toBe('corr-1');
+    });
+
+    it('classifies by status when the body has no field errors', () => {
+      expect(parseErrorBody(401, {}).kind).toBe('unauthorized');
+      expect(parseErrorBody(403, {}).kind).toBe('forbidden');
+      expect(parseErrorBody(500, {}).kind).toBe('server');
+      expect(parseErrorBody(409, {}).kind).toBe('business');
+    });
+
+    it('falls back to the default message for empty bodies', () => {
+      expect(parseErrorBody(500, null).message).toBe(DEFAULT_ERROR_MESSAGES.default);
+      expect(parseErrorBody(500, '', undefined, TRANSLATED_MESSAGES).message).toBe(TRANSLATED_MESSAGES.default);
+    });
+
+    it('uses a plain text body as the message', () => {
+      expect(parseErrorBody(502, 'Bad Gateway').message).toBe('Bad Gateway');
+    });
+  });
+
+  describe('toApiError', () => {
+    it('treats status 0 as a network error', () => {
+      const error = toApiError(new HttpErrorResponse({ status: 0, error: new ProgressEvent('error') }));
+
+      expect(error.kind).toBe('network');
+      expect(error.status).toBe(0);
+      expect(error.message).toBe(DEFAULT_ERROR_MESSAGES.network);
+    });
+
+    it('treats a TimeoutError as a network error with the timeout message', () => {
+      const timeout = new Error('Timeout has occurred');
+      timeout.name = 'TimeoutError';
+
+      const error = toApiError(timeout, TRANSLATED_MESSAGES);
+
+      expect(error.kind).toBe('network');
+      expect(error.message).toBe(TRANSLATED_MESSAGES.timeout);
+    });
+
+    it('parses the body of HTTP errors and reads the correlation header', () => {
+      const error = toApiError(
+        new HttpErrorResponse({
+          status: 400,
+          error: VALIDATION_PROBLEM_DETAILS,
+          headers: new HttpHeaders({ 'X-Correlation-Id': 'corr-2' })
+        })
+      );
+
+      expect(error.kind).toBe('validation');
+      expect(error.correlationId).toBe('corr-2');
+    });
+
+    it('wraps unknown errors as server errors', () => {
+      expect(toApiError(new Error('boom'))).toEqual(
+        jasmine.objectContaining({ kind: 'server', status: 0, message: 'boom' })
+      );
+      expect(toApiError('???').message).toBe(DEFAULT_ERROR_MESSAGES.unexpected);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { ApiError, ApiErrorKind, ApiFieldErrors } from '../models';
+
+const CORRELATION_HEADER = 'X-Correlation-Id';
+
+/**
+ * Mensagens usadas quando o backend não envia nenhuma (traduzidas pelo ApiClient)
+ */
+export interface ApiErrorMessages {
+  default: string;
+  network: string;
+  timeout: string;
+  unexpected: string;
+}
+
+export const DEFAULT_ERROR_MESSAGES: ApiErrorMessages = {
+  default: 'Erro na comunicação com o servidor',
+  network: 'Não foi possível conectar ao servidor. Verifique sua conexão.',
+  timeout: 'O servidor demorou para responder. Tente novamente.',
+  unexpected: 'Erro inesperado'
+};
+
+/**
+ * Converte qualquer erro de requisição em um ApiError
+ * Entende o ApiResponse do BuildingBlocks, ProblemDetails e ValidationProblemDetails do ASP.NET
+ */
+export function toApiError(error: unknown, fallback: ApiErrorMessages = DEFAULT_ERROR_MESSAGES): ApiError {
+  if (error instanceof HttpErrorResponse) {
+    if (error.status === 0) {
+      return {
+        kind: 'network',
+        status: 0,
+        message: fallback.network,
+        messages: [fallback.network]
+      };
+    }
+
+    return parseErrorBody(error.status, error.error, correlationIdFrom(error.headers), fallback);
+  }
+
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return {
+      kind: 'network',
+      status: 0,
+      message: fallback.timeout,
+      messages: [fallback.timeout]
+    };
+  }
+
+  const message = error instanceof Error && error.message ? error.message : fallback.unexpected;
+  return { kind: 'server', status: 0, message, messages: [message] };
+}
+
+/**
+ * Interpreta o corpo de uma resposta de erro (ou de um ApiResponse com success = false)
+ */
+export function parseErrorBody(
+  status: number,
+  body: unknown,
+  correlationId?: string,
+  fallback: ApiErrorMessages = DEFAULT_ERROR_MESSAGES
+): ApiError {
+  const source = isRecord(body) ? body : {};
+  const fieldErrors = readFieldErrors(source['errors']);
+  const itemMessages = readItemMessages(source['errors']);
+  const fieldMessages = Object.values(fieldErrors).flat();
+
+  const message =
+    (typeof body === 'string' && body.trim() ? body : undefined) ??
+    readString(source, 'message') ??
+    readString(source, 'Message') ??
+    itemMessages[0] ??
+    fieldMessages[0] ??
+    readString(source, 'detail') ??
+    readString(source, 'title') ??
+    fallback.default;
+
+  const messages = [...itemMessages, ...fieldMessages];
+  const base = {
+    status,
+    message,
+    messages: messages.length > 0 ? messages : [message],
+    code: readString(source, 'code') ?? readItemCodes(source['errors'])[0],
+    correlationId: correlationId ?? readString(source, 'traceId')
+  };
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { ...base, kind: 'validation', fieldErrors };
+  }
+
+  return { ...base, kind: kindFromStatus(status) };
+}
+
+function kindFromStatus(status: number): Exclude<ApiErrorKind, 'validation'> {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status >= 500) return 'server';
+  return 'business';
+}
+
+/**
+ * ValidationProblemDetails: { errors: { "Email": ["..."], "$.password": ["..."] } }
+ */
+function readFieldErrors(errors: unknown): ApiFieldErrors {
+  if (!isRecord(errors) || Array.isArray(errors)) return {};
+
+  const result: ApiFieldErrors = {};
+  for (const [key, value] of Object.entries(errors)) {
+    const messages = (Array.isArray(value) ? value : [value]).filter(
+      (item): item is string => typeof item === 'string'
+    );
+    if (messages.length > 0) {
+      result[key.replace(/^\$\./, '')] = messages;
+    }
+  }
+  return result;
+}
+
+/**
+ * ApiResponse do BuildingBlocks: { errors: [{ message: "..." }] } (ou strings simples)
+ */
+function readItemMessages(errors: unknown): string[] {
+  if (!Array.isArray(errors)) return [];
+
+  return errors
+    .map((item) => (typeof item === 'string' ? item : isRecord(item) ? readString(item, 'message') : undefined))
+    .filter((item): item is string => !!item);
+}
+
+/**
+ * Códigos dos erros do ApiResponse: { errors: [{ message: "...", code: "SAME_PASSWORD" }] }
+ */
+function readItemCodes(errors: unknown): string[] {
+  if (!Array.isArray(errors)) return [];
+
+  return errors
+    .map((item) => (isRecord(item) ? readString(item, 'code') : undefined))
+    .filter((item): item is string => !!item);
+}
+
+function correlationIdFrom(headers: HttpHeaders | null | undefined): string | undefined {
+  return headers?.get(CORRELATION_HEADER) ?? undefined;
+}
+
+function readString(source: Record<string, unknown>, key: string): string | undefined {
+  const value = source[key];
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,138 @@
+import { FakeCardTokenizer } from '../services/card-tokenizer';
+import { I18nService } from '../services/i18n.service';
+import {
+  cardNumberLengths,
+  cvvLength,
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiry,
+  isCardBrand,
+  isExpired,
+  luhnCheck,
+  parseExpiry
+} from './card.utils';
+
+// Números de teste publicados pelas bandeiras e gateways
+const TEST_CARDS = {
+  visa: '4111 1111 1111 1111',
+  mastercard: '5555 5555 5555 4444',
+  mastercard2Series: '2223 0031 2200 3222',
+  amex: '3782 822463 10005',
+  diners: '3056 930902 5904',
+  elo: '6362 9700 0045 7013',
+  hipercard: '6062 8256 2425 4001'
+};
+
+describe('card.utils', () => {
+  describe('luhnCheck', () => {
+    it('accepts the test numbers of every brand', () => {
+      for (const number of Object.values(TEST_CARDS)) {
+        expect(luhnCheck(number)).withContext(number).toBeTrue();
+      }
+    });
+
+    it('rejects a wrong check digit and empty input', () => {
+      expect(luhnCheck('4111 1111 1111 1112')).toBeFalse();
+      expect(luhnCheck('')).toBeFalse();
+    });
+  });
+
+  describe('detectCardBrand', () => {
+    it('detects each brand from its test number', () => {
+      expect(detectCardBrand(TEST_CARDS.visa)).toBe('visa');
+      expect(detectCardBrand(TEST_CARDS.mastercard)).toBe('mastercard');
+      expect(detectCardBrand(TEST_CARDS.amex)).toBe('amex');
+      expect(detectCardBrand(TEST_CARDS.diners)).toBe('diners');
+      expect(detectCardBrand(TEST_CARDS.elo)).toBe('elo');
+      expect(detectCardBrand(TEST_CARDS.hipercard)).toBe('hipercard');
+    });
+
+    it('prefers Elo over Visa and Mastercard for overlapping BINs', () => {
+      expect(detectCardBrand('4389 35')).toBe('elo');
+      expect(detectCardBrand('4011 78')).toBe('elo');
+      expect(detectCardBrand('5067 23')).toBe('elo');
+      expect(detectCardBrand('4111 11')).toBe('visa');
+    });
+
+    it('recognizes the Mastercard 2-series range', () => {
+      expect(detectCardBrand(TEST_CARDS.mastercard2Series)).toBe('mastercard');
+      expect(detectCardBrand('2720 99')).toBe('mastercard');
+      expect(detectCardBrand('2721 00')).toBe('unknown');
+      expect(detectCardBrand('2220 00')).toBe('unknown');
+    });
+
+    it('returns unknown for numbers without a known prefix', () => {
+      expect(detectCardBrand('9999 9999')).toBe('unknown');
+      expect(detectCardBrand('')).toBe('unknown');
+    });
+  });
+
+  describe('length rules', () => {
+    it('accepts the digit counts of each brand', () => {
+      expect(cardNumberLengths('amex')).toEqual([15]);
+      expect(cardNumberLengths('diners')).toEqual([14, 16]);
+      expect(cardNumberLengths('visa')).toEqual([13, 16, 19]);
+      expect(cardNumberLengths('elo')).toEqual([16]);
+    });
+
+    it('requires four CVV digits only for Amex', () => {
+      expect(cvvLength('amex')).toBe(4);
+      expect(cvvLength('visa')).toBe(3);
+    });
+
+    it('groups digits by brand and drops the extra ones', () => {
+      expect(formatCardNumber('4111111111111111')).toBe('4111 1111 1111 1111');
+      expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+      expect(formatCardNumber('3782822463100059999')).toBe('3782 822463 10005');
+    });
+  });
+
+  describe('expiry', () => {
+    it('formats MM/AA while typing', () => {
+      expect(formatExpiry('4')).toBe('04');
+      expect(formatExpiry('1')).toBe('1');
+      expect(formatExpiry('1228')).toBe('12/28');
+    });
+
+    it('parses complete dates and rejects invalid months', () => {
+      expect(parseExpiry('01/27')).toEqual({ month: '01', year: '2027' });
+      expect(parseExpiry('13/27')).toBeNull();
+      expect(parseExpiry('00/27')).toBeNull();
+      expect(parseExpiry('1/27')).toBeNull();
+    });
+
+    it('keeps a card valid until the end of its expiry month', () => {
+      const now = new Date(2026, 5, 30);
+
+      expect(isExpired('06', '2026', now)).toBeFalse();
+      expect(isExpired('05', '2026', now)).toBeTrue();
+      expect(isExpired('01', '2027', now)).toBeFalse();
+    });
+  });
+
+  it('recognizes brand codes but not brand names', () => {
+    expect(isCardBrand('mastercard')).toBeTrue();
+    expect(isCardBrand('Mastercard')).toBeFalse();
+  });
+});
+
+describe('FakeCardTokenizer', () => {
+  const i18n = jasmine.createSpyObj<I18nService>('I18nService', { t: 'Cartão recusado pela operadora' });
+  const tokenizer = new FakeCardTokenizer(i18n);
+  const details = { holderName: 'MARIA SILVA', expiryMonth: '12', expiryYear: '2030', cvv: '123' };
+
+  it('issues a fake token with the brand and last four digits', async () => {
+    const token = await tokenizer.tokenize({ ...details, number: TEST_CARDS.mastercard });
+
+    expect(token.token).toMatch(/^tok_fake_/);
+    expect(token.lastFour).toBe('4444');
+    expect(token.brand).toBe('mastercard');
+  });
+
+  it('declines numbers ending in 0002', async () => {
+    await expectAsync(tokenizer.tokenize({ ...details, number: '4000 0000 0000 0002' })).toBeRejectedWithError(
+      'Cartão recusado pela operadora'
+    );
+    expect(i18n.t).toHaveBeenCalledWith('card.declined');
+  });
+});
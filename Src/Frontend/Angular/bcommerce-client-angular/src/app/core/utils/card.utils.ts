@@ -0,0 +1,141 @@
+import { TranslationKey } from '../i18n';
+import { CardBrand } from '../models';
+
+/**
+ * Prefixos por bandeira, na ordem em que são testados
+ * Elo e Hipercard vêm antes de Visa/Mastercard porque alguns BINs se sobrepõem
+ */
+const BRAND_PATTERNS: readonly { brand: Exclude<CardBrand, 'unknown'>; pattern: RegExp }[] = [
+  {
+    brand: 'elo',
+    pattern: /^(401178|401179|431274|438935|451416|457393|457631|457632|504175|506699|5067\d{2}|509\d{3}|627780|636297|636368|650\d{3}|6516\d{2}|6550\d{2})/
+  },
+  { brand: 'hipercard', pattern: /^(606282|3841(0|4|6)0)/ },
+  { brand: 'amex', pattern: /^3[47]/ },
+  { brand: 'diners', pattern: /^3(0[0-5]|[68])/ },
+  { brand: 'visa', pattern: /^4/ },
+  { brand: 'mastercard', pattern: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/ }
+];
+
+export const CARD_BRAND_LABELS: Readonly<Record<CardBrand, TranslationKey>> = {
+  visa: 'card.brand.visa',
+  mastercard: 'card.brand.mastercard',
+  amex: 'card.brand.amex',
+  elo: 'card.brand.elo',
+  hipercard: 'card.brand.hipercard',
+  diners: 'card.brand.diners',
+  unknown: 'card.brand.unknown'
+};
+
+/**
+ * Código de bandeira conhecido (cartões antigos têm o nome da bandeira salvo)
+ */
+export function isCardBrand(value: string): value is CardBrand {
+  return Object.hasOwn(CARD_BRAND_LABELS, value);
+}
+
+/**
+ * Número somente com dígitos
+ */
+export function normalizeCardNumber(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Bandeira pelo prefixo do número (funciona com o número ainda incompleto)
+ */
+export function detectCardBrand(value: string): CardBrand {
+  const digits = normalizeCardNumber(value);
+  return BRAND_PATTERNS.find(({ pattern }) => pattern.test(digits))?.brand ?? 'unknown';
+}
+
+/**
+ * Quantidades de dígitos aceitas para a bandeira
+ */
+export function cardNumberLengths(brand: CardBrand): number[] {
+  switch (brand) {
+    case 'amex':
+      return [15];
+    case 'diners':
+      return [14, 16];
+    case 'visa':
+    case 'hipercard':
+      return [13, 16, 19];
+    default:
+      return [16];
+  }
+}
+
+export function cvvLength(brand: CardBrand): number {
+  return brand === 'amex' ? 4 : 3;
+}
+
+/**
+ * Dígito verificador (algoritmo de Luhn)
+ */
+export function luhnCheck(value: string): boolean {
+  const digits = normalizeCardNumber(value);
+  if (digits.length === 0) return false;
+
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Número agrupado enquanto é digitado: 4-4-4-4 (Amex: 4-6-5, Diners 14: 4-6-4)
+ */
+export function formatCardNumber(value: string): string {
+  const brand = detectCardBrand(value);
+  const maxLength = Math.max(...cardNumberLengths(brand));
+  const digits = normalizeCardNumber(value).slice(0, maxLength);
+
+  const groups = brand === 'amex' || (brand === 'diners' && digits.length <= 14) ? [4, 6, 5] : [4, 4, 4, 4, 3];
+  const parts: string[] = [];
+  let position = 0;
+  for (const size of groups) {
+    if (position >= digits.length) break;
+    parts.push(digits.slice(position, position + size));
+    position += size;
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Validade no formato MM/AA enquanto é digitada
+ */
+export function formatExpiry(value: string): string {
+  let digits = value.replace(/\D/g, '').slice(0, 4);
+  // "4" vira "04": nenhum mês começa com dígito maior que 1
+  if (digits.length === 1 && Number(digits) > 1) digits = `0${digits}`;
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+}
+
+/**
+ * Mês e ano (quatro dígitos) de uma validade MM/AA, ou null se incompleta ou inválida
+ */
+export function parseExpiry(value: string): { month: string; year: string } | null {
+  const match = /^(\d{2})\/(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) return null;
+
+  return { month: match[1], year: `20${match[2]}` };
+}
+
+/**
+ * O cartão vale até o último dia do mês de validade
+ */
+export function isExpired(month: string, year: string, now: Date = new Date()): boolean {
+  const expiry = Number(year) * 12 + Number(month);
+  const current = now.getFullYear() * 12 + (now.getMonth() + 1);
+  return expiry < current;
+}
@@ -0,0 +1,88 @@
+import { Cart, CartItem, CartItemChange, Product, ProductSnapshot } from '../models';
+import { multiplyMoney, sumMoney, toCents } from './money.utils';
+
+/**
+ * Limite de unidades de um mesmo produto por carrinho
+ */
+export const MAX_QUANTITY_PER_ITEM = 10;
+
+/**
+ * Carrinho vazio (estado inicial e após limpar)
+ */
+export function emptyCart(): Cart {
+  return { id: null, userId: null, items: [], subtotal: 0, totalItems: 0 };
+}
+
+/**
+ * Recalcula subtotal dos itens e totais do carrinho
+ * As contas são feitas em centavos para evitar resíduos de ponto flutuante
+ */
+export function summarizeCart(cart: Cart): Cart {
+  const items = cart.items.map((item) => ({ ...item, subtotal: multiplyMoney(item.unitPrice, item.quantity) }));
+
+  return {
+    ...cart,
+    items,
+    subtotal: sumMoney(items.map((item) => item.subtotal)),
+    totalItems: items.reduce((total, item) => total + item.quantity, 0)
+  };
+}
+
+/**
+ * Mantém a quantidade entre 1 e o menor limite entre estoque conhecido e MAX_QUANTITY_PER_ITEM
+ */
+export function clampQuantity(quantity: number, snapshot: ProductSnapshot | null): number {
+  const stock = snapshot?.stockQuantity;
+  const max = stock !== undefined ? Math.min(stock, MAX_QUANTITY_PER_ITEM) : MAX_QUANTITY_PER_ITEM;
+  return Math.max(1, Math.min(Math.floor(quantity), Math.max(max, 1)));
+}
+
+/**
+ * Junta o carrinho de visitante ao do servidor
+ *
+ * Regras para produtos presentes nos dois:
+ * - as quantidades são somadas, respeitando o estoque e o limite por item;
+ * - vale o preço e o snapshot do servidor, que são os mais recentes.
+ * Produtos só do visitante entram como estão.
+ *
+ * @returns itens do visitante com a quantidade final que cada produto deve ter
+ */
+export function mergeGuestItems(serverItems: CartItem[], guestItems: CartItem[]): CartItem[] {
+  return guestItems.map((guest) => {
+    const existing = serverItems.find((item) => item.productId === guest.productId);
+    if (!existing) return guest;
+
+    const snapshot = existing.productSnapshot ?? guest.productSnapshot;
+    return {
+      ...existing,
+      productSnapshot: snapshot,
+      quantity: clampQuantity(existing.quantity + guest.quantity, snapshot)
+    };
+  });
+}
+
+/**
+ * Lista os itens cujo preço ou disponibilidade mudou em relação ao catálogo
+ * Produtos que não vieram na consulta são tratados como indisponíveis
+ */
+export function detectItemChanges(items: CartItem[], products: Product[]): CartItemChange[] {
+  const byId = new Map(products.map((product) => [product.id, product]));
+
+  return items
+    .map((item): CartItemChange => {
+      const product = byId.get(item.productId);
+      const currentStock = product?.isActive ? product.stockQuantity : 0;
+      const currentPrice = product?.price ?? item.unitPrice;
+
+      return {
+        productId: item.productId,
+        previousPrice: item.unitPrice,
+        currentPrice,
+        currentStock,
+        priceChanged: toCents(currentPrice) !== toCents(item.unitPrice),
+        insufficientStock: currentStock > 0 && item.quantity > currentStock,
+        unavailable: currentStock <= 0
+      };
+    })
+    .filter((change) => change.priceChanged || change.insufficientStock || change.unavailable);
+}
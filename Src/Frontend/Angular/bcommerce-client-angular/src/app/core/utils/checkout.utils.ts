@@ -0,0 +1,67 @@
+import { TranslationKey } from '../i18n';
+import { CheckoutState, CheckoutStep, PaymentMethod } from '../models';
+
+/**
+ * Etapas do checkout com a chave do rótulo exibido no indicador de progresso
+ */
+export const CHECKOUT_STEPS: readonly { step: CheckoutStep; label: TranslationKey }[] = [
+  { step: 'address', label: 'checkout.step.address' },
+  { step: 'shipping', label: 'checkout.step.shipping' },
+  { step: 'payment', label: 'checkout.step.payment' },
+  { step: 'review', label: 'checkout.step.review' }
+];
+
+export function emptyCheckoutState(): CheckoutState {
+  return {
+    address: null,
+    shippingOption: null,
+    paymentMethod: null,
+    card: null,
+    installments: 1,
+    notes: ''
+  };
+}
+
+/**
+ * Indica se as escolhas da etapa estão completas
+ * A revisão nunca está completa: ela termina com a criação do pedido
+ */
+export function isStepComplete(state: CheckoutState, step: CheckoutStep): boolean {
+  switch (step) {
+    case 'address':
+      return !!state.address;
+    case 'shipping':
+      return !!state.shippingOption;
+    case 'payment':
+      return state.paymentMethod === 'credit_card' ? !!state.card : !!state.paymentMethod;
+    case 'review':
+      return false;
+  }
+}
+
+/**
+ * Primeira etapa ainda pendente; é até ela que o usuário pode avançar
+ */
+export function firstIncompleteStep(state: CheckoutState): CheckoutStep {
+  return CHECKOUT_STEPS.find(({ step }) => !isStepComplete(state, step))?.step ?? 'review';
+}
+
+/**
+ * Indica se a etapa pode ser aberta (todas as anteriores estão completas)
+ */
+export function canEnterStep(state: CheckoutState, step: CheckoutStep): boolean {
+  return stepIndex(step) <= stepIndex(firstIncompleteStep(state));
+}
+
+export function stepIndex(step: CheckoutStep): number {
+  return CHECKOUT_STEPS.findIndex((item) => item.step === step);
+}
+
+/**
+ * Chaves dos rótulos das formas de pagamento
+ */
+export const PAYMENT_METHOD_LABELS: Readonly<Record<PaymentMethod, TranslationKey>> = {
+  credit_card: 'payment.method.credit_card',
+  pix: 'payment.method.pix',
+  boleto: 'payment.method.boleto'
+};
@@ -0,0 +1,96 @@
+import { AbstractControl, FormArray, FormGroup } from '@angular/forms';
+import { ApiFieldErrors } from '../models';
+
+/**
+ * Chave usada em control.errors para mensagens vindas do backend
+ */
+export const SERVER_ERROR_KEY = 'serverError';
+
+/**
+ * Aplica os erros por campo retornados pela API nos controles do formulário
+ *
+ * Os nomes do backend ("Email", "ConfirmPassword", "Address.ZipCode") são
+ * comparados sem diferenciar maiúsculas com os nomes dos controles. O erro
+ * `serverError` é descartado automaticamente quando o usuário edita o campo,
+ * pois o Angular recalcula os validators a cada alteração de valor.
+ *
+ * @param aliases mapeia nomes do backend para caminhos de controles quando diferem
+ * @returns mensagens que não correspondem a nenhum controle (para exibição geral)
+ */
+export function applyServerErrors(
+  form: FormGroup,
+  fieldErrors: ApiFieldErrors,
+  aliases: Record<string, string> = {}
+): string[] {
+  const unmatched: string[] = [];
+
+  for (const [field, messages] of Object.entries(fieldErrors)) {
+    if (messages.length === 0) continue;
+
+    const control = findControl(form, aliases[field] ?? field);
+    if (!control) {
+      unmatched.push(...messages);
+      continue;
+    }
+
+    control.setErrors({ ...control.errors, [SERVER_ERROR_KEY]: messages[0] });
+    control.markAsTouched();
+  }
+
+  return unmatched;
+}
+
+/**
+ * Remove os erros do backend de todos os controles do formulário
+ */
+export function clearServerErrors(control: AbstractControl): void {
+  if (control instanceof FormGroup || control instanceof FormArray) {
+    Object.values(control.controls).forEach(clearServerErrors);
+  }
+
+  if (control.errors?.[SERVER_ERROR_KEY]) {
+    const { [SERVER_ERROR_KEY]: _removed, ...remaining } = control.errors;
+    control.setErrors(Object.keys(remaining).length > 0 ? remaining : null);
+  }
+}
+
+/**
+ * Mensagem do backend associada ao controle, se houver
+ */
+export function getServerError(control: AbstractControl | null | undefined): string | null {
+  const message = control?.errors?.[SERVER_ERROR_KEY];
+  return typeof message === 'string' ? message : null;
+}
+
+/**
+ * Localiza um controle pelo caminho do backend ("Address.ZipCode", "Items[0].Quantity")
+ */
+function findControl(root: AbstractControl, path: string): AbstractControl | null {
+  const segments = path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+
+  let current: AbstractControl | null = root;
+  for (const segment of segments) {
+    current = current ? childControl(current, segment) : null;
+  }
+
+  return current === root ? null : current;
+}
+
+function childControl(parent: AbstractControl, name: string): AbstractControl | null {
+  if (parent instanceof FormArray) {
+    const index = Number(name);
+    return Number.isInteger(index) ? parent.at(index) ?? null : null;
+  }
+
+  if (parent instanceof FormGroup) {
+    const key = Object.keys(parent.controls).find(
+      (controlName) => controlName.toLowerCase() === name.toLowerCase()
+    );
+    return key ? parent.controls[key] : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,103 @@
+import { JwtClaims } from '../models';
+
+const CLAIM_URI = 'http://schemas.microsoft.com/ws/2008/06/identity/claims/';
+const XML_CLAIM_URI = 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/';
+
+/**
+ * Nomes aceitos para cada claim (forma curta do JWT e URI completa do .NET)
+ */
+const CLAIM_ALIASES = {
+  sub: ['sub', 'nameid', `${XML_CLAIM_URI}nameidentifier`],
+  email: ['email', `${XML_CLAIM_URI}emailaddress`],
+  name: ['unique_name', 'name', `${XML_CLAIM_URI}name`],
+  fullName: ['FullName', 'fullName', 'full_name'],
+  roles: ['role', 'roles', `${CLAIM_URI}role`],
+  permissions: ['permission', 'permissions', 'scope'],
+  emailConfirmed: ['email_verified', 'EmailConfirmed', 'emailConfirmed']
+} as const;
+
+/**
+ * Decodifica o payload de um JWT sem validar a assinatura
+ * A validação é responsabilidade do backend; no client os claims servem apenas para a UI
+ *
+ * @returns null quando o token está ausente ou malformado
+ */
+export function decodeJwt(token: string | null | undefined): JwtClaims | null {
+  const payload = decodePayload(token);
+  if (!payload) return null;
+
+  return {
+    sub: readFirst(payload, CLAIM_ALIASES.sub) ?? '',
+    email: readFirst(payload, CLAIM_ALIASES.email),
+    name: readFirst(payload, CLAIM_ALIASES.name),
+    fullName: readFirst(payload, CLAIM_ALIASES.fullName),
+    roles: readAll(payload, CLAIM_ALIASES.roles),
+    permissions: readAll(payload, CLAIM_ALIASES.permissions),
+    emailConfirmed: readBoolean(payload, CLAIM_ALIASES.emailConfirmed),
+    exp: readNumber(payload['exp']),
+    iat: readNumber(payload['iat']),
+    raw: payload
+  };
+}
+
+/**
+ * Valores de um claim qualquer do payload, sempre como lista de strings
+ */
+export function readClaimValues(claims: JwtClaims | null, type: string): string[] {
+  return claims ? toStringList(claims.raw[type]) : [];
+}
+
+function decodePayload(token: string | null | undefined): Record<string, unknown> | null {
+  const segment = token?.split('.')[1];
+  if (!segment) return null;
+
+  try {
+    // base64url → base64, com padding
+    const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=');
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    const payload: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof payload === 'object' && payload !== null && !Array.isArray(payload)
+      ? (payload as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function readFirst(payload: Record<string, unknown>, keys: readonly string[]): string | undefined {
+  for (const key of keys) {
+    const [value] = toStringList(payload[key]);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function readAll(payload: Record<string, unknown>, keys: readonly string[]): string[] {
+  const values = keys.flatMap((key) =>
+    // "scope" segue o padrão OAuth: valores separados por espaço
+    key === 'scope' ? toStringList(payload[key]).flatMap((value) => value.split(' ')) : toStringList(payload[key])
+  );
+  return [...new Set(values.filter((value) => value.length > 0))];
+}
+
+function readBoolean(payload: Record<string, unknown>, keys: readonly string[]): boolean | null {
+  for (const key of keys) {
+    const value = payload[key];
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'True') return true;
+    if (value === 'false' || value === 'False') return false;
+  }
+  return null;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' ? [value] : [];
+}
@@ -0,0 +1,88 @@
+import { InstallmentRule, PaymentRules } from '../config/app-config';
+import { calculateInstallments, highlightedInstallment, pixPrice, sumMoney, toCents } from './money.utils';
+
+const CREDIT_CARD: InstallmentRule = {
+  maxInstallments: 12,
+  interestFreeInstallments: 6,
+  monthlyInterestPercent: 1.99,
+  minInstallmentAmount: 10
+};
+
+function rules(pixDiscountPercent: number): PaymentRules {
+  return { pixDiscountPercent, installments: {} };
+}
+
+describe('money.utils', () => {
+  describe('toCents', () => {
+    it('absorbs floating-point drift', () => {
+      expect(toCents(1.005)).toBe(101);
+      expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    });
+  });
+
+  describe('calculateInstallments', () => {
+    it('splits interest-free installments rounding down to the cent without changing the total', () => {
+      const threeTimes = calculateInstallments(100, CREDIT_CARD)[2];
+
+      expect(threeTimes).toEqual({ count: 3, amount: 33.33, total: 100, interestFree: true });
+      expect(calculateInstallments(100, CREDIT_CARD)[5]).toEqual({ count: 6, amount: 16.66, total: 100, interestFree: true });
+    });
+
+    it('charges compound interest (Price table) above the interest-free installments', () => {
+      const options = calculateInstallments(1000, CREDIT_CARD);
+
+      expect(options[6]).toEqual({ count: 7, amount: 154.45, total: 1081.15, interestFree: false });
+      expect(options[11]).toEqual({ count: 12, amount: 94.5, total: 1134, interestFree: false });
+    });
+
+    it('stops before installments below the minimum amount', () => {
+      const options = calculateInstallments(100, CREDIT_CARD);
+
+      expect(options.length).toBe(11);
+      expect(options.at(-1)).toEqual({ count: 11, amount: 10.21, total: 112.31, interestFree: false });
+      expect(calculateInstallments(15, CREDIT_CARD).map((option) => option.count)).toEqual([1]);
+    });
+
+    it('offers only the single payment without a rule or a positive value', () => {
+      expect(calculateInstallments(100, undefined)).toEqual([{ count: 1, amount: 100, total: 100, interestFree: true }]);
+      expect(calculateInstallments(0, CREDIT_CARD).length).toBe(1);
+    });
+
+    it('treats every installment as interest-free when the rate is zero', () => {
+      const options = calculateInstallments(1200, { ...CREDIT_CARD, monthlyInterestPercent: 0 });
+
+      expect(options.every((option) => option.interestFree && option.total === 1200)).toBeTrue();
+      expect(options.at(-1)?.amount).toBe(100);
+    });
+  });
+
+  describe('highlightedInstallment', () => {
+    it('highlights the longest interest-free installment', () => {
+      expect(highlightedInstallment(calculateInstallments(1000, CREDIT_CARD))?.count).toBe(6);
+    });
+
+    it('falls back to the longest installment with interest', () => {
+      const options = calculateInstallments(100, { ...CREDIT_CARD, interestFreeInstallments: 1 });
+
+      expect(highlightedInstallment(options)).toEqual({ count: 11, amount: 10.21, total: 112.31, interestFree: false });
+    });
+
+    it('returns null when only the single payment is available', () => {
+      expect(highlightedInstallment(calculateInstallments(15, CREDIT_CARD))).toBeNull();
+    });
+  });
+
+  describe('pixPrice', () => {
+    it('rounds the discount to the nearest cent', () => {
+      // 5% de 19,99 = 0,9995
+      expect(pixPrice(19.99, rules(5))).toBe(18.99);
+      expect(pixPrice(0.1 + 0.2, rules(10))).toBe(0.27);
+    });
+
+    it('keeps the discount between 0 and 100%', () => {
+      expect(pixPrice(50, rules(0))).toBe(50);
+      expect(pixPrice(50, rules(-5))).toBe(50);
+      expect(pixPrice(50, rules(150))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { InstallmentRule, PaymentRules } from '../config/app-config';
+import { InstallmentOption, PaymentMethod } from '../models';
+
+const brlFormat = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Valores monetários chegam da API como DECIMAL(10,2) em reais
+ * As contas são feitas em centavos inteiros e só voltam para reais no final,
+ * para que somas e multiplicações não acumulem resíduos de ponto flutuante.
+ */
+export function toCents(value: number): number {
+  // toFixed absorve o erro da multiplicação (ex.: 1.005 * 100 = 100.49999...)
+  return Math.round(Number((value * 100).toFixed(4)));
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+export function roundCents(value: number): number {
+  return fromCents(toCents(value));
+}
+
+export function sumMoney(values: readonly number[]): number {
+  return fromCents(values.reduce((total, value) => total + toCents(value), 0));
+}
+
+export function subtractMoney(value: number, amount: number): number {
+  return fromCents(toCents(value) - toCents(amount));
+}
+
+/**
+ * Preço unitário × quantidade
+ */
+export function multiplyMoney(value: number, quantity: number): number {
+  return fromCents(Math.round(toCents(value) * quantity));
+}
+
+/**
+ * Porcentagem de um valor, arredondada em centavos
+ */
+export function percentOf(value: number, percent: number): number {
+  return fromCents(Math.round((toCents(value) * percent) / 100));
+}
+
+/**
+ * Formata em reais (R$ 1.234,56), independente do idioma da interface
+ */
+export function formatBRL(value: number): string {
+  return brlFormat.format(value);
+}
+
+/**
+ * Percentual de desconto da forma de pagamento (hoje só o PIX tem)
+ */
+export function paymentDiscountPercent(method: PaymentMethod | null, rules: PaymentRules): number {
+  return method === 'pix' ? Math.min(Math.max(rules.pixDiscountPercent, 0), 100) : 0;
+}
+
+/**
+ * Valor à vista no PIX
+ */
+export function pixPrice(value: number, rules: PaymentRules): number {
+  return subtractMoney(value, percentOf(value, paymentDiscountPercent('pix', rules)));
+}
+
+/**
+ * Opções de parcelamento do valor, de 1x até o máximo da regra
+ *
+ * Sem juros o valor é dividido igualmente. Com juros a parcela segue a tabela Price
+ * (juros compostos mensais). Parcelas abaixo de `minInstallmentAmount` não são oferecidas;
+ * à vista (1x) sempre é.
+ */
+export function calculateInstallments(value: number, rule: InstallmentRule | undefined): InstallmentOption[] {
+  const cents = toCents(value);
+  const single: InstallmentOption = { count: 1, amount: fromCents(cents), total: fromCents(cents), interestFree: true };
+  if (!rule || cents <= 0) return [single];
+
+  const options = [single];
+  const minCents = toCents(rule.minInstallmentAmount);
+  const rate = Math.max(rule.monthlyInterestPercent, 0) / 100;
+
+  for (let count = 2; count <= rule.maxInstallments; count++) {
+    const interestFree = count <= rule.interestFreeInstallments || rate === 0;
+    const amountCents = interestFree
+      ? Math.floor(cents / count)
+      : Math.round((cents * rate) / (1 - Math.pow(1 + rate, -count)));
+
+    if (amountCents < minCents) break;
+
+    options.push({
+      count,
+      amount: fromCents(amountCents),
+      total: fromCents(interestFree ? cents : amountCents * count),
+      interestFree
+    });
+  }
+
+  return options;
+}
+
+/**
+ * Opção destacada na vitrine: o maior parcelamento sem juros,
+ * ou o maior com juros quando só há à vista sem juros
+ *
+ * @returns null quando o valor só pode ser pago à vista
+ */
+export function highlightedInstallment(options: readonly InstallmentOption[]): InstallmentOption | null {
+  const interestFree = options.filter((option) => option.interestFree && option.count > 1);
+  const candidates = interestFree.length > 0 ? interestFree : options.filter((option) => option.count > 1);
+  return candidates.at(-1) ?? null;
+}
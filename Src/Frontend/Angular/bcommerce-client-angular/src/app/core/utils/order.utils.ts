@@ -0,0 +1,134 @@
+import { Params, ParamMap } from '@angular/router';
+import { TranslationKey } from '../i18n';
+import { OrderDetail, OrderListQuery, OrderStatus } from '../models';
+
+export const ORDERS_PAGE_SIZE = 10;
+
+export const ORDER_STATUS_LABELS: Readonly<Record<OrderStatus, TranslationKey>> = {
+  PENDING_PAYMENT: 'orders.status.PENDING_PAYMENT',
+  PAYMENT_CONFIRMED: 'orders.status.PAYMENT_CONFIRMED',
+  PROCESSING: 'orders.status.PROCESSING',
+  SHIPPED: 'orders.status.SHIPPED',
+  DELIVERED: 'orders.status.DELIVERED',
+  CANCELLED: 'orders.status.CANCELLED',
+  REFUNDED: 'orders.status.REFUNDED'
+};
+
+/**
+ * Classes do selo de status
+ */
+export const ORDER_STATUS_BADGE_CLASSES: Readonly<Record<OrderStatus, string>> = {
+  PENDING_PAYMENT: 'bg-yellow-100 text-yellow-800',
+  PAYMENT_CONFIRMED: 'bg-blue-100 text-blue-800',
+  PROCESSING: 'bg-blue-100 text-blue-800',
+  SHIPPED: 'bg-indigo-100 text-indigo-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-700',
+  REFUNDED: 'bg-gray-100 text-gray-700'
+};
+
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[];
+
+/**
+ * Caminho normal do pedido, exibido na linha do tempo
+ */
+const ORDER_FLOW: readonly OrderStatus[] = ['PENDING_PAYMENT', 'PAYMENT_CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'];
+
+/**
+ * Etapa da linha do tempo do pedido
+ */
+export interface OrderTimelineStep {
+  status: OrderStatus;
+  label: TranslationKey;
+  state: 'done' | 'current' | 'upcoming';
+  /** Quando o pedido chegou a este status (do histórico) */
+  date: string | null;
+  notes: string | null;
+}
+
+/**
+ * Cancelamento só é possível antes do envio
+ */
+export function canCancelOrder(status: OrderStatus): boolean {
+  return status === 'PENDING_PAYMENT' || status === 'PAYMENT_CONFIRMED' || status === 'PROCESSING';
+}
+
+/**
+ * "Comprar novamente" para pedidos encerrados
+ */
+export function canReorder(status: OrderStatus): boolean {
+  return status === 'DELIVERED' || status === 'CANCELLED' || status === 'REFUNDED';
+}
+
+/**
+ * Monta a linha do tempo a partir do histórico de status
+ * Pedidos cancelados ou reembolsados param na última etapa alcançada e ganham a etapa final
+ */
+export function buildOrderTimeline(order: OrderDetail): OrderTimelineStep[] {
+  const history = [...order.statusHistory].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const lastEntry = (status: OrderStatus) => history.filter((entry) => entry.status === status).at(-1) ?? null;
+
+  const terminal = order.status === 'CANCELLED' || order.status === 'REFUNDED';
+  const reachedIndex = terminal
+    ? Math.max(-1, ...ORDER_FLOW.map((status, index) => (lastEntry(status) ? index : -1)))
+    : ORDER_FLOW.indexOf(order.status);
+
+  const steps: OrderTimelineStep[] = ORDER_FLOW.filter((_, index) => !terminal || index <= reachedIndex).map(
+    (status, index) => {
+      const entry = lastEntry(status);
+      return {
+        status,
+        label: ORDER_STATUS_LABELS[status],
+        state: index < reachedIndex || terminal ? 'done' : index === reachedIndex ? 'current' : 'upcoming',
+        date: entry?.createdAt ?? null,
+        notes: entry?.notes ?? null
+      };
+    }
+  );
+
+  if (terminal) {
+    const entry = lastEntry(order.status);
+    steps.push({
+      status: order.status,
+      label: ORDER_STATUS_LABELS[order.status],
+      state: 'current',
+      date: entry?.createdAt ?? order.updatedAt,
+      notes: entry?.notes ?? null
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Lê status, período e página dos query params do histórico
+ * Valores inválidos são ignorados, para que URLs editadas à mão não quebrem a página
+ */
+export function parseOrderQuery(params: ParamMap, pageSize = ORDERS_PAGE_SIZE): OrderListQuery {
+  const status = params.get('status') as OrderStatus | null;
+  const page = Number(params.get('page'));
+
+  return {
+    status: status && ORDER_STATUSES.includes(status) ? status : undefined,
+    from: readDate(params.get('from')),
+    to: readDate(params.get('to')),
+    pageNumber: Number.isInteger(page) && page > 1 ? page : 1,
+    pageSize
+  };
+}
+
+/**
+ * Converte os filtros de volta em query params (valores padrão somem da URL)
+ */
+export function toOrderQueryParams(query: Partial<OrderListQuery>): Params {
+  return {
+    status: query.status ?? null,
+    from: query.from ?? null,
+    to: query.to ?? null,
+    page: query.pageNumber && query.pageNumber > 1 ? query.pageNumber : null
+  };
+}
+
+function readDate(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
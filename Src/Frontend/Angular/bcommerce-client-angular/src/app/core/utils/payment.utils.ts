@@ -0,0 +1,45 @@
+import { Order, OrderStatus, PaymentCharge, PaymentStatus } from '../models';
+
+/**
+ * Pedidos pagos por PIX ou boleto ficam aguardando o pagamento após criados
+ * (cartão é cobrado na criação do pedido)
+ */
+export function isAwaitingPayment(order: Order): boolean {
+  return order.status === 'PENDING_PAYMENT' && (order.paymentMethod === 'pix' || order.paymentMethod === 'boleto');
+}
+
+/**
+ * Situação do pagamento a partir do status do pedido
+ */
+export function paymentStatusFromOrder(status: OrderStatus): PaymentStatus {
+  switch (status) {
+    case 'PENDING_PAYMENT':
+      return 'pending';
+    case 'CANCELLED':
+    case 'REFUNDED':
+      return 'failed';
+    default:
+      return 'confirmed';
+  }
+}
+
+/**
+ * Momento em que a cobrança deixa de valer (boleto: fim do dia do vencimento)
+ */
+export function chargeExpiresAt(charge: PaymentCharge): number {
+  return charge.method === 'pix'
+    ? new Date(charge.expiresAt).getTime()
+    : new Date(`${charge.dueDate}T23:59:59`).getTime();
+}
+
+/**
+ * Tempo restante em mm:ss (ou h:mm:ss acima de uma hora)
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
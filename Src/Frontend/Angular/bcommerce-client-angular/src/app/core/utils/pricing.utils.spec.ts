@@ -0,0 +1,136 @@
+import { Coupon } from '../models';
+import { calculateDiscount, calculatePricing, checkCouponEligibility } from './pricing.utils';
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+function coupon(overrides: Partial<Coupon> = {}): Coupon {
+  return {
+    id: 'c1',
+    code: 'BEMVINDO',
+    discountType: 'PERCENTAGE',
+    discountValue: 10,
+    couponType: 'GLOBAL',
+    minPurchaseAmount: null,
+    maxUses: null,
+    currentUses: 0,
+    usesPerUser: 1,
+    timesUsedByUser: 0,
+    validFrom: '2026-01-01T00:00:00Z',
+    validUntil: '2026-12-31T23:59:59Z',
+    isActive: true,
+    ...overrides
+  };
+}
+
+describe('pricing.utils', () => {
+  describe('checkCouponEligibility', () => {
+    it('accepts an active coupon within its validity', () => {
+      expect(checkCouponEligibility(coupon(), 100, NOW)).toEqual({ eligible: true, reason: null, message: null });
+    });
+
+    it('rejects inactive coupons', () => {
+      const result = checkCouponEligibility(coupon({ isActive: false }), 100, NOW);
+
+      expect(result.eligible).toBeFalse();
+      expect(result.reason).toBe('inactive');
+    });
+
+    it('rejects coupons that have not started or have expired', () => {
+      expect(checkCouponEligibility(coupon({ validFrom: '2026-07-01T00:00:00Z' }), 100, NOW).reason).toBe('not_started');
+      const expired = checkCouponEligibility(coupon({ validUntil: '2026-06-01T00:00:00Z' }), 100, NOW);
+      expect(expired.reason).toBe('expired');
+      expect(expired.details).toEqual({ date: '2026-06-01T00:00:00Z' });
+    });
+
+    it('rejects exhausted coupons and coupons already used by the user', () => {
+      expect(checkCouponEligibility(coupon({ maxUses: 5, currentUses: 5 }), 100, NOW).reason).toBe('exhausted');
+      expect(checkCouponEligibility(coupon({ timesUsedByUser: 1 }), 100, NOW).reason).toBe('already_used');
+    });
+
+    it('enforces the minimum purchase amount', () => {
+      const minimum = coupon({ minPurchaseAmount: 150 });
+
+      const below = checkCouponEligibility(minimum, 149.9, NOW);
+      expect(below.reason).toBe('below_minimum');
+      expect(below.details).toEqual({ minimum: 150, missing: 0.1 });
+
+      expect(checkCouponEligibility(minimum, 150, NOW).eligible).toBeTrue();
+    });
+  });
+
+  describe('calculateDiscount', () => {
+    it('applies percentage coupons over the subtotal', () => {
+      expect(calculateDiscount(coupon({ discountValue: 15 }), 199.9)).toBe(29.99);
+    });
+
+    it('applies fixed amount coupons', () => {
+      expect(calculateDiscount(coupon({ discountType: 'FIXED_AMOUNT', discountValue: 25 }), 199.9)).toBe(25);
+    });
+
+    it('never discounts more than the subtotal', () => {
+      expect(calculateDiscount(coupon({ discountType: 'FIXED_AMOUNT', discountValue: 50 }), 30)).toBe(30);
+      expect(calculateDiscount(coupon({ discountValue: 150 }), 30)).toBe(30);
+    });
+
+    it('ignores negative discount values', () => {
+      expect(calculateDiscount(coupon({ discountType: 'FIXED_AMOUNT', discountValue: -10 }), 30)).toBe(0);
+    });
+  });
+
+  describe('calculatePricing', () => {
+    it('adds shipping to the subtotal when there is no coupon', () => {
+      expect(calculatePricing({ subtotal: 100, shipping: 19.9 })).toEqual({
+        subtotal: 100,
+        discount: 0,
+        paymentDiscount: 0,
+        shipping: 19.9,
+        total: 119.9
+      });
+    });
+
+    it('discounts eligible coupons from the products only', () => {
+      const pricing = calculatePricing({ subtotal: 200, shipping: 15, coupon: coupon(), now: NOW });
+
+      expect(pricing.discount).toBe(20);
+      expect(pricing.total).toBe(195);
+    });
+
+    it('ignores ineligible coupons', () => {
+      const expired = coupon({ validUntil: '2026-06-01T00:00:00Z' });
+      const pricing = calculatePricing({ subtotal: 200, shipping: 15, coupon: expired, now: NOW });
+
+      expect(pricing.discount).toBe(0);
+      expect(pricing.total).toBe(215);
+    });
+
+    it('caps fixed coupons at the subtotal and still charges shipping', () => {
+      const fixed = coupon({ discountType: 'FIXED_AMOUNT', discountValue: 80 });
+      const pricing = calculatePricing({ subtotal: 50, shipping: 12.5, coupon: fixed, now: NOW });
+
+      expect(pricing.discount).toBe(50);
+      expect(pricing.total).toBe(12.5);
+    });
+
+    it('applies the PIX discount over the products after the coupon', () => {
+      const pricing = calculatePricing({
+        subtotal: 200,
+        shipping: 15,
+        coupon: coupon(),
+        paymentDiscountPercent: 5,
+        now: NOW
+      });
+
+      expect(pricing.discount).toBe(20);
+      expect(pricing.paymentDiscount).toBe(9);
+      expect(pricing.total).toBe(186);
+    });
+
+    it('keeps totals exact to the cent', () => {
+      const pricing = calculatePricing({ subtotal: 0.1 + 0.2, shipping: 0.7, paymentDiscountPercent: 5 });
+
+      expect(pricing.subtotal).toBe(0.3);
+      expect(pricing.paymentDiscount).toBe(0.02);
+      expect(pricing.total).toBe(0.98);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Coupon, CouponEligibility, CouponIneligibility, CouponIneligibilityDetails, OrderPricing } from '../models';
+import { percentOf, roundCents, subtractMoney, sumMoney } from './money.utils';
+
+/**
+ * Confere se o cupom vale para o subtotal informado
+ * As mesmas regras são aplicadas pelo backend ao criar o pedido; aqui servem de prévia
+ * O texto do motivo é montado por CouponService.describe, no idioma escolhido
+ */
+export function checkCouponEligibility(coupon: Coupon, subtotal: number, now: Date = new Date()): CouponEligibility {
+  if (!coupon.isActive) {
+    return ineligible('inactive');
+  }
+
+  if (now < new Date(coupon.validFrom)) {
+    return ineligible('not_started', { date: coupon.validFrom });
+  }
+
+  if (now > new Date(coupon.validUntil)) {
+    return ineligible('expired', { date: coupon.validUntil });
+  }
+
+  if (coupon.maxUses !== null && coupon.currentUses >= coupon.maxUses) {
+    return ineligible('exhausted');
+  }
+
+  if (coupon.timesUsedByUser >= coupon.usesPerUser) {
+    return ineligible('already_used');
+  }
+
+  if (coupon.minPurchaseAmount !== null && subtotal < coupon.minPurchaseAmount) {
+    const missing = subtractMoney(coupon.minPurchaseAmount, subtotal);
+    return ineligible('below_minimum', { minimum: coupon.minPurchaseAmount, missing });
+  }
+
+  return { eligible: true, reason: null, message: null };
+}
+
+/**
+ * Valor do desconto sobre o subtotal (nunca maior que o próprio subtotal)
+ */
+export function calculateDiscount(coupon: Coupon, subtotal: number): number {
+  const discount =
+    coupon.discountType === 'PERCENTAGE'
+      ? percentOf(subtotal, Math.min(Math.max(coupon.discountValue, 0), 100))
+      : roundCents(Math.max(coupon.discountValue, 0));
+
+  return Math.min(discount, roundCents(subtotal));
+}
+
+/**
+ * Subtotal, descontos, frete e total do pedido
+ * O desconto do cupom incide apenas sobre os produtos e só é aplicado se o cupom for elegível.
+ * O da forma de pagamento (PIX) incide sobre os produtos já com o cupom descontado.
+ */
+export function calculatePricing(input: {
+  subtotal: number;
+  shipping?: number;
+  coupon?: Coupon | null;
+  paymentDiscountPercent?: number;
+  now?: Date;
+}): OrderPricing {
+  const subtotal = roundCents(input.subtotal);
+  const shipping = roundCents(input.shipping ?? 0);
+  const coupon = input.coupon ?? null;
+
+  const discount =
+    coupon && checkCouponEligibility(coupon, subtotal, input.now).eligible ? calculateDiscount(coupon, subtotal) : 0;
+
+  const paymentDiscount = percentOf(subtractMoney(subtotal, discount), input.paymentDiscountPercent ?? 0);
+
+  return {
+    subtotal,
+    discount,
+    paymentDiscount,
+    shipping,
+    total: subtractMoney(sumMoney([subtotal, shipping]), sumMoney([discount, paymentDiscount]))
+  };
+}
+
+export function couponNotFound(): CouponEligibility {
+  return ineligible('not_found');
+}
+
+function ineligible(reason: CouponIneligibility, details?: CouponIneligibilityDetails): CouponEligibility {
+  return { eligible: false, reason, details, message: null };
+}
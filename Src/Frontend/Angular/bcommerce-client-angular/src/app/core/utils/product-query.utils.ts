@@ -0,0 +1,65 @@
+import { Params, ParamMap } from '@angular/router';
+import { TranslationKey } from '../i18n';
+import { ProductListQuery, ProductSort } from '../models';
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+/**
+ * Ordenações exibidas nas listagens, na ordem do select
+ */
+export const PRODUCT_SORT_OPTIONS: readonly { value: ProductSort; label: TranslationKey }[] = [
+  { value: 'relevance', label: 'sort.relevance' },
+  { value: 'price-asc', label: 'sort.priceAsc' },
+  { value: 'price-desc', label: 'sort.priceDesc' },
+  { value: 'newest', label: 'sort.newest' },
+  { value: 'name-asc', label: 'sort.nameAsc' }
+];
+
+const SORT_OPTIONS = PRODUCT_SORT_OPTIONS.map((option) => option.value);
+
+/**
+ * Lê filtros, ordenação e página dos query params da listagem
+ * Valores inválidos são ignorados, para que URLs editadas à mão não quebrem a página
+ */
+export function parseProductQuery(params: ParamMap, pageSize = DEFAULT_PAGE_SIZE): ProductListQuery {
+  const sort = params.get('sort') as ProductSort | null;
+
+  return {
+    search: params.get('q')?.trim() || undefined,
+    minPrice: readPositiveNumber(params.get('min')),
+    maxPrice: readPositiveNumber(params.get('max')),
+    inStock: params.get('inStock') === 'true' || undefined,
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : 'relevance',
+    pageNumber: Math.max(1, Math.floor(readPositiveNumber(params.get('page')) ?? 1)),
+    pageSize
+  };
+}
+
+/**
+ * Converte a listagem de volta em query params
+ * Valores padrão viram null para sumirem da URL (com queryParamsHandling: 'merge')
+ */
+export function toProductQueryParams(query: Partial<ProductListQuery>): Params {
+  return {
+    q: query.search || null,
+    min: query.minPrice ?? null,
+    max: query.maxPrice ?? null,
+    inStock: query.inStock ? 'true' : null,
+    sort: query.sort && query.sort !== 'relevance' ? query.sort : null,
+    page: query.pageNumber && query.pageNumber > 1 ? query.pageNumber : null
+  };
+}
+
+/**
+ * Indica se há filtros de preço ou estoque aplicados (busca e ordenação não contam)
+ */
+export function hasActiveFilters(query: ProductListQuery): boolean {
+  return query.minPrice !== undefined || query.maxPrice !== undefined || !!query.inStock;
+}
+
+function readPositiveNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
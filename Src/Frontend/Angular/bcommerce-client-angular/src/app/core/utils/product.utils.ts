@@ -0,0 +1,23 @@
+import { Product, ProductImage } from '../models';
+
+/**
+ * Imagem principal do produto (is_primary, senão a primeira pela ordem de exibição)
+ */
+export function getPrimaryImage(product: Pick<Product, 'images'>): ProductImage | null {
+  const images = sortImages(product.images ?? []);
+  return images.find((image) => image.isPrimary) ?? images[0] ?? null;
+}
+
+/**
+ * Imagens na ordem de exibição definida no cadastro
+ */
+export function sortImages(images: ProductImage[]): ProductImage[] {
+  return [...images].sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+/**
+ * Indica se o produto pode ser comprado
+ */
+export function isInStock(product: Pick<Product, 'stockQuantity' | 'isActive'>): boolean {
+  return product.isActive && product.stockQuantity > 0;
+}
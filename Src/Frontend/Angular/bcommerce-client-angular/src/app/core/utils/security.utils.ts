@@ -0,0 +1,59 @@
+import { TranslationKey } from '../i18n';
+import { SecurityEventType } from '../models';
+
+export const SECURITY_EVENT_LABELS: Record<SecurityEventType, TranslationKey> = {
+  LOGIN_SUCCESS: 'security.event.LOGIN_SUCCESS',
+  LOGIN_FAILED: 'security.event.LOGIN_FAILED',
+  LOGOUT: 'security.event.LOGOUT',
+  PASSWORD_CHANGED: 'security.event.PASSWORD_CHANGED',
+  PASSWORD_RESET_REQUESTED: 'security.event.PASSWORD_RESET_REQUESTED',
+  PASSWORD_RESET: 'security.event.PASSWORD_RESET',
+  EMAIL_CONFIRMED: 'security.event.EMAIL_CONFIRMED',
+  ACCOUNT_LOCKED: 'security.event.ACCOUNT_LOCKED',
+  SESSION_REVOKED: 'security.event.SESSION_REVOKED'
+};
+
+/**
+ * Eventos destacados em vermelho na linha do tempo
+ */
+const ALERT_EVENTS: ReadonlySet<string> = new Set<SecurityEventType>(['LOGIN_FAILED', 'ACCOUNT_LOCKED']);
+
+export function isAlertEvent(eventType: string): boolean {
+  return ALERT_EVENTS.has(eventType);
+}
+
+/**
+ * Navegador e sistema a partir do User-Agent
+ * A ordem importa: Edge e Opera também se anunciam como Chrome, e Chrome como Safari
+ */
+export function parseUserAgent(userAgent: string | null | undefined): {
+  browser: string | null;
+  system: string | null;
+} {
+  if (!userAgent) return { browser: null, system: null };
+
+  const browser =
+    (/Edg\//.test(userAgent) && 'Edge') ||
+    (/OPR\//.test(userAgent) && 'Opera') ||
+    (/Firefox\//.test(userAgent) && 'Firefox') ||
+    (/Chrome\//.test(userAgent) && 'Chrome') ||
+    (/Safari\//.test(userAgent) && 'Safari') ||
+    null;
+
+  const system =
+    (/Android/.test(userAgent) && 'Android') ||
+    (/iPhone|iPad|iPod/.test(userAgent) && 'iOS') ||
+    (/Windows/.test(userAgent) && 'Windows') ||
+    (/Mac OS X|Macintosh/.test(userAgent) && 'macOS') ||
+    (/Linux/.test(userAgent) && 'Linux') ||
+    null;
+
+  return { browser, system };
+}
+
+/**
+ * Celulares e tablets recebem outro ícone na lista de sessões
+ */
+export function isMobileUserAgent(userAgent: string | null | undefined): boolean {
+  return !!userAgent && /Android|iPhone|iPad|iPod|Mobile/.test(userAgent);
+}
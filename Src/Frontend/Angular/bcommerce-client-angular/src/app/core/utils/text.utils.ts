@@ -0,0 +1,38 @@
+/**
+ * Normaliza para comparação: minúsculas e sem acentos ("Eletrônicos" → "eletronicos")
+ * Cada caractere do texto original corresponde a um caractere do resultado
+ */
+export function normalizeText(value: string): string {
+  return Array.from(value, (char) => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase() || char).join('');
+}
+
+/**
+ * Divide o texto em trechos, marcando as ocorrências do termo (sem diferenciar acentos e maiúsculas)
+ */
+export function splitMatches(text: string, term: string): { text: string; match: boolean }[] {
+  const needle = normalizeText(term.trim());
+  if (!needle) return [{ text, match: false }];
+
+  const haystack = normalizeText(text);
+  const segments: { text: string; match: boolean }[] = [];
+  let cursor = 0;
+
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, cursor)) {
+    if (index > cursor) segments.push({ text: text.slice(cursor, index), match: false });
+    segments.push({ text: text.slice(index, index + needle.length), match: true });
+    cursor = index + needle.length;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
+
+/**
+ * Substitui os parâmetros "{nome}" do texto; parâmetros ausentes ficam como estão
+ */
+export function interpolate(template: string, params?: Record<string, string | number>): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
@@ -0,0 +1,55 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { AuthService } from '../../../../core/services/auth.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+type ConfirmationStatus = 'loading' | 'success' | 'error';
+
+@Component({
+  selector: 'app-confirm-email',
+  standalone: true,
+  imports: [CommonModule, RouterLink, TranslatePipe],
+  templateUrl: './confirm-email.html',
+  styleUrl: './confirm-email.css',
+})
+export class ConfirmEmail implements OnInit {
+  private authService = inject(AuthService);
+  private route = inject(ActivatedRoute);
+  private i18n = inject(I18nService);
+
+  // Signals para estado do componente
+  status = signal<ConfirmationStatus>('loading');
+  message = signal<string | null>(null);
+  email = signal<string | null>(null);
+
+  ngOnInit() {
+    const params = this.route.snapshot.queryParamMap;
+    const token = params.get('token');
+    const userId = params.get('userId');
+
+    if (!token || !userId) {
+      this.status.set('error');
+      this.message.set(this.i18n.t('confirmEmail.invalidLink'));
+      return;
+    }
+
+    // O token vem do link do email, então a confirmação é enviada automaticamente
+    this.confirm(userId, token);
+  }
+
+  private async confirm(userId: string, token: string) {
+    this.status.set('loading');
+
+    const response = await this.authService.confirmEmail(userId, token);
+
+    if (response.success) {
+      this.email.set(response.data?.email ?? null);
+      this.status.set('success');
+    } else {
+      this.message.set(response.message || this.i18n.t('confirmEmail.failure'));
+      this.status.set('error');
+    }
+  }
+}
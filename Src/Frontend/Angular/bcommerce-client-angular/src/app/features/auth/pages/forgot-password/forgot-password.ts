@@ -0,0 +1,70 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { AuthService } from '../../../../core/services/auth.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { I18nService } from '../../../../core/services/i18n.service';
+
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
+  templateUrl: './forgot-password.html',
+  styleUrl: './forgot-password.css',
+})
+export class ForgotPassword {
+  private fb = inject(FormBuilder);
+  private authService = inject(AuthService);
+  private toastService = inject(ToastService);
+  private i18n = inject(I18nService);
+
+  // Signals para estado do componente
+  isLoading = signal(false);
+  submitted = signal(false);
+
+  forgotForm: FormGroup;
+
+  constructor() {
+    this.forgotForm = this.fb.group({
+      email: ['', [Validators.required, Validators.email]]
+    });
+  }
+
+  hasFieldError(fieldName: string): boolean {
+    const field = this.forgotForm.get(fieldName);
+    return !!(field && field.errors && field.touched);
+  }
+
+  getFieldError(fieldName: string): string {
+    const field = this.forgotForm.get(fieldName);
+    if (!field || !field.errors || !field.touched) return '';
+
+    return this.i18n.validationError(field.errors, this.i18n.t('field.email')) ?? '';
+  }
+
+  async onSubmit() {
+    if (!this.forgotForm.valid) {
+      this.forgotForm.markAllAsTouched();
+      return;
+    }
+
+    this.isLoading.set(true);
+
+    try {
+      const response = await this.authService.forgotPassword(this.forgotForm.value.email);
+
+      // A resposta é sempre neutra para não revelar quais emails estão cadastrados;
+      // apenas falhas de comunicação são informadas
+      if (!response.success && (response.error?.kind === 'network' || response.error?.kind === 'server')) {
+        this.toastService.error(response.message || this.i18n.t('forgotPassword.failure'));
+        return;
+      }
+
+      this.submitted.set(true);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+}
@@ -1,15 +1,19 @@
 import { Component, computed, inject, signal } from '@angular/core';
 import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
-import { Router, RouterLink } from '@angular/router';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { AuthService } from '../../../../core/services/auth.service';
 import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { TranslationKey } from '../../../../core/i18n';
+import { applyServerErrors, getServerError } from '../../../../core/utils/form-errors.utils';
 import { LoginRequest } from '../../../../core/models/user.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
 
 @Component({
   selector: 'app-login',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
   templateUrl: './login.html',
   styleUrl: './login.css',
 })
@@ -17,7 +21,9 @@ export class Login {
   private fb = inject(FormBuilder);
   private authService = inject(AuthService);
   private toastService = inject(ToastService);
+  private i18n = inject(I18nService);
   private router = inject(Router);
+  private route = inject(ActivatedRoute);
 
   // Signals para estado do componente
   showPassword = signal(false);
@@ -35,8 +41,9 @@ export class Login {
 
   constructor() {
     this.loginForm = this.fb.group({
-      email: ['', [Validators.required, Validators.email]],
-      password: ['', [Validators.required, Validators.minLength(6)]]
+      email: [this.route.snapshot.queryParamMap.get('email') ?? '', [Validators.required, Validators.email]],
+      password: ['', [Validators.required, Validators.minLength(6)]],
+      rememberMe: [false]
     });
   }
 
@@ -58,20 +65,19 @@ export class Login {
 
     const errors = field.errors;
     
-    if (errors['required']) return `${this.getFieldLabel(fieldName)} é obrigatório`;
-    if (errors['email']) return 'Email deve ter um formato válido';
-    if (errors['minlength']) return `${this.getFieldLabel(fieldName)} deve ter pelo menos ${errors['minlength'].requiredLength} caracteres`;
-    
-    return 'Campo inválido';
+    const serverError = getServerError(field);
+    if (serverError) return serverError;
+
+    return this.i18n.validationError(errors, this.getFieldLabel(fieldName)) ?? '';
   }
 
-  // Obter label do campo
+  // Obter label do campo no idioma atual
   private getFieldLabel(fieldName: string): string {
-    const labels: { [key: string]: string } = {
-      email: 'Email',
-      password: 'Senha'
+    const labels: { [key: string]: TranslationKey } = {
+      email: 'field.email',
+      password: 'field.password'
     };
-    return labels[fieldName] || fieldName;
+    return labels[fieldName] ? this.i18n.t(labels[fieldName]) : fieldName;
   }
 
   // Realizar login
@@ -90,24 +96,32 @@ export class Login {
         password: this.loginForm.get('password')?.value
       };
 
-      const response = await this.authService.login(loginData);
+      // Sem "Lembrar de mim" a sessão fica restrita à aba (sessionStorage)
+      const rememberMe = !!this.loginForm.get('rememberMe')?.value;
+      const response = await this.authService.login(loginData, rememberMe ? 'local' : 'session');
 
       if (response.success) {
         // Mostrar toast de sucesso
-        this.toastService.success('Login realizado com sucesso! Bem-vindo!');
+        this.toastService.success(this.i18n.t('login.success'));
         
-        // Redirecionar para perfil do usuário
-        await this.router.navigate(['/profile']);
+        // Redirecionar para a página de origem (guard/interceptor) ou para o perfil
+        const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+        await this.router.navigateByUrl(returnUrl?.startsWith('/') ? returnUrl : '/profile');
       } else {
-        this.errorMessage.set(response.message || 'Erro ao fazer login');
+        // Erros de validação do backend são exibidos junto a cada campo
+        if (response.error?.kind === 'validation') {
+          applyServerErrors(this.loginForm, response.error.fieldErrors);
+        }
+
+        this.errorMessage.set(response.message || this.i18n.t('login.failure'));
         // Mostrar toast de erro
-        this.toastService.error(response.message || 'Erro ao fazer login');
+        this.toastService.error(response.message || this.i18n.t('login.failure'));
       }
     } catch (error: any) {
       console.error('Erro no login:', error);
-      this.errorMessage.set('Erro interno. Tente novamente.');
+      this.errorMessage.set(this.i18n.t('error.internal'));
       // Mostrar toast de erro para exceções
-      this.toastService.error('Erro interno. Tente novamente.');
+      this.toastService.error(this.i18n.t('error.internal'));
     } finally {
       this.isLoading.set(false);
     }
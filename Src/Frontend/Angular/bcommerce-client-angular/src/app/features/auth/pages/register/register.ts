@@ -5,11 +5,16 @@ import { CommonModule } from '@angular/common';
 import { AuthService } from '../../../../core/services/auth.service';
 import { RegisterUserRequest } from '../../../../core/models/user.model';
 import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { TranslationKey } from '../../../../core/i18n';
+import { applyServerErrors, getServerError } from '../../../../core/utils/form-errors.utils';
+import { strongPasswordValidator } from '../../../../shared/validators/password.validators';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
 
 @Component({
   selector: 'app-register',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
   templateUrl: './register.html',
   styleUrl: './register.css',
 })
@@ -18,6 +23,7 @@ export class Register {
   private authService = inject(AuthService);
   private router = inject(Router);
   private toastService = inject(ToastService);
+  private i18n = inject(I18nService);
 
   // Signals para gerenciamento de estado
   isLoading = signal(false);
@@ -65,7 +71,7 @@ export class Register {
       password: ['', [
         Validators.required,
         Validators.minLength(8),
-        this.strongPasswordValidator
+        strongPasswordValidator
       ]],
       confirmPassword: ['', [Validators.required]],
       fullName: ['', [Validators.required, Validators.minLength(2)]],
@@ -74,19 +80,6 @@ export class Register {
     });
   }
 
-  // Validador personalizado para senha forte
-  private strongPasswordValidator(control: any) {
-    const value = control.value;
-    if (!value) return null;
-
-    const hasUpperCase = /[A-Z]/.test(value);
-    const hasLowerCase = /[a-z]/.test(value);
-    const hasNumeric = /[0-9]/.test(value);
-    
-    const valid = hasUpperCase && hasLowerCase && hasNumeric;
-    return valid ? null : { strongPassword: true };
-  }
-
   // Validador personalizado para telefone
   private phoneValidator(control: any) {
     const value = control.value;
@@ -122,28 +115,22 @@ export class Register {
 
     const errors = field.errors;
     
-    if (errors['required']) return `${this.getFieldLabel(fieldName)} é obrigatório`;
-    if (errors['email']) return 'Email inválido';
-    if (errors['minlength']) {
-      const requiredLength = errors['minlength'].requiredLength;
-      return `${this.getFieldLabel(fieldName)} deve ter pelo menos ${requiredLength} caracteres`;
-    }
-    if (errors['strongPassword']) return 'Senha deve conter maiúscula, minúscula e número';
-    if (errors['invalidPhone']) return 'Formato: (11) 99999-9999';
+    const serverError = getServerError(field);
+    if (serverError) return serverError;
 
-    return null;
+    return this.i18n.validationError(errors, this.getFieldLabel(fieldName));
   }
 
   private getFieldLabel(fieldName: string): string {
-    const labels: { [key: string]: string } = {
-      email: 'Email',
-      password: 'Senha',
-      confirmPassword: 'Confirmação de senha',
-      fullName: 'Nome completo',
-      phone: 'Telefone',
-      birthDate: 'Data de nascimento'
+    const labels: { [key: string]: TranslationKey } = {
+      email: 'field.email',
+      password: 'field.password',
+      confirmPassword: 'field.confirmPassword',
+      fullName: 'field.fullName',
+      phone: 'field.phone',
+      birthDate: 'field.birthDate'
     };
-    return labels[fieldName] || fieldName;
+    return labels[fieldName] ? this.i18n.t(labels[fieldName]) : fieldName;
   }
 
   // Verificar se campo tem erro
@@ -160,7 +147,7 @@ export class Register {
     }
 
     if (!this.passwordsMatch()) {
-      this.errorMessage.set('As senhas não coincidem');
+      this.errorMessage.set(this.i18n.t('validation.passwordMismatch'));
       return;
     }
 
@@ -182,18 +169,25 @@ export class Register {
 
       if (response.success) {
         // Mostrar toast de sucesso
-        this.toastService.success('Conta criada com sucesso! Bem-vindo!');
-        // Registro bem-sucedido, redirecionar para dashboard
-        await this.router.navigate(['/dashboard']);
+        this.toastService.success(this.i18n.t('register.success'));
+        // A conta precisa ser ativada pelo link enviado por email antes do login
+        await this.router.navigate(['/login'], {
+          queryParams: { email: registerData.email }
+        });
       } else {
+        // Erros de validação do backend são exibidos junto a cada campo
+        if (response.error?.kind === 'validation') {
+          applyServerErrors(this.registerForm, response.error.fieldErrors);
+        }
+
         // Mostrar toast de erro
-        this.toastService.error(response.message || 'Erro ao criar conta');
-        this.errorMessage.set(response.message || 'Erro ao criar conta');
+        this.toastService.error(response.message || this.i18n.t('register.failure'));
+        this.errorMessage.set(response.message || this.i18n.t('register.failure'));
       }
     } catch (error: any) {
       // Mostrar toast de erro para exceções
-      this.toastService.error(error?.message || 'Erro interno. Tente novamente.');
-      this.errorMessage.set(error?.message || 'Erro inesperado ao criar conta');
+      this.toastService.error(error?.message || this.i18n.t('error.internal'));
+      this.errorMessage.set(error?.message || this.i18n.t('register.unexpected'));
     } finally {
       this.isLoading.set(false);
     }
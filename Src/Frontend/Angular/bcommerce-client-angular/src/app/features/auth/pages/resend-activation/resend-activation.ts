@@ -0,0 +1,109 @@
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { AuthService } from '../../../../core/services/auth.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { applyServerErrors, getServerError } from '../../../../core/utils/form-errors.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+@Component({
+  selector: 'app-resend-activation',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
+  templateUrl: './resend-activation.html',
+  styleUrl: './resend-activation.css',
+})
+export class ResendActivation {
+  private fb = inject(FormBuilder);
+  private authService = inject(AuthService);
+  private toastService = inject(ToastService);
+  private i18n = inject(I18nService);
+  private route = inject(ActivatedRoute);
+
+  /** Intervalo mínimo (s) entre dois reenvios */
+  private readonly COOLDOWN_SECONDS = 60;
+  private cooldownTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Signals para estado do componente
+  isLoading = signal(false);
+  sent = signal(false);
+  cooldown = signal(0);
+
+  canSubmit = computed(() => !this.isLoading() && this.cooldown() === 0);
+
+  resendForm: FormGroup;
+
+  constructor() {
+    this.resendForm = this.fb.group({
+      email: [this.route.snapshot.queryParamMap.get('email') ?? '', [Validators.required, Validators.email]]
+    });
+
+    inject(DestroyRef).onDestroy(() => this.stopCooldown());
+  }
+
+  hasFieldError(fieldName: string): boolean {
+    const field = this.resendForm.get(fieldName);
+    return !!(field && field.errors && field.touched);
+  }
+
+  getFieldError(fieldName: string): string {
+    const field = this.resendForm.get(fieldName);
+    if (!field || !field.errors || !field.touched) return '';
+
+    const serverError = getServerError(field);
+    if (serverError) return serverError;
+
+    return this.i18n.validationError(field.errors, this.i18n.t('field.email')) ?? '';
+  }
+
+  async onSubmit() {
+    if (!this.resendForm.valid) {
+      this.resendForm.markAllAsTouched();
+      return;
+    }
+
+    if (!this.canSubmit()) return;
+
+    this.isLoading.set(true);
+
+    try {
+      const response = await this.authService.resendActivationToken(this.resendForm.value.email);
+
+      if (response.success) {
+        this.sent.set(true);
+        this.toastService.success(this.i18n.t('resendActivation.success'));
+        this.startCooldown();
+      } else {
+        if (response.error?.kind === 'validation') {
+          applyServerErrors(this.resendForm, response.error.fieldErrors);
+        }
+        this.toastService.error(response.message || this.i18n.t('resendActivation.failure'));
+      }
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  // Bloqueia novos envios até o fim da contagem regressiva
+  private startCooldown() {
+    this.stopCooldown();
+    this.cooldown.set(this.COOLDOWN_SECONDS);
+
+    this.cooldownTimer = setInterval(() => {
+      this.cooldown.update((seconds) => seconds - 1);
+      if (this.cooldown() <= 0) {
+        this.stopCooldown();
+      }
+    }, 1000);
+  }
+
+  private stopCooldown() {
+    if (this.cooldownTimer) {
+      clearInterval(this.cooldownTimer);
+      this.cooldownTimer = null;
+    }
+    this.cooldown.set(0);
+  }
+}
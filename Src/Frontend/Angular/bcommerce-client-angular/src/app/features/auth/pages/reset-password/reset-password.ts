@@ -0,0 +1,118 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { AuthService } from '../../../../core/services/auth.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { TranslationKey } from '../../../../core/i18n';
+import { applyServerErrors, getServerError } from '../../../../core/utils/form-errors.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import {
+  matchFieldsValidator,
+  strongPasswordValidator
+} from '../../../../shared/validators/password.validators';
+
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
+  templateUrl: './reset-password.html',
+  styleUrl: './reset-password.css',
+})
+export class ResetPassword {
+  private fb = inject(FormBuilder);
+  private authService = inject(AuthService);
+  private toastService = inject(ToastService);
+  private i18n = inject(I18nService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+
+  // Token recebido no link do email
+  readonly token = this.route.snapshot.queryParamMap.get('token');
+
+  // Signals para estado do componente
+  isLoading = signal(false);
+  showPassword = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  resetForm: FormGroup;
+
+  constructor() {
+    this.resetForm = this.fb.group(
+      {
+        email: [this.route.snapshot.queryParamMap.get('email') ?? '', [Validators.required, Validators.email]],
+        newPassword: ['', [Validators.required, Validators.minLength(8), strongPasswordValidator]],
+        confirmPassword: ['', [Validators.required]]
+      },
+      { validators: matchFieldsValidator('newPassword', 'confirmPassword') }
+    );
+  }
+
+  togglePasswordVisibility() {
+    this.showPassword.update((show) => !show);
+  }
+
+  hasFieldError(fieldName: string): boolean {
+    const field = this.resetForm.get(fieldName);
+    return !!(field && field.errors && field.touched);
+  }
+
+  getFieldError(fieldName: string): string | null {
+    const field = this.resetForm.get(fieldName);
+    if (!field || !field.errors || !field.touched) return null;
+
+    const serverError = getServerError(field);
+    if (serverError) return serverError;
+
+    return this.i18n.validationError(field.errors, this.getFieldLabel(fieldName));
+  }
+
+  passwordsMismatch(): boolean {
+    return !!this.resetForm.errors?.['passwordMismatch'] && !!this.resetForm.get('confirmPassword')?.touched;
+  }
+
+  private getFieldLabel(fieldName: string): string {
+    const labels: { [key: string]: TranslationKey } = {
+      email: 'field.email',
+      newPassword: 'field.newPassword',
+      confirmPassword: 'field.confirmPassword'
+    };
+    return labels[fieldName] ? this.i18n.t(labels[fieldName]) : fieldName;
+  }
+
+  async onSubmit() {
+    if (!this.token) return;
+
+    if (!this.resetForm.valid) {
+      this.resetForm.markAllAsTouched();
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const formValue = this.resetForm.value;
+      const response = await this.authService.resetPassword({
+        email: formValue.email,
+        token: this.token,
+        newPassword: formValue.newPassword,
+        confirmPassword: formValue.confirmPassword
+      });
+
+      if (response.success) {
+        this.toastService.success(this.i18n.t('resetPassword.success'));
+        await this.router.navigate(['/login'], { queryParams: { email: formValue.email } });
+      } else {
+        if (response.error?.kind === 'validation') {
+          applyServerErrors(this.resetForm, response.error.fieldErrors);
+        }
+        this.errorMessage.set(response.message || this.i18n.t('resetPassword.failure'));
+        this.toastService.error(response.message || this.i18n.t('resetPassword.failure'));
+      }
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+}
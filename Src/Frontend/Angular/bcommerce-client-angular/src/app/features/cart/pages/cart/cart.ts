@@ -0,0 +1,51 @@
+import { Component, OnInit, computed, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CartService } from '../../../../core/services/cart.service';
+import { CouponService } from '../../../../core/services/coupon.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { APP_CONFIG } from '../../../../core/config/app-config';
+import { calculatePricing } from '../../../../core/utils/pricing.utils';
+import { CartLine } from '../../../../shared/components/cart-line/cart-line';
+import { CouponInput } from '../../../../shared/components/coupon-input/coupon-input';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { InstallmentsPipe } from '../../../../shared/pipes/installments.pipe';
+import { PixPricePipe } from '../../../../shared/pipes/pix-price.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Página do carrinho (/cart)
+ * Confere preços e estoque ao abrir e pede confirmação quando algo mudou
+ */
+@Component({
+  selector: 'app-cart',
+  imports: [BrlPipe, PixPricePipe, InstallmentsPipe, TranslatePipe, RouterLink, CartLine, CouponInput],
+  templateUrl: './cart.html',
+  styleUrl: './cart.css'
+})
+export class CartPage implements OnInit {
+  protected readonly cartService = inject(CartService);
+  private readonly couponService = inject(CouponService);
+  protected readonly locale = inject(I18nService).locale;
+  protected readonly installmentRule = inject(APP_CONFIG).payments.installments.credit_card;
+
+  // O frete só é conhecido no checkout
+  protected readonly pricing = computed(() =>
+    calculatePricing({ subtotal: this.cartService.subtotal(), coupon: this.couponService.coupon() })
+  );
+
+  protected readonly changesByProduct = computed(
+    () => new Map(this.cartService.changes().map((change) => [change.productId, change]))
+  );
+
+  ngOnInit(): void {
+    void this.cartService.validate();
+  }
+
+  acknowledgeChanges(): void {
+    void this.cartService.acknowledgeChanges();
+  }
+
+  clearCart(): void {
+    void this.cartService.clear();
+  }
+}
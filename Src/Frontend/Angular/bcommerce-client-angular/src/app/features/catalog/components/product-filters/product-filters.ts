@@ -0,0 +1,70 @@
+import { Component, computed, effect, inject, input, output, signal, untracked } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { ProductListQuery } from '../../../../core/models';
+import { hasActiveFilters } from '../../../../core/utils/product-query.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Filtros laterais das listagens (faixa de preço e estoque)
+ * Não navega: emite as alterações para a página atualizar os query params
+ */
+@Component({
+  selector: 'app-product-filters',
+  imports: [ReactiveFormsModule, TranslatePipe],
+  templateUrl: './product-filters.html',
+  styleUrl: './product-filters.css'
+})
+export class ProductFilters {
+  private readonly fb = inject(FormBuilder);
+  private readonly i18n = inject(I18nService);
+
+  readonly query = input.required<ProductListQuery>();
+  readonly queryChange = output<Partial<ProductListQuery>>();
+
+  readonly priceError = signal<string | null>(null);
+  readonly hasActiveFilters = computed(() => hasActiveFilters(this.query()));
+
+  // Rascunho da faixa de preço; só vai para a URL ao aplicar
+  readonly priceForm = this.fb.group({
+    min: this.fb.control<number | null>(null),
+    max: this.fb.control<number | null>(null)
+  });
+
+  constructor() {
+    // Mantém o rascunho igual à URL (ex.: ao usar o botão voltar)
+    effect(() => {
+      const query = this.query();
+      untracked(() =>
+        this.priceForm.setValue({ min: query.minPrice ?? null, max: query.maxPrice ?? null }, { emitEvent: false })
+      );
+    });
+  }
+
+  onInStockChange(checked: boolean): void {
+    this.queryChange.emit({ inStock: checked, pageNumber: 1 });
+  }
+
+  applyPriceFilter(): void {
+    const { min, max } = this.priceForm.getRawValue();
+    const minPrice = this.toPrice(min);
+    const maxPrice = this.toPrice(max);
+
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      this.priceError.set(this.i18n.t('filters.invalidRange'));
+      return;
+    }
+
+    this.priceError.set(null);
+    this.queryChange.emit({ minPrice, maxPrice, pageNumber: 1 });
+  }
+
+  clearFilters(): void {
+    this.priceError.set(null);
+    this.queryChange.emit({ minPrice: undefined, maxPrice: undefined, inStock: false, pageNumber: 1 });
+  }
+
+  private toPrice(value: number | null): number | undefined {
+    return value === null || Number.isNaN(value) || value < 0 ? undefined : value;
+  }
+}
@@ -0,0 +1,66 @@
+import { Component, computed, effect, input, signal, untracked } from '@angular/core';
+import { ProductImage } from '../../../../core/models';
+import { sortImages } from '../../../../core/utils/product.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Galeria de imagens do produto
+ * Ordena pelo display_order, começa pela imagem principal e amplia a área sob o cursor
+ */
+@Component({
+  selector: 'app-product-gallery',
+  imports: [TranslatePipe],
+  templateUrl: './product-gallery.html',
+  styleUrl: './product-gallery.css'
+})
+export class ProductGallery {
+  readonly images = input.required<ProductImage[]>();
+  readonly alt = input('');
+
+  // Fator de ampliação do zoom
+  protected readonly ZOOM_SCALE = 2;
+
+  protected readonly ordered = computed(() => sortImages(this.images()));
+  protected readonly selectedIndex = signal(0);
+  protected readonly selected = computed(() => this.ordered()[this.selectedIndex()] ?? null);
+
+  protected readonly isZooming = signal(false);
+  protected readonly zoomOrigin = signal('50% 50%');
+
+  constructor() {
+    // Ao trocar de produto, volta para a imagem principal
+    effect(() => {
+      const images = this.ordered();
+      const primary = images.findIndex((image) => image.isPrimary);
+      untracked(() => this.selectedIndex.set(Math.max(primary, 0)));
+    });
+  }
+
+  select(index: number): void {
+    this.selectedIndex.set(index);
+  }
+
+  previous(): void {
+    const total = this.ordered().length;
+    if (total > 0) this.selectedIndex.update((index) => (index - 1 + total) % total);
+  }
+
+  next(): void {
+    const total = this.ordered().length;
+    if (total > 0) this.selectedIndex.update((index) => (index + 1) % total);
+  }
+
+  protected onZoomMove(event: MouseEvent): void {
+    const target = event.currentTarget as HTMLElement;
+    const rect = target.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+
+    this.zoomOrigin.set(`${x}% ${y}%`);
+    this.isZooming.set(true);
+  }
+
+  protected onZoomLeave(): void {
+    this.isZooming.set(false);
+  }
+}
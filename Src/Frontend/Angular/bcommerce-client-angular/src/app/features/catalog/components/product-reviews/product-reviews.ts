@@ -0,0 +1,166 @@
+import { Component, computed, effect, inject, input, signal, untracked } from '@angular/core';
+import { DatePipe, DecimalPipe } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { AuthService } from '../../../../core/services/auth.service';
+import { CatalogService } from '../../../../core/services/catalog.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { PagedResult, ProductReview, ProductReviewSummary, ReviewEligibility } from '../../../../core/models';
+import { applyServerErrors, getServerError } from '../../../../core/utils/form-errors.utils';
+import { StarRating } from '../../../../shared/components/star-rating/star-rating';
+import { Pagination } from '../../../../shared/components/pagination/pagination';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Seção de avaliações do produto: média, histograma por nota, lista paginada
+ * e formulário para quem comprou o produto
+ */
+@Component({
+  selector: 'app-product-reviews',
+  imports: [ReactiveFormsModule, RouterLink, DatePipe, DecimalPipe, StarRating, Pagination, TranslatePipe],
+  templateUrl: './product-reviews.html',
+  styleUrl: './product-reviews.css'
+})
+export class ProductReviews {
+  private readonly fb = inject(FormBuilder);
+  private readonly catalogService = inject(CatalogService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  protected readonly authService = inject(AuthService);
+
+  readonly productId = input.required<string>();
+  /** URL da página do produto, usada como returnUrl do login */
+  readonly returnUrl = input('');
+
+  private readonly PAGE_SIZE = 5;
+  private readonly COMMENT_MAX_LENGTH = 1000;
+
+  readonly summary = signal<ProductReviewSummary | null>(null);
+  readonly reviews = signal<PagedResult<ProductReview> | null>(null);
+  readonly eligibility = signal<ReviewEligibility | null>(null);
+  readonly isLoading = signal(false);
+  readonly isSubmitting = signal(false);
+
+  readonly page = signal(1);
+
+  // Linhas do histograma, da nota 5 para a 1
+  readonly distribution = computed(() => {
+    const summary = this.summary();
+    const total = summary?.totalReviews ?? 0;
+
+    return [5, 4, 3, 2, 1].map((rating) => {
+      const count = summary?.distribution[rating] ?? 0;
+      return { rating, count, percent: total > 0 ? Math.round((count / total) * 100) : 0 };
+    });
+  });
+
+  readonly reviewForm = this.fb.group({
+    rating: this.fb.nonNullable.control(0, [Validators.min(1), Validators.max(5)]),
+    comment: this.fb.nonNullable.control('', [Validators.maxLength(this.COMMENT_MAX_LENGTH)])
+  });
+
+  constructor() {
+    effect(() => {
+      const productId = this.productId();
+      untracked(() => {
+        this.page.set(1);
+        this.loadSummary(productId);
+        this.loadReviews(productId, 1);
+      });
+    });
+
+    // Elegibilidade depende do usuário: recarrega ao entrar ou sair
+    effect(() => {
+      const productId = this.productId();
+      const isAuthenticated = this.authService.isAuthenticated();
+      untracked(() => this.loadEligibility(productId, isAuthenticated));
+    });
+  }
+
+  onPageChange(page: number): void {
+    this.page.set(page);
+    this.loadReviews(this.productId(), page);
+  }
+
+  onRatingChange(rating: number): void {
+    this.reviewForm.controls.rating.setValue(rating);
+    this.reviewForm.controls.rating.markAsTouched();
+  }
+
+  getCommentError(): string | null {
+    const control = this.reviewForm.controls.comment;
+    if (!control.touched || !control.errors) return null;
+
+    const serverError = getServerError(control);
+    if (serverError) return serverError;
+    return this.i18n.validationError(control.errors, this.i18n.t('field.comment'));
+  }
+
+  async onSubmit(): Promise<void> {
+    const { rating, comment } = this.reviewForm.getRawValue();
+    if (!rating) {
+      this.reviewForm.controls.rating.markAsTouched();
+      return;
+    }
+    if (this.reviewForm.invalid) {
+      this.reviewForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSubmitting.set(true);
+    try {
+      const response = await this.catalogService.createReview(this.productId(), {
+        rating,
+        comment: comment.trim() || null,
+        orderId: this.eligibility()?.orderId ?? null
+      });
+
+      if (response.success) {
+        this.toastService.success(this.i18n.t('reviews.published'));
+        this.reviewForm.reset();
+        this.eligibility.set({ canReview: false, alreadyReviewed: true });
+        this.page.set(1);
+        this.loadSummary(this.productId());
+        this.loadReviews(this.productId(), 1);
+      } else {
+        if (response.error?.kind === 'validation') {
+          applyServerErrors(this.reviewForm, response.error.fieldErrors);
+        }
+        this.toastService.error(response.message || this.i18n.t('reviews.publishFailed'));
+      }
+    } finally {
+      this.isSubmitting.set(false);
+    }
+  }
+
+  private async loadSummary(productId: string): Promise<void> {
+    const response = await this.catalogService.getReviewSummary(productId);
+    if (productId === this.productId()) {
+      this.summary.set(response.success ? response.data ?? null : null);
+    }
+  }
+
+  private async loadReviews(productId: string, page: number): Promise<void> {
+    this.isLoading.set(true);
+    const response = await this.catalogService.getReviews(productId, page, this.PAGE_SIZE);
+
+    // Ignora respostas de um produto ou página que já não estão na tela
+    if (productId !== this.productId() || page !== this.page()) return;
+
+    this.reviews.set(response.success ? response.data ?? null : null);
+    this.isLoading.set(false);
+  }
+
+  private async loadEligibility(productId: string, isAuthenticated: boolean): Promise<void> {
+    if (!isAuthenticated) {
+      this.eligibility.set(null);
+      return;
+    }
+
+    const response = await this.catalogService.getReviewEligibility(productId);
+    if (productId === this.productId()) {
+      this.eligibility.set(response.success ? response.data ?? null : null);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CatalogService } from '../../../../core/services/catalog.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { Category } from '../../../../core/models';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Índice de categorias (/categories)
+ */
+@Component({
+  selector: 'app-categories',
+  imports: [RouterLink, TranslatePipe],
+  templateUrl: './categories.html',
+  styleUrl: './categories.css'
+})
+export class Categories implements OnInit {
+  private readonly catalogService = inject(CatalogService);
+  private readonly i18n = inject(I18nService);
+
+  readonly categories = signal<Category[]>([]);
+  readonly isLoading = signal(true);
+  readonly errorMessage = signal<string | null>(null);
+
+  async ngOnInit(): Promise<void> {
+    const response = await this.catalogService.getCategories();
+
+    if (response.success && response.data) {
+      this.categories.set(this.buildTree(response.data));
+    } else {
+      this.errorMessage.set(response.message || this.i18n.t('catalog.categoriesFailed'));
+    }
+
+    this.isLoading.set(false);
+  }
+
+  /**
+   * O endpoint pode devolver a lista plana (parentId) ou já em árvore (children)
+   */
+  private buildTree(categories: Category[]): Category[] {
+    const active = categories.filter((category) => category.isActive);
+    if (active.some((category) => category.children?.length)) {
+      return active.filter((category) => !category.parentId);
+    }
+
+    return active
+      .filter((category) => !category.parentId)
+      .map((root) => ({ ...root, children: active.filter((category) => category.parentId === root.id) }));
+  }
+}
@@ -0,0 +1,134 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { CatalogService } from '../../../../core/services/catalog.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { Category, PagedResult, Product, ProductListQuery, ProductSort } from '../../../../core/models';
+import {
+  PRODUCT_SORT_OPTIONS,
+  hasActiveFilters,
+  parseProductQuery,
+  toProductQueryParams
+} from '../../../../core/utils/product-query.utils';
+import { ProductCard } from '../../../../shared/components/product-card/product-card';
+import { Pagination } from '../../../../shared/components/pagination/pagination';
+import { ProductFilters } from '../../components/product-filters/product-filters';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Listagem de produtos de uma categoria (/category/:slug)
+ * Filtros, ordenação e página ficam nos query params, então a URL pode ser
+ * compartilhada e o botão voltar restaura exatamente a mesma listagem
+ */
+@Component({
+  selector: 'app-category-listing',
+  imports: [RouterLink, ProductCard, Pagination, ProductFilters, TranslatePipe],
+  templateUrl: './category-listing.html',
+  styleUrl: './category-listing.css'
+})
+export class CategoryListing {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly catalogService = inject(CatalogService);
+  private readonly i18n = inject(I18nService);
+
+  private readonly paramMap = toSignal(this.route.paramMap, { requireSync: true });
+  private readonly queryParamMap = toSignal(this.route.queryParamMap, { requireSync: true });
+
+  // Descarta respostas de requisições que já foram substituídas por outra
+  private productsRequestId = 0;
+
+  readonly sortOptions = PRODUCT_SORT_OPTIONS;
+
+  readonly slug = computed(() => this.paramMap().get('slug') ?? '');
+  readonly query = computed<ProductListQuery>(() => ({
+    ...parseProductQuery(this.queryParamMap()),
+    categorySlug: this.slug()
+  }));
+
+  readonly category = signal<Category | null>(null);
+  readonly result = signal<PagedResult<Product> | null>(null);
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal<string | null>(null);
+
+  readonly title = computed(() => this.category()?.name ?? this.formatSlug(this.slug()));
+  readonly hasActiveFilters = computed(() => hasActiveFilters(this.query()));
+
+  constructor() {
+    effect(() => {
+      const slug = this.slug();
+      untracked(() => this.loadCategory(slug));
+    });
+
+    effect(() => {
+      const query = this.query();
+      untracked(() => this.loadProducts(query));
+    });
+  }
+
+  onSortChange(sort: string): void {
+    this.updateQuery({ sort: sort as ProductSort, pageNumber: 1 });
+  }
+
+  clearFilters(): void {
+    this.updateQuery({ minPrice: undefined, maxPrice: undefined, inStock: false, pageNumber: 1 });
+  }
+
+  onPageChange(page: number): void {
+    this.updateQuery({ pageNumber: page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  retry(): void {
+    this.loadProducts(this.query());
+  }
+
+  /**
+   * Navega mantendo os demais query params; cada mudança gera uma entrada no histórico
+   */
+  updateQuery(changes: Partial<ProductListQuery>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toProductQueryParams({ ...this.query(), ...changes })
+    });
+  }
+
+  private async loadCategory(slug: string): Promise<void> {
+    this.category.set(null);
+    const response = await this.catalogService.getCategoryBySlug(slug);
+
+    if (response.success && response.data && slug === this.slug()) {
+      this.category.set(response.data);
+    }
+  }
+
+  private async loadProducts(query: ProductListQuery): Promise<void> {
+    const requestId = ++this.productsRequestId;
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    const response = await this.catalogService.getProducts(query);
+    if (requestId !== this.productsRequestId) return;
+
+    if (response.success && response.data) {
+      this.result.set(response.data);
+    } else {
+      this.result.set(null);
+      this.errorMessage.set(
+        response.error?.kind === 'not-found'
+          ? this.i18n.t('catalog.categoryNotFound')
+          : response.message || this.i18n.t('catalog.loadFailed')
+      );
+    }
+
+    this.isLoading.set(false);
+  }
+
+  /**
+   * Título provisório enquanto a categoria não carrega ("casa-e-jardim" → "Casa e jardim")
+   */
+  private formatSlug(slug: string): string {
+    const text = slug.replace(/-/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
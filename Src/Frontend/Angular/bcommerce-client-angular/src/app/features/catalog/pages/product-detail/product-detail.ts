@@ -0,0 +1,143 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { CatalogService } from '../../../../core/services/catalog.service';
+import { CartService } from '../../../../core/services/cart.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { APP_CONFIG } from '../../../../core/config/app-config';
+import { Product } from '../../../../core/models';
+import { isInStock } from '../../../../core/utils/product.utils';
+import { MAX_QUANTITY_PER_ITEM } from '../../../../core/utils/cart.utils';
+import { FavoriteButton } from '../../../../shared/components/favorite-button/favorite-button';
+import { ProductGallery } from '../../components/product-gallery/product-gallery';
+import { ProductReviews } from '../../components/product-reviews/product-reviews';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { InstallmentsPipe } from '../../../../shared/pipes/installments.pipe';
+import { PixPricePipe } from '../../../../shared/pipes/pix-price.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Página do produto (/product/:slug)
+ */
+@Component({
+  selector: 'app-product-detail',
+  imports: [RouterLink, BrlPipe, PixPricePipe, InstallmentsPipe, TranslatePipe, ProductGallery, ProductReviews, FavoriteButton],
+  templateUrl: './product-detail.html',
+  styleUrl: './product-detail.css'
+})
+export class ProductDetail {
+  private readonly route = inject(ActivatedRoute);
+  private readonly catalogService = inject(CatalogService);
+  private readonly cartService = inject(CartService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  private readonly config = inject(APP_CONFIG);
+  protected readonly features = this.config.features;
+  protected readonly pixDiscountPercent = this.config.payments.pixDiscountPercent;
+  protected readonly installmentRule = this.config.payments.installments.credit_card;
+  protected readonly locale = this.i18n.locale;
+
+  private readonly paramMap = toSignal(this.route.paramMap, { requireSync: true });
+
+  // Abaixo deste estoque a página avisa que restam poucas unidades
+  private readonly LOW_STOCK_THRESHOLD = 5;
+
+  readonly slug = computed(() => this.paramMap().get('slug') ?? '');
+  readonly product = signal<Product | null>(null);
+  readonly isLoading = signal(true);
+  readonly notFound = signal(false);
+  readonly errorMessage = signal<string | null>(null);
+  readonly quantity = signal(1);
+  readonly isAddingToCart = signal(false);
+
+  readonly inStock = computed(() => {
+    const product = this.product();
+    return !!product && isInStock(product);
+  });
+  readonly isLowStock = computed(() => {
+    const product = this.product();
+    return !!product && this.inStock() && product.stockQuantity <= this.LOW_STOCK_THRESHOLD;
+  });
+  readonly maxQuantity = computed(() => {
+    const product = this.product();
+    if (!product) return 1;
+    // O que já está no carrinho conta para o limite
+    return Math.max(1, Math.min(product.stockQuantity, MAX_QUANTITY_PER_ITEM) - this.cartService.quantityOf(product.id));
+  });
+  readonly inCart = computed(() => {
+    const product = this.product();
+    return product ? this.cartService.quantityOf(product.id) : 0;
+  });
+  readonly currentUrl = computed(() => `/product/${this.slug()}`);
+
+  constructor() {
+    effect(() => {
+      const slug = this.slug();
+      untracked(() => this.loadProduct(slug));
+    });
+  }
+
+  decreaseQuantity(): void {
+    this.setQuantity(this.quantity() - 1);
+  }
+
+  increaseQuantity(): void {
+    this.setQuantity(this.quantity() + 1);
+  }
+
+  /**
+   * Mantém a quantidade entre 1 e o estoque disponível
+   */
+  setQuantity(value: number | string): void {
+    const parsed = Math.floor(Number(value));
+    const quantity = Number.isFinite(parsed) ? parsed : 1;
+    this.quantity.set(Math.min(Math.max(quantity, 1), this.maxQuantity()));
+  }
+
+  async addToCart(): Promise<void> {
+    const product = this.product();
+    if (!product || !this.inStock() || this.isAddingToCart()) return;
+
+    this.isAddingToCart.set(true);
+    try {
+      const response = await this.cartService.addItem(product, this.quantity());
+
+      if (response.success) {
+        this.toastService.success(this.i18n.t('product.addedToCart'));
+        this.quantity.set(1);
+      } else {
+        this.toastService.error(response.message || this.i18n.t('product.addToCartFailed'));
+      }
+    } finally {
+      this.isAddingToCart.set(false);
+    }
+  }
+
+  retry(): void {
+    this.loadProduct(this.slug());
+  }
+
+  private async loadProduct(slug: string): Promise<void> {
+    this.isLoading.set(true);
+    this.notFound.set(false);
+    this.errorMessage.set(null);
+    this.quantity.set(1);
+
+    const response = await this.catalogService.getProductBySlug(slug);
+    if (slug !== this.slug()) return;
+
+    if (response.success && response.data) {
+      this.product.set(response.data);
+    } else {
+      this.product.set(null);
+      if (response.error?.kind === 'not-found') {
+        this.notFound.set(true);
+      } else {
+        this.errorMessage.set(response.message || this.i18n.t('product.loadFailed'));
+      }
+    }
+
+    this.isLoading.set(false);
+  }
+}
@@ -0,0 +1,104 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { CatalogService } from '../../../../core/services/catalog.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { PagedResult, Product, ProductListQuery, ProductSort } from '../../../../core/models';
+import {
+  PRODUCT_SORT_OPTIONS,
+  hasActiveFilters,
+  parseProductQuery,
+  toProductQueryParams
+} from '../../../../core/utils/product-query.utils';
+import { ProductCard } from '../../../../shared/components/product-card/product-card';
+import { Pagination } from '../../../../shared/components/pagination/pagination';
+import { ProductFilters } from '../../components/product-filters/product-filters';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Resultados da busca (/search?q=)
+ * Usa os mesmos filtros e query params da listagem por categoria
+ */
+@Component({
+  selector: 'app-search',
+  imports: [RouterLink, ProductCard, Pagination, ProductFilters, TranslatePipe],
+  templateUrl: './search.html',
+  styleUrl: './search.css'
+})
+export class Search {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly catalogService = inject(CatalogService);
+  private readonly i18n = inject(I18nService);
+
+  private readonly queryParamMap = toSignal(this.route.queryParamMap, { requireSync: true });
+
+  // Descarta respostas de requisições que já foram substituídas por outra
+  private requestId = 0;
+
+  readonly sortOptions = PRODUCT_SORT_OPTIONS;
+
+  readonly query = computed<ProductListQuery>(() => parseProductQuery(this.queryParamMap()));
+  readonly term = computed(() => this.query().search ?? '');
+  readonly hasActiveFilters = computed(() => hasActiveFilters(this.query()));
+
+  readonly result = signal<PagedResult<Product> | null>(null);
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal<string | null>(null);
+
+  constructor() {
+    effect(() => {
+      const query = this.query();
+      untracked(() => this.loadProducts(query));
+    });
+  }
+
+  onSortChange(sort: string): void {
+    this.updateQuery({ sort: sort as ProductSort, pageNumber: 1 });
+  }
+
+  clearFilters(): void {
+    this.updateQuery({ minPrice: undefined, maxPrice: undefined, inStock: false, pageNumber: 1 });
+  }
+
+  onPageChange(page: number): void {
+    this.updateQuery({ pageNumber: page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  retry(): void {
+    this.loadProducts(this.query());
+  }
+
+  updateQuery(changes: Partial<ProductListQuery>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toProductQueryParams({ ...this.query(), ...changes })
+    });
+  }
+
+  private async loadProducts(query: ProductListQuery): Promise<void> {
+    const requestId = ++this.requestId;
+
+    if (!query.search) {
+      this.result.set(null);
+      this.isLoading.set(false);
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    const response = await this.catalogService.getProducts(query);
+    if (requestId !== this.requestId) return;
+
+    if (response.success && response.data) {
+      this.result.set(response.data);
+    } else {
+      this.result.set(null);
+      this.errorMessage.set(response.message || this.i18n.t('catalog.searchFailed'));
+    }
+
+    this.isLoading.set(false);
+  }
+}
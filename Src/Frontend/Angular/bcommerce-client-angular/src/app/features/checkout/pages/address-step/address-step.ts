@@ -0,0 +1,68 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { AddressService } from '../../../../core/services/address.service';
+import { CheckoutService } from '../../../../core/services/checkout.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { Address } from '../../../../core/models';
+import { AddressCard } from '../../../../shared/components/address-card/address-card';
+import { AddressForm } from '../../../../shared/components/address-form/address-form';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Etapa 1 do checkout: escolha (ou cadastro) do endereço de entrega
+ */
+@Component({
+  selector: 'app-address-step',
+  imports: [AddressCard, AddressForm, TranslatePipe],
+  templateUrl: './address-step.html',
+  styleUrl: './address-step.css'
+})
+export class AddressStep implements OnInit {
+  private readonly router = inject(Router);
+  private readonly addressService = inject(AddressService);
+  private readonly checkoutService = inject(CheckoutService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+
+  addresses = signal<Address[]>([]);
+  selectedId = signal<string | null>(null);
+  isLoading = signal(true);
+  showForm = signal(false);
+
+  async ngOnInit(): Promise<void> {
+    try {
+      const response = await this.addressService.getAddresses();
+      const addresses = response.data ?? [];
+      this.addresses.set(addresses);
+
+      const previous = this.checkoutService.state().address?.id;
+      const initial = addresses.find((address) => address.id === previous) ?? addresses.find((a) => a.isDefault) ?? addresses[0];
+      this.selectedId.set(initial?.id ?? null);
+      this.showForm.set(addresses.length === 0);
+
+      if (!response.success) {
+        this.toastService.error(response.message ?? this.i18n.t('checkout.address.loadFailed'));
+      }
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  onAddressSaved(address: Address): void {
+    this.addresses.update((addresses) => [
+      ...addresses.map((item) => (address.isDefault ? { ...item, isDefault: false } : item)),
+      address
+    ]);
+    this.selectedId.set(address.id);
+    this.showForm.set(false);
+  }
+
+  onContinue(): void {
+    const address = this.addresses().find((item) => item.id === this.selectedId());
+    if (!address) return;
+
+    this.checkoutService.selectAddress(address);
+    this.router.navigate(['/checkout', 'shipping']);
+  }
+}
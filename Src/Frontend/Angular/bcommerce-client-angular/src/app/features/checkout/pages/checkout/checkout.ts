@@ -0,0 +1,60 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, NavigationEnd, Router, RouterLink, RouterOutlet } from '@angular/router';
+import { filter, map } from 'rxjs';
+import { CartService } from '../../../../core/services/cart.service';
+import { CheckoutService } from '../../../../core/services/checkout.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { CheckoutStep } from '../../../../core/models';
+import { CHECKOUT_STEPS, stepIndex } from '../../../../core/utils/checkout.utils';
+import { CouponInput } from '../../../../shared/components/coupon-input/coupon-input';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { InstallmentsPipe } from '../../../../shared/pipes/installments.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Assistente de checkout (/checkout/:etapa)
+ * Mostra o progresso e o resumo do pedido; cada etapa é uma rota filha
+ */
+@Component({
+  selector: 'app-checkout',
+  imports: [BrlPipe, InstallmentsPipe, TranslatePipe, RouterLink, RouterOutlet, CouponInput],
+  templateUrl: './checkout.html',
+  styleUrl: './checkout.css'
+})
+export class Checkout implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  protected readonly cartService = inject(CartService);
+  protected readonly checkoutService = inject(CheckoutService);
+  protected readonly locale = inject(I18nService).locale;
+
+  readonly steps = CHECKOUT_STEPS;
+
+  readonly currentStep = toSignal(
+    this.router.events.pipe(
+      filter((event) => event instanceof NavigationEnd),
+      map(() => this.readStep())
+    ),
+    { initialValue: this.readStep() }
+  );
+
+  async ngOnInit(): Promise<void> {
+    // O carrinho pode ter mudado em outra aba ou dispositivo
+    await this.cartService.refresh();
+    await this.cartService.validate();
+  }
+
+  isCurrent(step: CheckoutStep): boolean {
+    return this.currentStep() === step;
+  }
+
+  isDone(step: CheckoutStep): boolean {
+    const current = this.currentStep();
+    return current !== null && stepIndex(step) < stepIndex(current);
+  }
+
+  private readStep(): CheckoutStep | null {
+    return (this.route.firstChild?.snapshot.data['step'] as CheckoutStep | undefined) ?? null;
+  }
+}
@@ -0,0 +1,180 @@
+import { Component, DestroyRef, computed, effect, inject, signal, untracked } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import { OrdersService } from '../../../../core/services/orders.service';
+import { PAYMENT_PROVIDER } from '../../../../core/services/payment-provider';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { APP_CONFIG } from '../../../../core/config/app-config';
+import { TranslationKey } from '../../../../core/i18n';
+import { Order, PaymentCharge, PaymentStatus } from '../../../../core/models';
+import { chargeExpiresAt, formatCountdown, isAwaitingPayment } from '../../../../core/utils/payment.utils';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Confirmação exibida após a criação do pedido (/checkout/confirmation/:orderNumber)
+ *
+ * Pedidos em PIX ou boleto mostram a cobrança e consultam o status do pagamento a cada
+ * `paymentPollMs` até a confirmação, quando a página passa para a tela de sucesso.
+ */
+@Component({
+  selector: 'app-order-confirmation',
+  imports: [RouterLink, DatePipe, BrlPipe, TranslatePipe],
+  templateUrl: './order-confirmation.html',
+  styleUrl: './order-confirmation.css'
+})
+export class OrderConfirmation {
+  private readonly route = inject(ActivatedRoute);
+  private readonly ordersService = inject(OrdersService);
+  private readonly paymentProvider = inject(PAYMENT_PROVIDER);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  private readonly config = inject(APP_CONFIG);
+
+  readonly orderNumber = toSignal(this.route.paramMap.pipe(map((params) => params.get('orderNumber') ?? '')), {
+    requireSync: true
+  });
+
+  readonly order = signal<Order | null>(null);
+  readonly charge = signal<PaymentCharge | null>(null);
+  readonly paymentStatus = signal<PaymentStatus | null>(null);
+  readonly isLoading = signal(true);
+  readonly isIssuingCharge = signal(false);
+  readonly errorMessage = signal<string | null>(null);
+  private readonly now = signal(Date.now());
+
+  /** Aguardando pagamento de uma cobrança válida */
+  readonly isAwaiting = computed(() => !!this.charge() && this.paymentStatus() === 'pending');
+
+  readonly pixCountdown = computed(() => {
+    const charge = this.charge();
+    return charge?.method === 'pix' ? formatCountdown(chargeExpiresAt(charge) - this.now()) : null;
+  });
+
+  private poller: ReturnType<typeof setInterval> | null = null;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    effect(() => {
+      const orderNumber = this.orderNumber();
+      untracked(() => this.load(orderNumber));
+    });
+
+    inject(DestroyRef).onDestroy(() => this.stopTracking());
+  }
+
+  /**
+   * Emite uma nova cobrança depois que a anterior expirou
+   */
+  async renewCharge(): Promise<void> {
+    const order = this.order();
+    if (!order || this.isIssuingCharge()) return;
+    await this.issueCharge(order);
+  }
+
+  async copy(text: string, message: TranslationKey): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+      this.toastService.success(this.i18n.t(message));
+    } catch {
+      this.toastService.error(this.i18n.t('orderConfirmation.copyFailed'));
+    }
+  }
+
+  /**
+   * Copia só os números, que é o que os apps de banco aceitam
+   */
+  copyDigitableLine(line: string): Promise<void> {
+    return this.copy(line.replace(/\D/g, ''), 'orderConfirmation.boleto.copied');
+  }
+
+  retry(): void {
+    this.load(this.orderNumber());
+  }
+
+  private async load(orderNumber: string): Promise<void> {
+    this.stopTracking();
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+    this.charge.set(null);
+    this.paymentStatus.set(null);
+
+    const response = await this.ordersService.getOrderByNumber(orderNumber);
+    if (orderNumber !== this.orderNumber()) return;
+
+    if (response.success && response.data) {
+      this.order.set(response.data);
+      if (isAwaitingPayment(response.data)) {
+        await this.issueCharge(response.data);
+      } else if (response.data.status === 'CANCELLED') {
+        this.paymentStatus.set('failed');
+      }
+    } else {
+      this.order.set(null);
+      this.errorMessage.set(response.message || this.i18n.t('orderConfirmation.loadFailed'));
+    }
+
+    this.isLoading.set(false);
+  }
+
+  private async issueCharge(order: Order): Promise<void> {
+    this.stopTracking();
+    this.isIssuingCharge.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const charge = await this.paymentProvider.getCharge(order);
+      if (order.orderNumber !== this.orderNumber()) return;
+
+      this.charge.set(charge);
+      this.paymentStatus.set('pending');
+      this.startTracking(order, charge);
+    } catch (error) {
+      this.errorMessage.set(error instanceof Error ? error.message : this.i18n.t('orderConfirmation.chargeFailed'));
+    } finally {
+      this.isIssuingCharge.set(false);
+    }
+  }
+
+  private startTracking(order: Order, charge: PaymentCharge): void {
+    this.now.set(Date.now());
+    this.ticker = setInterval(() => {
+      this.now.set(Date.now());
+      if (Date.now() > chargeExpiresAt(charge)) this.finish('expired');
+    }, 1000);
+
+    const interval = this.config.timeouts.paymentPollMs;
+    if (interval > 0) {
+      this.poller = setInterval(() => void this.checkStatus(order, charge), interval);
+    }
+  }
+
+  private async checkStatus(order: Order, charge: PaymentCharge): Promise<void> {
+    const status = await this.paymentProvider.getStatus(order, charge);
+    if (this.charge() !== charge || this.paymentStatus() !== 'pending' || status === 'pending') return;
+
+    this.finish(status);
+    if (status === 'confirmed') {
+      this.toastService.success(this.i18n.t('orderConfirmation.paymentConfirmed'));
+    }
+  }
+
+  private finish(status: PaymentStatus): void {
+    this.stopTracking();
+    this.paymentStatus.set(status);
+  }
+
+  private stopTracking(): void {
+    if (this.poller) {
+      clearInterval(this.poller);
+      this.poller = null;
+    }
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+  }
+}
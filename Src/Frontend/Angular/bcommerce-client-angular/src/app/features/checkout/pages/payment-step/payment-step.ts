@@ -0,0 +1,97 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { CardService } from '../../../../core/services/card.service';
+import { CheckoutService } from '../../../../core/services/checkout.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { APP_CONFIG } from '../../../../core/config/app-config';
+import { TranslationKey } from '../../../../core/i18n';
+import { PaymentMethod, SavedCard } from '../../../../core/models';
+import { PAYMENT_METHOD_LABELS } from '../../../../core/utils/checkout.utils';
+import { isExpired } from '../../../../core/utils/card.utils';
+import { CardForm } from '../../../../shared/components/card-form/card-form';
+import { CardBrandPipe } from '../../../../shared/pipes/card-brand.pipe';
+import { InstallmentsPipe } from '../../../../shared/pipes/installments.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Etapa 3 do checkout: forma de pagamento (cartão salvo, PIX ou boleto)
+ */
+@Component({
+  selector: 'app-payment-step',
+  imports: [RouterLink, CardForm, CardBrandPipe, InstallmentsPipe, TranslatePipe],
+  templateUrl: './payment-step.html',
+  styleUrl: './payment-step.css'
+})
+export class PaymentStep implements OnInit {
+  private readonly router = inject(Router);
+  private readonly cardService = inject(CardService);
+  private readonly checkoutService = inject(CheckoutService);
+  protected readonly pixDiscountPercent = inject(APP_CONFIG).payments.pixDiscountPercent;
+  protected readonly locale = inject(I18nService).locale;
+
+  readonly methods: { value: PaymentMethod; label: TranslationKey; description: TranslationKey }[] = [
+    { value: 'credit_card', label: PAYMENT_METHOD_LABELS.credit_card, description: 'checkout.payment.creditCardDescription' },
+    {
+      value: 'pix',
+      label: PAYMENT_METHOD_LABELS.pix,
+      description:
+        this.pixDiscountPercent > 0 ? 'checkout.payment.pixDiscountDescription' : 'checkout.payment.pixDescription'
+    },
+    { value: 'boleto', label: PAYMENT_METHOD_LABELS.boleto, description: 'checkout.payment.boletoDescription' }
+  ];
+
+  cards = signal<SavedCard[]>([]);
+  isLoadingCards = signal(true);
+  showCardForm = signal(false);
+  selectedMethod = signal<PaymentMethod | null>(this.checkoutService.state().paymentMethod);
+  selectedCardId = signal<string | null>(this.checkoutService.state().card?.id ?? null);
+  selectedInstallments = signal(this.checkoutService.state().installments);
+
+  readonly installmentOptions = computed(() => this.checkoutService.installmentOptions('credit_card'));
+
+  // Se o total mudou e a opção escolhida deixou de existir, volta para à vista
+  readonly installments = computed(() => {
+    const count = this.selectedInstallments();
+    return this.installmentOptions().some((option) => option.count === count) ? count : 1;
+  });
+
+  private readonly selectedCard = computed(
+    () => this.cards().find((card) => card.id === this.selectedCardId()) ?? null
+  );
+
+  readonly canContinue = computed(() => {
+    const method = this.selectedMethod();
+    return method === 'credit_card' ? !!this.selectedCard() : !!method;
+  });
+
+  async ngOnInit(): Promise<void> {
+    try {
+      const response = await this.cardService.getCards();
+      const cards = (response.data ?? []).filter((card) => !isExpired(card.expiryMonth, card.expiryYear));
+      this.cards.set(cards);
+
+      if (!cards.some((card) => card.id === this.selectedCardId())) {
+        this.selectedCardId.set(cards.find((card) => card.isDefault)?.id ?? cards[0]?.id ?? null);
+      }
+    } finally {
+      this.isLoadingCards.set(false);
+    }
+  }
+
+  onCardSaved(card: SavedCard): void {
+    this.cards.update((cards) => [
+      ...cards.map((item) => (card.isDefault ? { ...item, isDefault: false } : item)),
+      card
+    ]);
+    this.selectedCardId.set(card.id);
+    this.showCardForm.set(false);
+  }
+
+  onContinue(): void {
+    const method = this.selectedMethod();
+    if (!method || !this.canContinue()) return;
+
+    this.checkoutService.selectPayment(method, this.selectedCard(), this.installments());
+    this.router.navigate(['/checkout', 'review']);
+  }
+}
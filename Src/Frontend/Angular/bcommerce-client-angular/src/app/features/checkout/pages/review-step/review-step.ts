@@ -0,0 +1,50 @@
+import { Component, inject } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { CartService } from '../../../../core/services/cart.service';
+import { CheckoutService } from '../../../../core/services/checkout.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { formatCityLine, formatStreetLine } from '../../../../core/utils/address.utils';
+import { PAYMENT_METHOD_LABELS } from '../../../../core/utils/checkout.utils';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { CardBrandPipe } from '../../../../shared/pipes/card-brand.pipe';
+import { InstallmentsPipe } from '../../../../shared/pipes/installments.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Etapa 4 do checkout: revisão das escolhas e criação do pedido
+ */
+@Component({
+  selector: 'app-review-step',
+  imports: [BrlPipe, CardBrandPipe, InstallmentsPipe, TranslatePipe, RouterLink],
+  templateUrl: './review-step.html',
+  styleUrl: './review-step.css'
+})
+export class ReviewStep {
+  private readonly router = inject(Router);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  protected readonly cartService = inject(CartService);
+  protected readonly checkoutService = inject(CheckoutService);
+  protected readonly locale = this.i18n.locale;
+
+  readonly paymentLabels = PAYMENT_METHOD_LABELS;
+  readonly formatStreetLine = formatStreetLine;
+  readonly formatCityLine = formatCityLine;
+
+  onNotesChange(notes: string): void {
+    this.checkoutService.setNotes(notes);
+  }
+
+  async onPlaceOrder(): Promise<void> {
+    if (this.cartService.hasPendingChanges() || this.checkoutService.isPlacingOrder()) return;
+
+    const response = await this.checkoutService.placeOrder();
+    if (response.success && response.data) {
+      this.router.navigate(['/checkout', 'confirmation', response.data.orderNumber]);
+      return;
+    }
+
+    this.toastService.error(response.message ?? this.i18n.t('checkout.review.placeFailed'));
+  }
+}
@@ -0,0 +1,79 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { CartService } from '../../../../core/services/cart.service';
+import { CheckoutService } from '../../../../core/services/checkout.service';
+import { OrdersService } from '../../../../core/services/orders.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { ShippingOption } from '../../../../core/models';
+import { formatZipCode } from '../../../../core/utils/address.utils';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Etapa 2 do checkout: cotação e escolha do frete para o endereço escolhido
+ */
+@Component({
+  selector: 'app-shipping-step',
+  imports: [BrlPipe, TranslatePipe, RouterLink],
+  templateUrl: './shipping-step.html',
+  styleUrl: './shipping-step.css'
+})
+export class ShippingStep implements OnInit {
+  private readonly router = inject(Router);
+  private readonly cartService = inject(CartService);
+  private readonly ordersService = inject(OrdersService);
+  private readonly i18n = inject(I18nService);
+  protected readonly checkoutService = inject(CheckoutService);
+
+  readonly formatZipCode = formatZipCode;
+
+  options = signal<ShippingOption[]>([]);
+  selectedId = signal<string | null>(null);
+  isLoading = signal(true);
+  errorMessage = signal<string | null>(null);
+
+  async ngOnInit(): Promise<void> {
+    await this.loadOptions();
+  }
+
+  async loadOptions(): Promise<void> {
+    const address = this.checkoutService.state().address;
+    if (!address) return;
+
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+    try {
+      // Após um refresh o carrinho do servidor ainda pode estar carregando
+      if (this.cartService.isEmpty()) {
+        await this.cartService.refresh();
+      }
+
+      const response = await this.ordersService.getShippingOptions({
+        zipCode: address.zipCode,
+        items: this.cartService.items().map((item) => ({ productId: item.productId, quantity: item.quantity }))
+      });
+
+      if (!response.success) {
+        this.errorMessage.set(response.message ?? this.i18n.t('checkout.shipping.loadFailed'));
+        return;
+      }
+
+      const options = response.data ?? [];
+      this.options.set(options);
+
+      // Mantém a escolha anterior se a opção ainda existir (o preço pode ter mudado)
+      const previous = this.checkoutService.state().shippingOption?.id;
+      this.selectedId.set(options.find((option) => option.id === previous)?.id ?? options[0]?.id ?? null);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  onContinue(): void {
+    const option = this.options().find((item) => item.id === this.selectedId());
+    if (!option) return;
+
+    this.checkoutService.selectShipping(option);
+    this.router.navigate(['/checkout', 'payment']);
+  }
+}
@@ -0,0 +1,64 @@
+import { Component, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CartService } from '../../../../core/services/cart.service';
+import { CartDrawerService } from '../../../../core/services/cart-drawer.service';
+import { FavoritesService } from '../../../../core/services/favorites.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { FavoriteProduct } from '../../../../core/models';
+import { getPrimaryImage, isInStock } from '../../../../core/utils/product.utils';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Lista de favoritos (/favorites) com a opção de mover o produto para o carrinho
+ */
+@Component({
+  selector: 'app-favorites',
+  imports: [BrlPipe, RouterLink, TranslatePipe],
+  templateUrl: './favorites.html',
+  styleUrl: './favorites.css'
+})
+export class Favorites {
+  protected readonly favoritesService = inject(FavoritesService);
+  private readonly cartService = inject(CartService);
+  private readonly cartDrawer = inject(CartDrawerService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+
+  readonly getPrimaryImage = getPrimaryImage;
+  readonly isInStock = isInStock;
+
+  readonly movingId = signal<string | null>(null);
+
+  /**
+   * Adiciona uma unidade ao carrinho e tira o produto dos favoritos
+   */
+  async moveToCart(favorite: FavoriteProduct): Promise<void> {
+    if (this.movingId() || !isInStock(favorite.product)) return;
+
+    this.movingId.set(favorite.productId);
+    try {
+      const response = await this.cartService.addItem(favorite.product);
+      if (!response.success) {
+        this.toastService.error(response.message || this.i18n.t('product.addToCartFailed'));
+        return;
+      }
+
+      await this.favoritesService.remove(favorite.productId);
+      this.toastService.success(this.i18n.t('favorites.movedToCart'));
+      this.cartDrawer.open();
+    } finally {
+      this.movingId.set(null);
+    }
+  }
+
+  async remove(favorite: FavoriteProduct): Promise<void> {
+    const response = await this.favoritesService.remove(favorite.productId);
+    if (response.success) {
+      this.toastService.info(this.i18n.t('favorites.removed'), {
+        action: { label: this.i18n.t('common.undo'), run: () => void this.favoritesService.add(favorite.productId) }
+      });
+    }
+  }
+}
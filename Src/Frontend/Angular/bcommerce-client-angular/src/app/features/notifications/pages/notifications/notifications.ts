@@ -0,0 +1,95 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { NotificationsService } from '../../../../core/services/notifications.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { AppNotification, PagedResult } from '../../../../core/models';
+import { Pagination } from '../../../../shared/components/pagination/pagination';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Todas as notificações do usuário (/notifications?page=)
+ */
+@Component({
+  selector: 'app-notifications',
+  imports: [DatePipe, RouterLink, Pagination, TranslatePipe],
+  templateUrl: './notifications.html',
+  styleUrl: './notifications.css'
+})
+export class Notifications {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  protected readonly notificationsService = inject(NotificationsService);
+  private readonly i18n = inject(I18nService);
+
+  private readonly PAGE_SIZE = 20;
+
+  private readonly queryParamMap = toSignal(this.route.queryParamMap, { requireSync: true });
+
+  // Descarta respostas de requisições que já foram substituídas por outra
+  private requestId = 0;
+
+  readonly pageNumber = computed(() => {
+    const page = Number(this.queryParamMap().get('page'));
+    return Number.isInteger(page) && page > 0 ? page : 1;
+  });
+
+  readonly result = signal<PagedResult<AppNotification> | null>(null);
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal<string | null>(null);
+
+  constructor() {
+    effect(() => {
+      const pageNumber = this.pageNumber();
+      untracked(() => this.loadPage(pageNumber));
+    });
+  }
+
+  async markAsRead(notification: AppNotification): Promise<void> {
+    const response = await this.notificationsService.markAsRead(notification);
+    if (response.success) {
+      this.updateItems((item) => (item.id === notification.id && !item.readAt ? { ...item, readAt: new Date().toISOString() } : item));
+    }
+  }
+
+  async markAllAsRead(): Promise<void> {
+    const response = await this.notificationsService.markAllAsRead();
+    if (response.success) {
+      const readAt = new Date().toISOString();
+      this.updateItems((item) => (item.readAt ? item : { ...item, readAt }));
+    }
+  }
+
+  onPageChange(page: number): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: { page: page > 1 ? page : null } });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  retry(): void {
+    this.loadPage(this.pageNumber());
+  }
+
+  private updateItems(update: (item: AppNotification) => AppNotification): void {
+    this.result.update((result) => (result ? { ...result, items: result.items.map(update) } : result));
+  }
+
+  private async loadPage(pageNumber: number): Promise<void> {
+    const requestId = ++this.requestId;
+
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    const response = await this.notificationsService.getNotifications(pageNumber, this.PAGE_SIZE);
+    if (requestId !== this.requestId) return;
+
+    if (response.success && response.data) {
+      this.result.set(response.data);
+    } else {
+      this.result.set(null);
+      this.errorMessage.set(response.message || this.i18n.t('notifications.loadFailed'));
+    }
+
+    this.isLoading.set(false);
+  }
+}
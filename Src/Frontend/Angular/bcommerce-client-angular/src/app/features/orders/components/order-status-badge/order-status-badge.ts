@@ -0,0 +1,22 @@
+import { Component, computed, input } from '@angular/core';
+import { OrderStatus } from '../../../../core/models';
+import { ORDER_STATUS_BADGE_CLASSES, ORDER_STATUS_LABELS } from '../../../../core/utils/order.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Selo colorido com o status do pedido
+ */
+@Component({
+  selector: 'app-order-status-badge',
+  imports: [TranslatePipe],
+  templateUrl: './order-status-badge.html',
+  styleUrl: './order-status-badge.css'
+})
+export class OrderStatusBadge {
+  readonly status = input.required<OrderStatus>();
+
+  protected readonly label = computed(() => ORDER_STATUS_LABELS[this.status()]);
+  protected readonly classes = computed(
+    () => `inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${ORDER_STATUS_BADGE_CLASSES[this.status()]}`
+  );
+}
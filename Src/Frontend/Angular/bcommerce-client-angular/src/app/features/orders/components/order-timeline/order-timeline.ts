@@ -0,0 +1,21 @@
+import { Component, computed, input } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { OrderDetail } from '../../../../core/models';
+import { buildOrderTimeline } from '../../../../core/utils/order.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Linha do tempo vertical com as etapas do pedido
+ */
+@Component({
+  selector: 'app-order-timeline',
+  imports: [DatePipe, TranslatePipe],
+  templateUrl: './order-timeline.html',
+  styleUrl: './order-timeline.css'
+})
+export class OrderTimeline {
+  readonly order = input.required<OrderDetail>();
+
+  protected readonly steps = computed(() => buildOrderTimeline(this.order()));
+  protected readonly isTerminal = computed(() => ['CANCELLED', 'REFUNDED'].includes(this.order().status));
+}
@@ -0,0 +1,167 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import { CartService } from '../../../../core/services/cart.service';
+import { CartDrawerService } from '../../../../core/services/cart-drawer.service';
+import { CatalogService } from '../../../../core/services/catalog.service';
+import { OrdersService } from '../../../../core/services/orders.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { OrderDetail as OrderDetailModel } from '../../../../core/models';
+import { formatCityLine, formatStreetLine } from '../../../../core/utils/address.utils';
+import { PAYMENT_METHOD_LABELS } from '../../../../core/utils/checkout.utils';
+import { canCancelOrder, canReorder } from '../../../../core/utils/order.utils';
+import { isAwaitingPayment } from '../../../../core/utils/payment.utils';
+import { isInStock } from '../../../../core/utils/product.utils';
+import { OrderStatusBadge } from '../../components/order-status-badge/order-status-badge';
+import { OrderTimeline } from '../../components/order-timeline/order-timeline';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { CardBrandPipe } from '../../../../shared/pipes/card-brand.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Detalhe do pedido (/orders/:orderNumber) com linha do tempo, rastreamento e ações
+ */
+@Component({
+  selector: 'app-order-detail',
+  imports: [BrlPipe, CardBrandPipe, DatePipe, RouterLink, OrderStatusBadge, OrderTimeline, TranslatePipe],
+  templateUrl: './order-detail.html',
+  styleUrl: './order-detail.css'
+})
+export class OrderDetail {
+  private readonly route = inject(ActivatedRoute);
+  private readonly ordersService = inject(OrdersService);
+  private readonly catalogService = inject(CatalogService);
+  private readonly cartService = inject(CartService);
+  private readonly cartDrawer = inject(CartDrawerService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  protected readonly locale = this.i18n.locale;
+
+  readonly paymentLabels = PAYMENT_METHOD_LABELS;
+  readonly formatStreetLine = formatStreetLine;
+  readonly formatCityLine = formatCityLine;
+
+  readonly orderNumber = toSignal(this.route.paramMap.pipe(map((params) => params.get('orderNumber') ?? '')), {
+    requireSync: true
+  });
+
+  readonly order = signal<OrderDetailModel | null>(null);
+  readonly isLoading = signal(true);
+  readonly errorMessage = signal<string | null>(null);
+  readonly isConfirmingCancel = signal(false);
+  readonly isCancelling = signal(false);
+  readonly isReordering = signal(false);
+
+  readonly canCancel = computed(() => {
+    const order = this.order();
+    return !!order && canCancelOrder(order.status);
+  });
+
+  readonly canPay = computed(() => {
+    const order = this.order();
+    return !!order && isAwaitingPayment(order);
+  });
+
+  readonly canReorder = computed(() => {
+    const order = this.order();
+    return !!order && canReorder(order.status);
+  });
+
+  constructor() {
+    effect(() => {
+      const orderNumber = this.orderNumber();
+      untracked(() => this.loadOrder(orderNumber));
+    });
+  }
+
+  async loadOrder(orderNumber = this.orderNumber()): Promise<void> {
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const response = await this.ordersService.getOrderByNumber(orderNumber);
+      if (response.success && response.data) {
+        this.order.set(response.data);
+      } else {
+        this.order.set(null);
+        this.errorMessage.set(
+          response.error?.kind === 'not-found'
+            ? this.i18n.t('orders.detail.notFound')
+            : response.message || this.i18n.t('orders.detail.loadFailed')
+        );
+      }
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  async onCancel(): Promise<void> {
+    const order = this.order();
+    if (!order || this.isCancelling()) return;
+
+    this.isCancelling.set(true);
+    try {
+      const response = await this.ordersService.cancelOrder(order.id);
+      if (response.success) {
+        this.isConfirmingCancel.set(false);
+        this.toastService.success(this.i18n.t('orders.detail.cancelled'));
+        if (response.data) {
+          this.order.set(response.data);
+        } else {
+          await this.loadOrder();
+        }
+      } else {
+        this.toastService.error(response.message || this.i18n.t('orders.detail.cancelFailed'));
+      }
+    } finally {
+      this.isCancelling.set(false);
+    }
+  }
+
+  /**
+   * Adiciona ao carrinho os itens do pedido que ainda estão à venda, com o preço atual
+   */
+  async onReorder(): Promise<void> {
+    const order = this.order();
+    if (!order || this.isReordering()) return;
+
+    this.isReordering.set(true);
+    try {
+      const response = await this.catalogService.getProductsByIds(order.items.map((item) => item.productId));
+      if (!response.success || !response.data) {
+        this.toastService.error(response.message || this.i18n.t('orders.detail.productsFailed'));
+        return;
+      }
+
+      const products = new Map(response.data.map((product) => [product.id, product]));
+      let added = 0;
+      for (const item of order.items) {
+        const product = products.get(item.productId);
+        if (!product || !isInStock(product)) continue;
+
+        const quantity = Math.min(item.quantity, product.stockQuantity - this.cartService.quantityOf(product.id));
+        if (quantity <= 0) continue;
+
+        const result = await this.cartService.addItem(product, quantity);
+        if (result.success) added++;
+      }
+
+      if (added === 0) {
+        this.toastService.warning(this.i18n.t('orders.detail.reorderNone'));
+        return;
+      }
+
+      if (added < order.items.length) {
+        this.toastService.warning(this.i18n.t('orders.detail.reorderPartial'));
+      } else {
+        this.toastService.success(this.i18n.t('orders.detail.reordered'));
+      }
+      this.cartDrawer.open();
+    } finally {
+      this.isReordering.set(false);
+    }
+  }
+}
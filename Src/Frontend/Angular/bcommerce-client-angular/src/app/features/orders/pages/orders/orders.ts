@@ -0,0 +1,104 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { OrdersService } from '../../../../core/services/orders.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { TranslationKey } from '../../../../core/i18n';
+import { Order, OrderListQuery, OrderStatus, PagedResult } from '../../../../core/models';
+import { ORDER_STATUS_LABELS, parseOrderQuery, toOrderQueryParams } from '../../../../core/utils/order.utils';
+import { Pagination } from '../../../../shared/components/pagination/pagination';
+import { OrderStatusBadge } from '../../components/order-status-badge/order-status-badge';
+import { BrlPipe } from '../../../../shared/pipes/brl.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Histórico de pedidos (/orders?status=&from=&to=&page=)
+ */
+@Component({
+  selector: 'app-orders',
+  imports: [BrlPipe, DatePipe, RouterLink, Pagination, OrderStatusBadge, TranslatePipe],
+  templateUrl: './orders.html',
+  styleUrl: './orders.css'
+})
+export class Orders {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly ordersService = inject(OrdersService);
+  private readonly i18n = inject(I18nService);
+
+  private readonly queryParamMap = toSignal(this.route.queryParamMap, { requireSync: true });
+
+  // Descarta respostas de requisições que já foram substituídas por outra
+  private requestId = 0;
+
+  readonly statusOptions = Object.entries(ORDER_STATUS_LABELS) as [OrderStatus, TranslationKey][];
+
+  readonly query = computed<OrderListQuery>(() => parseOrderQuery(this.queryParamMap()));
+  readonly hasActiveFilters = computed(() => {
+    const query = this.query();
+    return !!(query.status || query.from || query.to);
+  });
+
+  readonly result = signal<PagedResult<Order> | null>(null);
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal<string | null>(null);
+
+  constructor() {
+    effect(() => {
+      const query = this.query();
+      untracked(() => this.loadOrders(query));
+    });
+  }
+
+  onStatusChange(status: string): void {
+    this.updateQuery({ status: (status || undefined) as OrderStatus | undefined, pageNumber: 1 });
+  }
+
+  onDateChange(field: 'from' | 'to', value: string): void {
+    this.updateQuery({ [field]: value || undefined, pageNumber: 1 });
+  }
+
+  clearFilters(): void {
+    this.updateQuery({ status: undefined, from: undefined, to: undefined, pageNumber: 1 });
+  }
+
+  onPageChange(page: number): void {
+    this.updateQuery({ pageNumber: page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  retry(): void {
+    this.loadOrders(this.query());
+  }
+
+  itemCount(order: Order): number {
+    return order.items.reduce((total, item) => total + item.quantity, 0);
+  }
+
+  private updateQuery(changes: Partial<OrderListQuery>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toOrderQueryParams({ ...this.query(), ...changes })
+    });
+  }
+
+  private async loadOrders(query: OrderListQuery): Promise<void> {
+    const requestId = ++this.requestId;
+
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    const response = await this.ordersService.getOrders(query);
+    if (requestId !== this.requestId) return;
+
+    if (response.success && response.data) {
+      this.result.set(response.data);
+    } else {
+      this.result.set(null);
+      this.errorMessage.set(response.message || this.i18n.t('orders.loadFailed'));
+    }
+
+    this.isLoading.set(false);
+  }
+}
@@ -0,0 +1,103 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { AddressService } from '../../../../core/services/address.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { Address } from '../../../../core/models';
+import { AddressCard } from '../../../../shared/components/address-card/address-card';
+import { AddressForm } from '../../../../shared/components/address-form/address-form';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Livro de endereços do usuário (/profile/addresses)
+ */
+@Component({
+  selector: 'app-addresses',
+  imports: [RouterLink, AddressCard, AddressForm, TranslatePipe],
+  templateUrl: './addresses.html',
+  styleUrl: './addresses.css'
+})
+export class Addresses implements OnInit {
+  private readonly addressService = inject(AddressService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+
+  addresses = signal<Address[]>([]);
+  isLoading = signal(true);
+  /** 'new' para o formulário de cadastro ou o id do endereço em edição */
+  editingId = signal<string | null>(null);
+  pendingDeleteId = signal<string | null>(null);
+  busyId = signal<string | null>(null);
+
+  async ngOnInit(): Promise<void> {
+    await this.loadAddresses();
+  }
+
+  async loadAddresses(): Promise<void> {
+    this.isLoading.set(true);
+    try {
+      const response = await this.addressService.getAddresses();
+      if (response.success) {
+        this.addresses.set(response.data ?? []);
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('checkout.address.loadFailed'));
+      }
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  startCreate(): void {
+    this.pendingDeleteId.set(null);
+    this.editingId.set('new');
+  }
+
+  startEdit(address: Address): void {
+    this.pendingDeleteId.set(null);
+    this.editingId.set(address.id);
+  }
+
+  cancelEdit(): void {
+    this.editingId.set(null);
+  }
+
+  async onSaved(): Promise<void> {
+    this.editingId.set(null);
+    // Salvar um endereço como padrão altera os demais; recarrega a lista inteira
+    await this.loadAddresses();
+  }
+
+  async setDefault(address: Address): Promise<void> {
+    this.busyId.set(address.id);
+    try {
+      const response = await this.addressService.setDefaultAddress(address.id);
+      if (response.success) {
+        this.addresses.update((addresses) =>
+          addresses.map((item) => ({ ...item, isDefault: item.id === address.id }))
+        );
+        this.toastService.success(this.i18n.t('addresses.defaultUpdated'));
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('addresses.defaultFailed'));
+      }
+    } finally {
+      this.busyId.set(null);
+    }
+  }
+
+  async confirmDelete(address: Address): Promise<void> {
+    this.busyId.set(address.id);
+    try {
+      const response = await this.addressService.deleteAddress(address.id);
+      if (response.success) {
+        this.pendingDeleteId.set(null);
+        this.toastService.success(this.i18n.t('addresses.deleted'));
+        // O backend pode eleger outro endereço como padrão
+        await this.loadAddresses();
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('addresses.deleteFailed'));
+      }
+    } finally {
+      this.busyId.set(null);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CardService } from '../../../../core/services/card.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { SavedCard } from '../../../../core/models';
+import { isExpired } from '../../../../core/utils/card.utils';
+import { CardForm } from '../../../../shared/components/card-form/card-form';
+import { CardBrandPipe } from '../../../../shared/pipes/card-brand.pipe';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Cartões salvos do usuário (/profile/cards)
+ */
+@Component({
+  selector: 'app-cards',
+  imports: [RouterLink, CardForm, CardBrandPipe, TranslatePipe],
+  templateUrl: './cards.html',
+  styleUrl: './cards.css'
+})
+export class Cards implements OnInit {
+  private readonly cardService = inject(CardService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+  protected readonly locale = this.i18n.locale;
+
+  cards = signal<SavedCard[]>([]);
+  isLoading = signal(true);
+  showForm = signal(false);
+  pendingDeleteId = signal<string | null>(null);
+  busyId = signal<string | null>(null);
+
+  async ngOnInit(): Promise<void> {
+    await this.loadCards();
+  }
+
+  async loadCards(): Promise<void> {
+    this.isLoading.set(true);
+    try {
+      const response = await this.cardService.getCards();
+      if (response.success) {
+        this.cards.set(response.data ?? []);
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('cards.loadFailed'));
+      }
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  isCardExpired(card: SavedCard): boolean {
+    return isExpired(card.expiryMonth, card.expiryYear);
+  }
+
+  async onSaved(): Promise<void> {
+    this.showForm.set(false);
+    // Salvar um cartão como padrão altera os demais; recarrega a lista inteira
+    await this.loadCards();
+  }
+
+  async setDefault(card: SavedCard): Promise<void> {
+    this.busyId.set(card.id);
+    try {
+      const response = await this.cardService.setDefaultCard(card.id);
+      if (response.success) {
+        this.cards.update((cards) => cards.map((item) => ({ ...item, isDefault: item.id === card.id })));
+        this.toastService.success(this.i18n.t('cards.defaultUpdated'));
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('cards.defaultFailed'));
+      }
+    } finally {
+      this.busyId.set(null);
+    }
+  }
+
+  async confirmDelete(card: SavedCard): Promise<void> {
+    this.busyId.set(card.id);
+    try {
+      const response = await this.cardService.deleteCard(card.id);
+      if (response.success) {
+        this.pendingDeleteId.set(null);
+        this.toastService.success(this.i18n.t('cards.deleted'));
+        // O backend pode eleger outro cartão como padrão
+        await this.loadCards();
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('cards.deleteFailed'));
+      }
+    } finally {
+      this.busyId.set(null);
+    }
+  }
+}
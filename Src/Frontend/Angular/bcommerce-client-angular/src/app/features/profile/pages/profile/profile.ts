@@ -1,11 +1,193 @@
-import { Component } from '@angular/core';
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { AuthService } from '../../../../core/services/auth.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { APP_CONFIG } from '../../../../core/config/app-config';
+import { TranslationKey } from '../../../../core/i18n';
+import { User } from '../../../../core/models/user.model';
+import { applyServerErrors, getServerError } from '../../../../core/utils/form-errors.utils';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import {
+  matchFieldsValidator,
+  strongPasswordValidator
+} from '../../../../shared/validators/password.validators';
+
+/**
+ * Códigos de erro da troca de senha e os campos a que se referem
+ */
+const PASSWORD_ERROR_FIELDS: Record<string, string> = {
+  INVALID_CURRENT_PASSWORD: 'currentPassword',
+  SAME_PASSWORD: 'newPassword'
+};
 
 @Component({
   selector: 'app-profile',
-  imports: [],
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
   templateUrl: './profile.html',
   styleUrl: './profile.css',
 })
-export class Profile {
+export class Profile implements OnInit {
+  private fb = inject(FormBuilder);
+  private toastService = inject(ToastService);
+  private i18n = inject(I18nService);
+  protected authService = inject(AuthService);
+  protected readonly features = inject(APP_CONFIG).features;
+
+  // Signals para estado do componente
+  isLoadingProfile = signal(false);
+  isSavingProfile = signal(false);
+  isChangingPassword = signal(false);
+  showPasswords = signal(false);
+
+  // Formulários reativos
+  profileForm: FormGroup;
+  passwordForm: FormGroup;
+
+  constructor() {
+    this.profileForm = this.fb.group({
+      fullName: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(255)]],
+      phone: ['', [Validators.maxLength(20)]],
+      birthDate: ['']
+    });
+
+    this.passwordForm = this.fb.group(
+      {
+        currentPassword: ['', [Validators.required]],
+        newPassword: ['', [Validators.required, Validators.minLength(8), strongPasswordValidator]],
+        confirmPassword: ['', [Validators.required]]
+      },
+      { validators: matchFieldsValidator('newPassword', 'confirmPassword') }
+    );
+  }
+
+  async ngOnInit() {
+    this.fillProfileForm(this.authService.currentUser());
+
+    this.isLoadingProfile.set(true);
+    try {
+      const response = await this.authService.loadProfile();
+      if (response.success && !this.profileForm.dirty) {
+        this.fillProfileForm(this.authService.currentUser());
+      }
+    } finally {
+      this.isLoadingProfile.set(false);
+    }
+  }
+
+  togglePasswordsVisibility() {
+    this.showPasswords.update((show) => !show);
+  }
+
+  hasFieldError(form: FormGroup, fieldName: string): boolean {
+    const field = form.get(fieldName);
+    return !!(field && field.errors && field.touched);
+  }
+
+  getFieldError(form: FormGroup, fieldName: string): string | null {
+    const field = form.get(fieldName);
+    if (!field || !field.errors || !field.touched) return null;
+
+    const serverError = getServerError(field);
+    if (serverError) return serverError;
+
+    return this.i18n.validationError(field.errors, this.getFieldLabel(fieldName));
+  }
+
+  passwordsMismatch(): boolean {
+    return (
+      !!this.passwordForm.errors?.['passwordMismatch'] &&
+      !!this.passwordForm.get('confirmPassword')?.touched
+    );
+  }
+
+  private getFieldLabel(fieldName: string): string {
+    const labels: { [key: string]: TranslationKey } = {
+      fullName: 'field.fullName',
+      phone: 'field.phone',
+      birthDate: 'field.birthDate',
+      currentPassword: 'field.currentPassword',
+      newPassword: 'field.newPassword',
+      confirmPassword: 'field.confirmPassword'
+    };
+    return labels[fieldName] ? this.i18n.t(labels[fieldName]) : fieldName;
+  }
+
+  // Salvar dados pessoais (o currentUser é atualizado de forma otimista)
+  async onSaveProfile() {
+    if (!this.profileForm.valid) {
+      this.profileForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSavingProfile.set(true);
+
+    try {
+      const formValue = this.profileForm.value;
+      const response = await this.authService.updateProfile({
+        fullName: formValue.fullName.trim(),
+        phone: (formValue.phone ?? '').trim(),
+        birthDate: formValue.birthDate || null
+      });
+
+      if (response.success) {
+        this.profileForm.markAsPristine();
+        this.toastService.success(this.i18n.t('profile.updated'));
+      } else {
+        if (response.error?.kind === 'validation') {
+          applyServerErrors(this.profileForm, response.error.fieldErrors);
+        }
+        this.fillProfileForm(this.authService.currentUser());
+        this.toastService.error(response.message || this.i18n.t('profile.updateFailed'));
+      }
+    } finally {
+      this.isSavingProfile.set(false);
+    }
+  }
+
+  // Alterar senha; o backend revoga as sessões, então é preciso entrar novamente
+  async onChangePassword() {
+    if (!this.passwordForm.valid) {
+      this.passwordForm.markAllAsTouched();
+      return;
+    }
+
+    this.isChangingPassword.set(true);
+
+    try {
+      const response = await this.authService.changePassword(this.passwordForm.value);
+
+      if (response.success) {
+        this.passwordForm.reset();
+        this.toastService.success(this.i18n.t('profile.passwordChanged'));
+        await this.authService.logout();
+        return;
+      }
+
+      const error = response.error;
+      if (error?.kind === 'validation') {
+        applyServerErrors(this.passwordForm, error.fieldErrors);
+      } else if (error?.code) {
+        // Erros de negócio vêm sem campo associado; o código indica a qual campo pertencem
+        applyServerErrors(this.passwordForm, { [error.code]: [error.message] }, PASSWORD_ERROR_FIELDS);
+      }
+
+      this.toastService.error(response.message || this.i18n.t('profile.passwordChangeFailed'));
+    } finally {
+      this.isChangingPassword.set(false);
+    }
+  }
+
+  private fillProfileForm(user: User | null) {
+    if (!user) return;
 
+    this.profileForm.reset({
+      fullName: user.fullName,
+      phone: user.phone ?? '',
+      birthDate: user.birthDate ? user.birthDate.substring(0, 10) : ''
+    });
+  }
 }
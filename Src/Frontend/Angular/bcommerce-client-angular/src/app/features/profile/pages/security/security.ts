@@ -0,0 +1,166 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { AuthService } from '../../../../core/services/auth.service';
+import { SecurityService } from '../../../../core/services/security.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { I18nService } from '../../../../core/services/i18n.service';
+import { TranslationKey } from '../../../../core/i18n';
+import { PagedResult, SecurityEventType, SecurityLogEntry, UserSession } from '../../../../core/models';
+import {
+  SECURITY_EVENT_LABELS,
+  isAlertEvent,
+  isMobileUserAgent,
+  parseUserAgent
+} from '../../../../core/utils/security.utils';
+import { Pagination } from '../../../../shared/components/pagination/pagination';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/**
+ * Segurança da conta (/profile/security): sessões ativas e eventos recentes
+ */
+@Component({
+  selector: 'app-security',
+  imports: [DatePipe, RouterLink, Pagination, TranslatePipe],
+  templateUrl: './security.html',
+  styleUrl: './security.css'
+})
+export class Security implements OnInit {
+  private readonly securityService = inject(SecurityService);
+  private readonly authService = inject(AuthService);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+
+  private readonly LOGS_PAGE_SIZE = 10;
+
+  readonly isMobileUserAgent = isMobileUserAgent;
+  readonly isAlertEvent = isAlertEvent;
+  readonly eventTypeOptions = Object.entries(SECURITY_EVENT_LABELS) as [SecurityEventType, TranslationKey][];
+
+  sessions = signal<UserSession[]>([]);
+  isLoadingSessions = signal(true);
+  pendingRevokeId = signal<string | null>(null);
+  confirmRevokeOthers = signal(false);
+  busyId = signal<string | null>(null);
+  isRevokingOthers = signal(false);
+
+  readonly otherSessions = computed(() => this.sessions().filter((session) => !session.isCurrent));
+
+  logs = signal<PagedResult<SecurityLogEntry> | null>(null);
+  isLoadingLogs = signal(false);
+  logsError = signal<string | null>(null);
+  eventType = signal<SecurityEventType | null>(null);
+  logsPage = signal(1);
+
+  // Descarta respostas de filtros que já foram trocados
+  private logsRequestId = 0;
+
+  async ngOnInit(): Promise<void> {
+    await Promise.all([this.loadSessions(), this.loadLogs()]);
+  }
+
+  /**
+   * Descrição curta do dispositivo ("Chrome no Windows")
+   */
+  describeUserAgent(userAgent: string | null | undefined): string {
+    const { browser, system } = parseUserAgent(userAgent);
+    if (browser && system) return this.i18n.t('security.device', { browser, system });
+    return browser ?? system ?? this.i18n.t('security.unknownDevice');
+  }
+
+  /**
+   * Eventos que o cliente ainda não conhece aparecem com o nome enviado pela API
+   */
+  eventLabel(eventType: string): string {
+    const key = SECURITY_EVENT_LABELS[eventType as SecurityEventType];
+    return key ? this.i18n.t(key) : eventType;
+  }
+
+  async loadSessions(): Promise<void> {
+    this.isLoadingSessions.set(true);
+    try {
+      const response = await this.securityService.getSessions();
+      if (response.success) {
+        // Sessão atual sempre no topo
+        const sessions = response.data ?? [];
+        this.sessions.set([...sessions.filter((s) => s.isCurrent), ...sessions.filter((s) => !s.isCurrent)]);
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('security.loadSessionsFailed'));
+      }
+    } finally {
+      this.isLoadingSessions.set(false);
+    }
+  }
+
+  async revoke(session: UserSession): Promise<void> {
+    this.busyId.set(session.id);
+    try {
+      const response = await this.securityService.revokeSession(session.id);
+      if (response.success || response.error?.kind === 'not-found') {
+        this.sessions.update((sessions) => sessions.filter((s) => s.id !== session.id));
+        this.pendingRevokeId.set(null);
+        this.toastService.success(this.i18n.t('security.revoked'));
+        void this.loadLogs();
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('security.revokeFailed'));
+      }
+    } finally {
+      this.busyId.set(null);
+    }
+  }
+
+  async revokeOthers(): Promise<void> {
+    this.isRevokingOthers.set(true);
+    try {
+      const response = await this.securityService.revokeOtherSessions();
+      if (response.success) {
+        this.sessions.update((sessions) => sessions.filter((s) => s.isCurrent));
+        this.confirmRevokeOthers.set(false);
+        this.toastService.success(this.i18n.t('security.othersRevoked'));
+        void this.loadLogs();
+      } else {
+        this.toastService.error(response.message ?? this.i18n.t('security.revokeOthersFailed'));
+      }
+    } finally {
+      this.isRevokingOthers.set(false);
+    }
+  }
+
+  logout(): void {
+    void this.authService.logout();
+  }
+
+  onEventTypeChange(value: string): void {
+    this.eventType.set((value || null) as SecurityEventType | null);
+    this.logsPage.set(1);
+    void this.loadLogs();
+  }
+
+  onLogsPageChange(page: number): void {
+    this.logsPage.set(page);
+    void this.loadLogs();
+  }
+
+  async loadLogs(): Promise<void> {
+    const requestId = ++this.logsRequestId;
+
+    this.isLoadingLogs.set(true);
+    this.logsError.set(null);
+
+    const response = await this.securityService.getSecurityLogs({
+      eventType: this.eventType() ?? undefined,
+      pageNumber: this.logsPage(),
+      pageSize: this.LOGS_PAGE_SIZE
+    });
+    if (requestId !== this.logsRequestId) return;
+
+    if (response.success && response.data) {
+      this.logs.set(response.data);
+    } else {
+      this.logs.set(null);
+      this.logsError.set(response.message || this.i18n.t('security.loadEventsFailed'));
+    }
+
+    this.isLoadingLogs.set(false);
+  }
+}
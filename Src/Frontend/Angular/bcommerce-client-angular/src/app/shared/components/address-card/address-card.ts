@@ -0,0 +1,21 @@
+import { Component, input } from '@angular/core';
+import { Address } from '../../../core/models';
+import { formatCityLine, formatStreetLine } from '../../../core/utils/address.utils';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Resumo de um endereço (livro de endereços e checkout)
+ * Ações como editar ou excluir são projetadas pelo componente pai
+ */
+@Component({
+  selector: 'app-address-card',
+  imports: [TranslatePipe],
+  templateUrl: './address-card.html',
+  styleUrl: './address-card.css'
+})
+export class AddressCard {
+  readonly address = input.required<Address>();
+
+  readonly formatStreetLine = formatStreetLine;
+  readonly formatCityLine = formatCityLine;
+}
@@ -0,0 +1,86 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { AddressService } from '../../../core/services/address.service';
+import { CEP_LOOKUP, StaticCepLookupProvider } from '../../../core/services/cep-lookup';
+import { AddressForm } from './address-form';
+
+// CEPs conhecidos pelo stub; o segundo é um CEP geral de cidade, sem rua nem bairro
+const CEPS = new StaticCepLookupProvider([
+  { zipCode: '01310-100', street: 'Avenida Paulista', neighborhood: 'Bela Vista', city: 'São Paulo', state: 'SP' },
+  { zipCode: '13165000', street: '', neighborhood: '', city: 'Engenheiro Coelho', state: 'SP' }
+]);
+
+describe('AddressForm', () => {
+  let fixture: ComponentFixture<AddressForm>;
+  let form: AddressForm['form'];
+  let zipInput: HTMLInputElement;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [AddressForm],
+      providers: [
+        { provide: CEP_LOOKUP, useValue: CEPS },
+        { provide: AddressService, useValue: {} }
+      ]
+    });
+
+    fixture = TestBed.createComponent(AddressForm);
+    fixture.detectChanges();
+    form = fixture.componentInstance.form;
+    zipInput = fixture.nativeElement.querySelector('#zipCode');
+  });
+
+  function typeZipCode(value: string): void {
+    zipInput.value = value;
+    zipInput.dispatchEvent(new Event('input'));
+  }
+
+  it('masks the CEP while it is typed', () => {
+    typeZipCode('0131');
+    expect(zipInput.value).toBe('0131');
+
+    typeZipCode('013101');
+    expect(zipInput.value).toBe('01310-1');
+    expect(form.controls.zipCode.value).toBe('01310-1');
+  });
+
+  it('fills street, neighborhood, city and state from the CEP', async () => {
+    typeZipCode('01310100');
+    await fixture.whenStable();
+
+    expect(form.controls.zipCode.value).toBe('01310-100');
+    expect(form.getRawValue()).toEqual(
+      jasmine.objectContaining({ street: 'Avenida Paulista', neighborhood: 'Bela Vista', city: 'São Paulo', state: 'SP' })
+    );
+    expect(fixture.componentInstance.isLookingUpCep()).toBeFalse();
+    expect(fixture.componentInstance.cepNotFound()).toBeFalse();
+  });
+
+  it('keeps the fields a city-wide CEP does not have', async () => {
+    form.patchValue({ street: 'Rua das Flores', neighborhood: 'Centro' });
+
+    typeZipCode('13165-000');
+    await fixture.whenStable();
+
+    expect(form.getRawValue()).toEqual(
+      jasmine.objectContaining({ street: 'Rua das Flores', neighborhood: 'Centro', city: 'Engenheiro Coelho', state: 'SP' })
+    );
+  });
+
+  it('flags an unknown CEP and leaves the address untouched', async () => {
+    typeZipCode('99999-999');
+    await fixture.whenStable();
+
+    expect(fixture.componentInstance.cepNotFound()).toBeTrue();
+    expect(form.controls.street.value).toBe('');
+    expect(form.controls.city.value).toBe('');
+  });
+
+  it('does not look up incomplete CEPs', async () => {
+    spyOn(CEPS, 'lookup').and.callThrough();
+
+    typeZipCode('01310-10');
+    await fixture.whenStable();
+
+    expect(CEPS.lookup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { Component, DestroyRef, effect, inject, input, output, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { distinctUntilChanged, filter, map } from 'rxjs';
+import { AddressService } from '../../../core/services/address.service';
+import { CEP_LOOKUP } from '../../../core/services/cep-lookup';
+import { ToastService } from '../../../core/services/toast.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { TranslationKey } from '../../../core/i18n';
+import { Address, AddressRequest } from '../../../core/models';
+import { maskZipCode, normalizeZipCode } from '../../../core/utils/address.utils';
+import { applyServerErrors, getServerError } from '../../../core/utils/form-errors.utils';
+import { CepMaskDirective } from '../../directives/cep-mask.directive';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Formulário de cadastro e edição de endereço
+ * Ao completar o CEP, preenche rua, bairro, cidade e UF pelo provedor CEP_LOOKUP
+ */
+@Component({
+  selector: 'app-address-form',
+  imports: [ReactiveFormsModule, CepMaskDirective, TranslatePipe],
+  templateUrl: './address-form.html',
+  styleUrl: './address-form.css'
+})
+export class AddressForm {
+  private readonly fb = inject(FormBuilder);
+  private readonly addressService = inject(AddressService);
+  private readonly cepLookup = inject(CEP_LOOKUP);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+
+  /** Endereço em edição; null para cadastrar um novo */
+  readonly address = input<Address | null>(null);
+  readonly cancelable = input(true);
+  readonly saved = output<Address>();
+  readonly cancelled = output<void>();
+
+  isSaving = signal(false);
+  isLookingUpCep = signal(false);
+  cepNotFound = signal(false);
+
+  readonly form = this.fb.nonNullable.group({
+    recipientName: ['', [Validators.required, Validators.maxLength(255)]],
+    zipCode: ['', [Validators.required, Validators.pattern(/^\d{5}-\d{3}$/)]],
+    street: ['', [Validators.required, Validators.maxLength(255)]],
+    number: ['', [Validators.required, Validators.maxLength(20)]],
+    complement: ['', [Validators.maxLength(255)]],
+    neighborhood: ['', [Validators.required, Validators.maxLength(100)]],
+    city: ['', [Validators.required, Validators.maxLength(100)]],
+    state: ['', [Validators.required, Validators.pattern(/^[A-Za-z]{2}$/)]],
+    isDefault: [false]
+  });
+
+  // Descarta respostas de CEPs que já foram substituídos por outro
+  private lookupId = 0;
+
+  constructor() {
+    effect(() => {
+      const address = this.address();
+      this.form.reset(
+        address
+          ? {
+              recipientName: address.recipientName,
+              zipCode: maskZipCode(address.zipCode),
+              street: address.street,
+              number: address.number,
+              complement: address.complement ?? '',
+              neighborhood: address.neighborhood,
+              city: address.city,
+              state: address.state,
+              isDefault: address.isDefault
+            }
+          : undefined,
+        { emitEvent: false }
+      );
+    });
+
+    this.form.controls.zipCode.valueChanges
+      .pipe(
+        map(normalizeZipCode),
+        distinctUntilChanged(),
+        filter((digits) => digits.length === 8),
+        takeUntilDestroyed(inject(DestroyRef))
+      )
+      .subscribe((digits) => void this.lookupCep(digits));
+  }
+
+  get isEditing(): boolean {
+    return this.address() !== null;
+  }
+
+  hasFieldError(fieldName: string): boolean {
+    const field = this.form.get(fieldName);
+    return !!(field && field.errors && field.touched);
+  }
+
+  getFieldError(fieldName: string): string | null {
+    const field = this.form.get(fieldName);
+    if (!field || !field.errors || !field.touched) return null;
+
+    const serverError = getServerError(field);
+    if (serverError) return serverError;
+    if (field.errors['pattern']) {
+      return this.i18n.t(fieldName === 'zipCode' ? 'address.invalidZipCode' : 'address.invalidState');
+    }
+
+    return this.i18n.validationError(field.errors, this.getFieldLabel(fieldName));
+  }
+
+  private getFieldLabel(fieldName: string): string {
+    const labels: { [key: string]: TranslationKey } = {
+      recipientName: 'address.recipientName',
+      zipCode: 'address.zipCode',
+      street: 'address.street',
+      number: 'address.number',
+      complement: 'address.complement',
+      neighborhood: 'address.neighborhood',
+      city: 'address.city',
+      state: 'address.state'
+    };
+    return labels[fieldName] ? this.i18n.t(labels[fieldName]) : fieldName;
+  }
+
+  async onSubmit(): Promise<void> {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    const request: AddressRequest = {
+      ...value,
+      zipCode: normalizeZipCode(value.zipCode),
+      state: value.state.toUpperCase(),
+      complement: value.complement.trim() || null
+    };
+
+    const editing = this.address();
+    this.isSaving.set(true);
+    try {
+      const response = editing
+        ? await this.addressService.updateAddress(editing.id, request)
+        : await this.addressService.createAddress(request);
+
+      if (response.success && response.data) {
+        this.toastService.success(this.i18n.t(editing ? 'address.updated' : 'address.created'));
+        this.saved.emit(response.data);
+        return;
+      }
+
+      if (response.error?.kind === 'validation') {
+        applyServerErrors(this.form, response.error.fieldErrors);
+      }
+      this.toastService.error(response.message || this.i18n.t('address.saveFailed'));
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  onCancel(): void {
+    this.cancelled.emit();
+  }
+
+  private async lookupCep(digits: string): Promise<void> {
+    const lookupId = ++this.lookupId;
+    this.isLookingUpCep.set(true);
+    this.cepNotFound.set(false);
+
+    try {
+      const result = await this.cepLookup.lookup(digits);
+      if (lookupId !== this.lookupId) return;
+
+      if (!result) {
+        this.cepNotFound.set(true);
+        return;
+      }
+
+      // Campos que o CEP não traz (ex.: CEP geral da cidade) continuam como estão
+      const patch = Object.fromEntries(
+        Object.entries({
+          street: result.street,
+          neighborhood: result.neighborhood,
+          city: result.city,
+          state: result.state
+        }).filter(([, value]) => value.trim() !== '')
+      );
+      this.form.patchValue(patch);
+    } finally {
+      if (lookupId === this.lookupId) {
+        this.isLookingUpCep.set(false);
+      }
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { CardService } from '../../../core/services/card.service';
+import { CARD_TOKENIZER } from '../../../core/services/card-tokenizer';
+import { ToastService } from '../../../core/services/toast.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { TranslationKey } from '../../../core/i18n';
+import { CardDetails, CardToken, SaveCardRequest, SavedCard } from '../../../core/models';
+import {
+  CARD_BRAND_LABELS,
+  cvvLength,
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiry,
+  normalizeCardNumber,
+  parseExpiry
+} from '../../../core/utils/card.utils';
+import { cardExpiryValidator, cardNumberValidator, cvvLengthValidator } from '../../validators/card.validators';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Formulário de cadastro de cartão
+ * O número e o CVV são enviados apenas ao tokenizador (CARD_TOKENIZER); o backend recebe o token
+ */
+@Component({
+  selector: 'app-card-form',
+  imports: [ReactiveFormsModule, TranslatePipe],
+  templateUrl: './card-form.html',
+  styleUrl: './card-form.css'
+})
+export class CardForm {
+  private readonly fb = inject(FormBuilder);
+  private readonly cardService = inject(CardService);
+  private readonly tokenizer = inject(CARD_TOKENIZER);
+  private readonly toastService = inject(ToastService);
+  private readonly i18n = inject(I18nService);
+
+  readonly cancelable = input(true);
+  readonly saved = output<SavedCard>();
+  readonly cancelled = output<void>();
+
+  isSaving = signal(false);
+
+  readonly form = this.fb.nonNullable.group(
+    {
+      number: ['', [Validators.required, cardNumberValidator]],
+      holderName: ['', [Validators.required, Validators.maxLength(255)]],
+      expiry: ['', [Validators.required, cardExpiryValidator]],
+      cvv: ['', [Validators.required, Validators.pattern(/^\d{3,4}$/)]],
+      isDefault: [false]
+    },
+    { validators: cvvLengthValidator('number', 'cvv') }
+  );
+
+  private readonly number = toSignal(this.form.controls.number.valueChanges, { initialValue: '' });
+
+  readonly brand = computed(() => detectCardBrand(this.number()));
+  readonly brandLabel = computed(() => CARD_BRAND_LABELS[this.brand()]);
+  readonly cvvDigits = computed(() => cvvLength(this.brand()));
+
+  onNumberInput(event: Event): void {
+    this.applyFormat(event, formatCardNumber, this.form.controls.number);
+  }
+
+  onExpiryInput(event: Event): void {
+    this.applyFormat(event, formatExpiry, this.form.controls.expiry);
+  }
+
+  hasFieldError(fieldName: string): boolean {
+    const field = this.form.get(fieldName);
+    if (fieldName === 'cvv' && field?.touched && this.form.errors?.['cvvLength']) return true;
+    return !!(field && field.errors && field.touched);
+  }
+
+  getFieldError(fieldName: string): string | null {
+    const field = this.form.get(fieldName);
+    if (!field || !field.touched) return null;
+
+    const errors = field.errors;
+    if (fieldName === 'cvv' && !errors?.['required'] && (errors?.['pattern'] || this.form.errors?.['cvvLength'])) {
+      return this.i18n.t('card.cvvLength', { digits: this.cvvDigits() });
+    }
+
+    return this.i18n.validationError(errors, this.getFieldLabel(fieldName));
+  }
+
+  private getFieldLabel(fieldName: string): string {
+    const labels: { [key: string]: TranslationKey } = {
+      number: 'card.number',
+      holderName: 'card.holderName',
+      expiry: 'card.expiry',
+      cvv: 'card.cvv'
+    };
+    return labels[fieldName] ? this.i18n.t(labels[fieldName]) : fieldName;
+  }
+
+  async onSubmit(): Promise<void> {
+    const value = this.form.getRawValue();
+    const expiry = parseExpiry(value.expiry);
+    if (this.form.invalid || !expiry) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.isSaving.set(true);
+    try {
+      const token = await this.tokenize({
+        number: normalizeCardNumber(value.number),
+        holderName: value.holderName.trim(),
+        expiryMonth: expiry.month,
+        expiryYear: expiry.year,
+        cvv: value.cvv
+      });
+      if (!token) return;
+
+      const request: SaveCardRequest = {
+        token: token.token,
+        cardholderName: value.holderName.trim().toUpperCase(),
+        cardNumberLastFour: token.lastFour,
+        cardBrand: token.brand,
+        expiryMonth: expiry.month,
+        expiryYear: expiry.year,
+        isDefault: value.isDefault
+      };
+
+      const response = await this.cardService.addCard(request);
+      if (response.success && response.data) {
+        this.form.reset();
+        this.toastService.success(this.i18n.t('card.saved'));
+        this.saved.emit(response.data);
+      } else {
+        this.toastService.error(response.message || this.i18n.t('card.saveFailed'));
+      }
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  onCancel(): void {
+    this.form.reset();
+    this.cancelled.emit();
+  }
+
+  private async tokenize(card: CardDetails): Promise<CardToken | null> {
+    try {
+      return await this.tokenizer.tokenize(card);
+    } catch (error) {
+      this.toastService.error(error instanceof Error ? error.message : this.i18n.t('card.validationFailed'));
+      return null;
+    }
+  }
+
+  private applyFormat(event: Event, format: (value: string) => string, control: { setValue(value: string): void }): void {
+    const input = event.target as HTMLInputElement;
+    const formatted = format(input.value);
+    if (formatted !== input.value) {
+      input.value = formatted;
+      control.setValue(formatted);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Component, computed, effect, inject, untracked } from '@angular/core';
+import { NavigationStart, Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter } from 'rxjs';
+import { CartService } from '../../../core/services/cart.service';
+import { CartDrawerService } from '../../../core/services/cart-drawer.service';
+import { CartLine } from '../cart-line/cart-line';
+import { BrlPipe } from '../../pipes/brl.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Carrinho lateral (slide-over) aberto pelo botão do header
+ */
+@Component({
+  selector: 'app-cart-drawer',
+  imports: [BrlPipe, RouterLink, CartLine, TranslatePipe],
+  templateUrl: './cart-drawer.html',
+  styleUrl: './cart-drawer.css',
+  host: {
+    '(document:keydown.escape)': 'drawer.close()'
+  }
+})
+export class CartDrawer {
+  protected readonly cartService = inject(CartService);
+  protected readonly drawer = inject(CartDrawerService);
+
+  protected readonly changesByProduct = computed(
+    () => new Map(this.cartService.changes().map((change) => [change.productId, change]))
+  );
+
+  constructor() {
+    // Confere preços e estoque sempre que o drawer abre
+    effect(() => {
+      if (this.drawer.isOpen()) {
+        untracked(() => void this.cartService.validate());
+      }
+    });
+
+    // Qualquer navegação fecha o drawer
+    inject(Router)
+      .events.pipe(
+        filter((event) => event instanceof NavigationStart),
+        takeUntilDestroyed()
+      )
+      .subscribe(() => this.drawer.close());
+  }
+
+  acknowledgeChanges(): void {
+    void this.cartService.acknowledgeChanges();
+  }
+}
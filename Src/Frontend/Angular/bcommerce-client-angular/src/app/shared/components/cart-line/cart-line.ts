@@ -0,0 +1,56 @@
+import { Component, computed, inject, input, output } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CartService } from '../../../core/services/cart.service';
+import { CartItem, CartItemChange } from '../../../core/models';
+import { MAX_QUANTITY_PER_ITEM } from '../../../core/utils/cart.utils';
+import { BrlPipe } from '../../pipes/brl.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Linha de item do carrinho (drawer e página /cart)
+ * Destaca mudanças de preço ou estoque detectadas por CartService.validate()
+ */
+@Component({
+  selector: 'app-cart-line',
+  imports: [BrlPipe, RouterLink, TranslatePipe],
+  templateUrl: './cart-line.html',
+  styleUrl: './cart-line.css'
+})
+export class CartLine {
+  private readonly cartService = inject(CartService);
+
+  readonly item = input.required<CartItem>();
+  readonly change = input<CartItemChange | null>(null);
+  readonly compact = input(false);
+  /** Emitido ao seguir o link do produto (o drawer usa para fechar) */
+  readonly navigate = output<void>();
+
+  protected readonly maxQuantity = computed(() => {
+    const stock = this.item().productSnapshot?.stockQuantity;
+    return stock !== undefined ? Math.min(stock, MAX_QUANTITY_PER_ITEM) : MAX_QUANTITY_PER_ITEM;
+  });
+
+  protected readonly priceDirection = computed(() => {
+    const change = this.change();
+    if (!change?.priceChanged) return null;
+    return change.currentPrice > change.previousPrice ? 'up' : 'down';
+  });
+
+  decrease(): void {
+    const item = this.item();
+    if (item.quantity > 1) {
+      void this.cartService.updateQuantity(item.productId, item.quantity - 1);
+    }
+  }
+
+  increase(): void {
+    const item = this.item();
+    if (item.quantity < this.maxQuantity()) {
+      void this.cartService.updateQuantity(item.productId, item.quantity + 1);
+    }
+  }
+
+  remove(): void {
+    void this.cartService.removeItem(this.item().productId);
+  }
+}
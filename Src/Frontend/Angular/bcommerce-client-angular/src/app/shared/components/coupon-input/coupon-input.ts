@@ -0,0 +1,43 @@
+import { Component, inject, signal } from '@angular/core';
+import { CouponService } from '../../../core/services/coupon.service';
+import { BrlPipe } from '../../pipes/brl.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Campo de cupom de desconto (carrinho e checkout)
+ * Mostra o desconto do cupom aplicado ou o motivo de ele não valer para o carrinho atual
+ */
+@Component({
+  selector: 'app-coupon-input',
+  imports: [BrlPipe, TranslatePipe],
+  templateUrl: './coupon-input.html',
+  styleUrl: './coupon-input.css'
+})
+export class CouponInput {
+  protected readonly couponService = inject(CouponService);
+
+  code = signal('');
+  errorMessage = signal<string | null>(null);
+
+  onCodeInput(value: string): void {
+    this.code.set(value);
+    this.errorMessage.set(null);
+  }
+
+  async onApply(event?: Event): Promise<void> {
+    event?.preventDefault();
+    if (!this.code().trim() || this.couponService.isApplying()) return;
+
+    const eligibility = await this.couponService.apply(this.code());
+    if (eligibility.eligible) {
+      this.code.set('');
+      this.errorMessage.set(null);
+    } else {
+      this.errorMessage.set(this.couponService.describe(eligibility));
+    }
+  }
+
+  onRemove(): void {
+    this.couponService.remove();
+  }
+}
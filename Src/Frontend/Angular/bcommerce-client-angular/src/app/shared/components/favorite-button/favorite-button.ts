@@ -0,0 +1,45 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { Product } from '../../../core/models';
+import { FavoritesService } from '../../../core/services/favorites.service';
+import { I18nService } from '../../../core/services/i18n.service';
+
+/**
+ * Botão de coração que favorita ou desfavorita o produto
+ * Pode ficar dentro de links (cards de produto): o clique não propaga para o link
+ */
+@Component({
+  selector: 'app-favorite-button',
+  templateUrl: './favorite-button.html',
+  styleUrl: './favorite-button.css'
+})
+export class FavoriteButton {
+  private readonly favoritesService = inject(FavoritesService);
+  private readonly i18n = inject(I18nService);
+  protected readonly enabled = this.favoritesService.enabled;
+
+  readonly product = input.required<Product>();
+  /** overlay: círculo sobre a imagem do card; outline: botão com borda ao lado de outras ações */
+  readonly variant = input<'overlay' | 'outline'>('overlay');
+
+  protected readonly isFavorite = computed(() => this.favoritesService.isFavorite(this.product().id));
+  protected readonly isPending = computed(() => this.favoritesService.isPending(this.product().id));
+  protected readonly label = computed(() =>
+    this.i18n.t(this.isFavorite() ? 'favorites.remove' : 'favorites.add')
+  );
+
+  protected readonly buttonClasses = computed(() => {
+    const base = 'flex items-center justify-center transition-colors disabled:opacity-60';
+    const color = this.isFavorite() ? 'text-red-500' : 'text-gray-500 hover:text-red-500';
+    return this.variant() === 'overlay'
+      ? `${base} ${color} w-9 h-9 rounded-full bg-white/90 shadow-sm`
+      : `${base} ${color} w-11 h-11 rounded-lg border border-gray-300 hover:bg-red-50`;
+  });
+
+  onClick(event: Event): void {
+    event.preventDefault();
+    event.stopPropagation();
+    if (this.isPending()) return;
+
+    void this.favoritesService.toggle(this.product());
+  }
+}
@@ -1,39 +1,51 @@
-import { Component } from '@angular/core';
+import { Component, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
-import { FormsModule } from '@angular/forms';
+import { I18nService } from '../../../core/services/i18n.service';
+import { ToastService } from '../../../core/services/toast.service';
+import { TranslationKey } from '../../../core/i18n';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+interface FooterLink {
+  label: TranslationKey;
+  route: string;
+}
 
 @Component({
   selector: 'app-footer',
   standalone: true,
-  imports: [CommonModule, RouterLink, FormsModule],
+  imports: [CommonModule, RouterLink, TranslatePipe],
   templateUrl: './footer.html',
   styleUrl: './footer.css'
 })
 export class Footer {
-  newsletterEmail: string = '';
+  private i18n = inject(I18nService);
+  private toastService = inject(ToastService);
+
+  // Campo da newsletter sem FormsModule, que ficaria no bundle inicial só por este input
+  newsletterEmail = signal('');
   currentYear: number = new Date().getFullYear();
 
   // Links de navegação organizados por seção
-  aboutLinks = [
-    { label: 'Sobre Nós', route: '/about' },
-    { label: 'Nossa História', route: '/history' },
-    { label: 'Carreiras', route: '/careers' },
-    { label: 'Imprensa', route: '/press' }
+  aboutLinks: FooterLink[] = [
+    { label: 'footer.about.aboutUs', route: '/about' },
+    { label: 'footer.about.history', route: '/history' },
+    { label: 'footer.about.careers', route: '/careers' },
+    { label: 'footer.about.press', route: '/press' }
   ];
 
-  customerServiceLinks = [
-    { label: 'Central de Ajuda', route: '/help' },
-    { label: 'Fale Conosco', route: '/contact' },
-    { label: 'Trocas e Devoluções', route: '/returns' },
-    { label: 'Política de Privacidade', route: '/privacy' }
+  customerServiceLinks: FooterLink[] = [
+    { label: 'footer.service.help', route: '/help' },
+    { label: 'footer.service.contact', route: '/contact' },
+    { label: 'footer.service.returns', route: '/returns' },
+    { label: 'footer.service.privacy', route: '/privacy' }
   ];
 
-  categoryLinks = [
-    { label: 'Eletrônicos', route: '/category/electronics' },
-    { label: 'Roupas', route: '/category/clothing' },
-    { label: 'Casa e Jardim', route: '/category/home-garden' },
-    { label: 'Esportes', route: '/category/sports' }
+  categoryLinks: FooterLink[] = [
+    { label: 'footer.categories.electronics', route: '/category/electronics' },
+    { label: 'footer.categories.clothing', route: '/category/clothing' },
+    { label: 'footer.categories.homeGarden', route: '/category/home-garden' },
+    { label: 'footer.categories.sports', route: '/category/sports' }
   ];
 
   socialLinks = [
@@ -51,13 +63,13 @@ export class Footer {
   ];
 
   onNewsletterSubmit() {
-    if (this.newsletterEmail && this.isValidEmail(this.newsletterEmail)) {
-      console.log('Newsletter subscription:', this.newsletterEmail);
+    const email = this.newsletterEmail();
+    if (email && this.isValidEmail(email)) {
       // Aqui você pode implementar a lógica de inscrição na newsletter
-      this.newsletterEmail = '';
-      alert('Obrigado por se inscrever em nossa newsletter!');
+      this.newsletterEmail.set('');
+      this.toastService.success(this.i18n.t('footer.newsletter.success'));
     } else {
-      alert('Por favor, insira um email válido.');
+      this.toastService.error(this.i18n.t('footer.newsletter.invalid'));
     }
   }
 
@@ -1,12 +1,21 @@
-import { Component, HostListener, signal } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, HostListener, computed, inject, signal } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
 import { UserIcon } from '../../icons/user-icon/user-icon';
 import { HeartIcon } from '../../icons/heart-icon/heart-icon';
 import { CartIcon } from '../../icons/cart-icon/cart-icon';
+import { SearchBox } from '../search-box/search-box';
+import { NotificationBell } from '../notification-bell/notification-bell';
+import { AuthService } from '../../../core/services/auth.service';
+import { CartService } from '../../../core/services/cart.service';
+import { CartDrawerService } from '../../../core/services/cart-drawer.service';
+import { FavoritesService } from '../../../core/services/favorites.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { Locale, TranslationKey, isLocale } from '../../../core/i18n';
+import { TranslatePipe } from '../../pipes/translate.pipe';
 
 @Component({
   selector: 'app-header',
-  imports: [UserIcon, HeartIcon, CartIcon],
+  imports: [RouterLink, UserIcon, HeartIcon, CartIcon, SearchBox, NotificationBell, TranslatePipe],
   templateUrl: './header.html',
   styleUrl: './header.css',
 })
@@ -17,6 +26,33 @@ export class Header {
   // Signal para controlar o estado do menu mobile
   isMobileMenuOpen = signal(false);
 
+  protected readonly authService = inject(AuthService);
+  protected readonly cartService = inject(CartService);
+  protected readonly cartDrawer = inject(CartDrawerService);
+  protected readonly favoritesService = inject(FavoritesService);
+  protected readonly i18n = inject(I18nService);
+
+  // Badge do carrinho limitado a dois dígitos
+  cartBadge = computed(() => {
+    const total = this.cartService.totalItems();
+    return total > 99 ? '99+' : String(total);
+  });
+
+  cartLabel = computed(() => {
+    const total = this.cartService.totalItems();
+    return this.i18n.t(total === 1 ? 'header.cartLabel.one' : 'header.cartLabel.other', { count: total });
+  });
+
+  favoritesBadge = computed(() => {
+    const total = this.favoritesService.count();
+    return total > 99 ? '99+' : String(total);
+  });
+
+  favoritesLabel = computed(() => {
+    const total = this.favoritesService.count();
+    return this.i18n.t(total === 1 ? 'header.favoritesLabel.one' : 'header.favoritesLabel.other', { count: total });
+  });
+
   constructor(private router: Router) {}
 
   @HostListener('window:scroll', [])
@@ -82,6 +118,17 @@ export class Header {
     this.isMobileMenuOpen.set(false);
   }
 
+  localeLabel(locale: Locale): TranslationKey {
+    return `language.${locale}`;
+  }
+
+  // Troca o idioma da interface pelo seletor do header
+  changeLocale(value: string) {
+    if (isLocale(value)) {
+      this.i18n.setLocale(value);
+    }
+  }
+
   // Função para navegar para a página de login
   navigateToLogin() {
     this.router.navigate(['/login']);
@@ -0,0 +1,22 @@
+import { Component, inject } from '@angular/core';
+import { IdleService } from '../../../core/services/idle.service';
+import { AuthService } from '../../../core/services/auth.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Aviso de logout por inatividade, com contagem regressiva
+ */
+@Component({
+  selector: 'app-idle-warning',
+  imports: [TranslatePipe],
+  templateUrl: './idle-warning.html',
+  styleUrl: './idle-warning.css'
+})
+export class IdleWarning {
+  protected readonly idleService = inject(IdleService);
+  private readonly authService = inject(AuthService);
+
+  onLogout(): void {
+    void this.authService.logout();
+  }
+}
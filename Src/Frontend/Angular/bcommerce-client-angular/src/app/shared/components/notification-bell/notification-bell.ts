@@ -0,0 +1,55 @@
+import { Component, ElementRef, HostListener, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { AppNotification } from '../../../core/models';
+import { NotificationsService } from '../../../core/services/notifications.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Sino do header com o total de não lidas e as notificações mais recentes
+ */
+@Component({
+  selector: 'app-notification-bell',
+  imports: [DatePipe, RouterLink, TranslatePipe],
+  templateUrl: './notification-bell.html',
+  styleUrl: './notification-bell.css'
+})
+export class NotificationBell {
+  protected readonly notificationsService = inject(NotificationsService);
+  private readonly router = inject(Router);
+  private readonly elementRef = inject(ElementRef<HTMLElement>);
+
+  readonly isOpen = signal(false);
+
+  toggle(): void {
+    const open = !this.isOpen();
+    this.isOpen.set(open);
+    if (open) {
+      void this.notificationsService.refresh();
+    }
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+  }
+
+  async open(notification: AppNotification): Promise<void> {
+    void this.notificationsService.markAsRead(notification);
+    if (notification.link) {
+      this.close();
+      await this.router.navigateByUrl(notification.link);
+    }
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.isOpen() && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.close();
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  onEscape(): void {
+    this.close();
+  }
+}
@@ -0,0 +1,46 @@
+import { Component, computed, input, output } from '@angular/core';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Paginação numérica com reticências
+ * Mostra a primeira, a última e as páginas vizinhas da atual
+ */
+@Component({
+  selector: 'app-pagination',
+  imports: [TranslatePipe],
+  templateUrl: './pagination.html',
+  styleUrl: './pagination.css'
+})
+export class Pagination {
+  readonly page = input.required<number>();
+  readonly totalPages = input.required<number>();
+  readonly pageChange = output<number>();
+
+  // Quantidade de páginas exibidas de cada lado da atual
+  private readonly SIBLINGS = 1;
+
+  protected readonly pages = computed<(number | null)[]>(() => {
+    const current = this.page();
+    const total = this.totalPages();
+    const result: (number | null)[] = [];
+
+    for (let page = 1; page <= total; page++) {
+      const isEdge = page === 1 || page === total;
+      const isNear = Math.abs(page - current) <= this.SIBLINGS;
+
+      if (isEdge || isNear) {
+        result.push(page);
+      } else if (result[result.length - 1] !== null) {
+        result.push(null);
+      }
+    }
+
+    return result;
+  });
+
+  protected goTo(page: number): void {
+    if (page >= 1 && page <= this.totalPages() && page !== this.page()) {
+      this.pageChange.emit(page);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { APP_CONFIG } from '../../../core/config/app-config';
+import { Product } from '../../../core/models';
+import { I18nService } from '../../../core/services/i18n.service';
+import { getPrimaryImage, isInStock } from '../../../core/utils/product.utils';
+import { FavoriteButton } from '../favorite-button/favorite-button';
+import { BrlPipe } from '../../pipes/brl.pipe';
+import { InstallmentsPipe } from '../../pipes/installments.pipe';
+import { PixPricePipe } from '../../pipes/pix-price.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Card de produto usado nas listagens do catálogo
+ */
+@Component({
+  selector: 'app-product-card',
+  imports: [RouterLink, BrlPipe, PixPricePipe, InstallmentsPipe, TranslatePipe, FavoriteButton],
+  templateUrl: './product-card.html',
+  styleUrl: './product-card.css'
+})
+export class ProductCard {
+  readonly product = input.required<Product>();
+
+  protected readonly locale = inject(I18nService).locale;
+  protected readonly installmentRule = inject(APP_CONFIG).payments.installments.credit_card;
+
+  protected readonly image = computed(() => getPrimaryImage(this.product()));
+  protected readonly inStock = computed(() => isInStock(this.product()));
+}
@@ -0,0 +1,169 @@
+import { Component, ElementRef, HostListener, computed, inject, input, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { SearchService } from '../../../core/services/search.service';
+import { getPrimaryImage } from '../../../core/utils/product.utils';
+import { HighlightPipe } from '../../pipes/highlight.pipe';
+import { BrlPipe } from '../../pipes/brl.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Opção navegável do dropdown (setas + Enter)
+ */
+interface SearchOption {
+  kind: 'recent' | 'category' | 'product' | 'search';
+  label: string;
+  url: string;
+  queryParams?: Record<string, string>;
+  /** Termo registrado nas buscas recentes ao escolher a opção */
+  term?: string;
+  imageUrl?: string | null;
+  price?: number;
+}
+
+/**
+ * Campo de busca do header com typeahead de produtos e categorias
+ */
+@Component({
+  selector: 'app-search-box',
+  imports: [BrlPipe, HighlightPipe, TranslatePipe],
+  templateUrl: './search-box.html',
+  styleUrl: './search-box.css',
+  host: { class: 'block w-full' }
+})
+export class SearchBox {
+  private readonly router = inject(Router);
+  private readonly elementRef = inject(ElementRef<HTMLElement>);
+  protected readonly searchService = inject(SearchService);
+
+  readonly barClass = input('');
+  readonly inputClass = input('');
+  /** Sem valor usa o texto padrão do idioma escolhido */
+  readonly placeholder = input<string | null>(null);
+
+  // Identificador único para os atributos ARIA (o header tem duas instâncias)
+  private static nextId = 0;
+  protected readonly listboxId = `search-box-${SearchBox.nextId++}`;
+
+  protected readonly term = signal('');
+  protected readonly isOpen = signal(false);
+  protected readonly activeIndex = signal(-1);
+
+  private readonly hasTerm = computed(() => this.term().trim().length >= this.searchService.minTermLength);
+
+  protected readonly showingRecent = computed(() => !this.hasTerm());
+
+  protected readonly options = computed<SearchOption[]>(() => {
+    const term = this.term().trim();
+
+    if (!this.hasTerm()) {
+      return this.searchService.recentSearches().map((recent) => ({
+        kind: 'recent',
+        label: recent,
+        url: '/search',
+        queryParams: { q: recent },
+        term: recent
+      }));
+    }
+
+    const suggestions = this.searchService.suggestions();
+    // Sugestões de um termo anterior não são exibidas
+    const current = suggestions && suggestions.term === term ? suggestions : null;
+
+    return [
+      ...(current?.categories ?? []).map<SearchOption>((category) => ({
+        kind: 'category',
+        label: category.name,
+        url: `/category/${category.slug}`
+      })),
+      ...(current?.products ?? []).map<SearchOption>((product) => ({
+        kind: 'product',
+        label: product.name,
+        url: `/product/${product.slug}`,
+        imageUrl: getPrimaryImage(product)?.imageUrl ?? null,
+        price: product.price
+      })),
+      { kind: 'search', label: term, url: '/search', queryParams: { q: term }, term }
+    ];
+  });
+
+  protected readonly activeOptionId = computed(() =>
+    this.isOpen() && this.activeIndex() >= 0 ? `${this.listboxId}-${this.activeIndex()}` : null
+  );
+
+  onInput(value: string): void {
+    this.term.set(value);
+    this.activeIndex.set(-1);
+    this.isOpen.set(true);
+    this.searchService.suggest(value);
+  }
+
+  onFocus(): void {
+    this.isOpen.set(true);
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const total = this.options().length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.isOpen.set(true);
+        if (total > 0) this.activeIndex.update((index) => (index + 1) % total);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (total > 0) this.activeIndex.update((index) => (index <= 0 ? total - 1 : index - 1));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const option = this.options()[this.activeIndex()];
+        if (this.isOpen() && option) {
+          this.choose(option);
+        } else {
+          this.submit();
+        }
+        break;
+      }
+      case 'Escape':
+        this.close();
+        break;
+    }
+  }
+
+  /**
+   * Busca o termo digitado na página de resultados
+   */
+  submit(): void {
+    const term = this.term().trim();
+    if (!term) return;
+
+    this.choose({ kind: 'search', label: term, url: '/search', queryParams: { q: term }, term });
+  }
+
+  choose(option: SearchOption): void {
+    if (option.term) {
+      this.searchService.addRecent(option.term);
+      this.term.set(option.term);
+    }
+
+    this.close();
+    this.router.navigate([option.url], { queryParams: option.queryParams });
+  }
+
+  removeRecent(event: Event, term: string): void {
+    event.stopPropagation();
+    this.searchService.removeRecent(term);
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+    this.activeIndex.set(-1);
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.isOpen() && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.close();
+    }
+  }
+}
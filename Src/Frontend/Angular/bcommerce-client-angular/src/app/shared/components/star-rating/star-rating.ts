@@ -0,0 +1,44 @@
+import { Component, computed, input, output, signal } from '@angular/core';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Estrelas de avaliação (1 a 5)
+ * Somente leitura por padrão; com `editable` funciona como seletor de nota
+ */
+@Component({
+  selector: 'app-star-rating',
+  imports: [TranslatePipe],
+  templateUrl: './star-rating.html',
+  styleUrl: './star-rating.css'
+})
+export class StarRating {
+  readonly rating = input(0);
+  readonly size = input(16);
+  readonly editable = input(false);
+  readonly ratingChange = output<number>();
+
+  protected readonly stars = [1, 2, 3, 4, 5];
+  protected readonly hovered = signal<number | null>(null);
+
+  // Nota exibida: a que está sob o cursor durante a seleção, senão a atual
+  protected readonly displayed = computed(() => this.hovered() ?? this.rating());
+
+  /**
+   * Percentual preenchido de cada estrela (permite meias estrelas na média)
+   */
+  protected fill(star: number): number {
+    return Math.round(Math.min(Math.max(this.displayed() - (star - 1), 0), 1) * 100);
+  }
+
+  protected select(star: number): void {
+    if (this.editable()) {
+      this.ratingChange.emit(star);
+    }
+  }
+
+  protected hover(star: number | null): void {
+    if (this.editable()) {
+      this.hovered.set(star);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { Directive, ElementRef, inject } from '@angular/core';
+import { NgControl } from '@angular/forms';
+import { maskZipCode } from '../../core/utils/address.utils';
+
+/**
+ * Máscara de CEP (00000-000) para inputs, com ou sem formulário reativo
+ *
+ * @example
+ * <input cepMask formControlName="zipCode" />
+ */
+@Directive({
+  selector: 'input[cepMask]',
+  host: {
+    inputmode: 'numeric',
+    maxlength: '9',
+    '(input)': 'onInput()'
+  }
+})
+export class CepMaskDirective {
+  private readonly element = inject<ElementRef<HTMLInputElement>>(ElementRef);
+  private readonly ngControl = inject(NgControl, { self: true, optional: true });
+
+  onInput(): void {
+    const input = this.element.nativeElement;
+    const masked = maskZipCode(input.value);
+    if (masked === input.value) return;
+
+    input.value = masked;
+    this.ngControl?.control?.setValue(masked);
+  }
+}
@@ -0,0 +1,41 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { AuthService } from '../../core/services/auth.service';
+
+/**
+ * Diretiva estrutural que renderiza o conteúdo apenas para os papéis informados
+ * Reage a login, logout e renovação de token, pois lê os signals do AuthService
+ *
+ * @example
+ * <a *hasRole="'Admin'" routerLink="/admin">Painel</a>
+ * <section *hasRole="['Admin', 'Manager']; else semAcesso">...</section>
+ */
+@Directive({
+  selector: '[hasRole]'
+})
+export class HasRoleDirective {
+  private readonly authService = inject(AuthService);
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+
+  readonly hasRole = input.required<string | string[]>();
+  readonly hasRoleElse = input<TemplateRef<unknown> | null>(null);
+
+  // Template renderizado no momento; evita recriar a view quando nada mudou
+  private rendered: TemplateRef<unknown> | null | undefined;
+
+  constructor() {
+    effect(() => {
+      const required = this.hasRole();
+      const roles = Array.isArray(required) ? required : [required];
+      const template = this.authService.hasRole(...roles) ? this.templateRef : this.hasRoleElse();
+
+      if (template === this.rendered) return;
+
+      this.rendered = template;
+      this.viewContainer.clear();
+      if (template) {
+        this.viewContainer.createEmbeddedView(template);
+      }
+    });
+  }
+}
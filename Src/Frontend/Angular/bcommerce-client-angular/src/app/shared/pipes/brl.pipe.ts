@@ -0,0 +1,14 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { formatBRL } from '../../core/utils/money.utils';
+
+/**
+ * Formata um valor em reais: {{ product.price | brl }} → R$ 1.234,56
+ */
+@Pipe({
+  name: 'brl'
+})
+export class BrlPipe implements PipeTransform {
+  transform(value: number | null | undefined): string {
+    return value === null || value === undefined ? '' : formatBRL(value);
+  }
+}
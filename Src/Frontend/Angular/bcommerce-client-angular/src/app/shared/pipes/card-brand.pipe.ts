@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { Locale } from '../../core/i18n';
+import { I18nService } from '../../core/services/i18n.service';
+import { CARD_BRAND_LABELS, isCardBrand } from '../../core/utils/card.utils';
+
+/**
+ * Nome da bandeira de um cartão salvo: {{ card.cardBrand | cardBrand: locale() }} → Mastercard
+ * Valores que não são um código de bandeira (cartões salvos com o nome) aparecem como vieram
+ */
+@Pipe({
+  name: 'cardBrand'
+})
+export class CardBrandPipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(brand: string, locale: Locale): string {
+    return isCardBrand(brand) ? this.i18n.t(CARD_BRAND_LABELS[brand], undefined, locale) : brand;
+  }
+}
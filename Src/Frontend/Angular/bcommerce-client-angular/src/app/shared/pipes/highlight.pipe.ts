@@ -0,0 +1,20 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { splitMatches } from '../../core/utils/text.utils';
+
+/**
+ * Divide o texto em trechos para destacar o termo buscado no template
+ * Retorna segmentos em vez de HTML, evitando innerHTML com conteúdo do catálogo
+ *
+ * @example
+ * @for (part of product.name | highlight: term; track $index) {
+ *   <span [class.font-semibold]="part.match">{{ part.text }}</span>
+ * }
+ */
+@Pipe({
+  name: 'highlight'
+})
+export class HighlightPipe implements PipeTransform {
+  transform(text: string | null | undefined, term: string | null | undefined): { text: string; match: boolean }[] {
+    return splitMatches(text ?? '', term ?? '');
+  }
+}
@@ -0,0 +1,31 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { InstallmentRule } from '../../core/config/app-config';
+import { Locale } from '../../core/i18n';
+import { InstallmentOption } from '../../core/models';
+import { I18nService } from '../../core/services/i18n.service';
+import { calculateInstallments, formatBRL, highlightedInstallment } from '../../core/utils/money.utils';
+
+/**
+ * Texto de parcelamento de um valor: {{ product.price | installments: locale() : installmentRule }} → 12x de R$ 10,00 sem juros
+ * Sem uma opção com mais de uma parcela o resultado é vazio.
+ * Também aceita uma opção já calculada: {{ option | installments: locale() }}
+ * Puro: o idioma vem como argumento, e é ele que faz o texto ser recalculado ao trocar de idioma
+ */
+@Pipe({
+  name: 'installments'
+})
+export class InstallmentsPipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(value: number | InstallmentOption | null | undefined, locale: Locale, rule?: InstallmentRule): string {
+    if (value === null || value === undefined) return '';
+
+    const option = typeof value === 'number' ? highlightedInstallment(calculateInstallments(value, rule)) : value;
+    if (!option) return '';
+
+    const params = { count: option.count, amount: formatBRL(option.amount) };
+    return option.interestFree
+      ? this.i18n.t('money.installment.interestFree', params, locale)
+      : this.i18n.t('money.installment.withInterest', params, locale);
+  }
+}
@@ -0,0 +1,17 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { APP_CONFIG } from '../../core/config/app-config';
+import { pixPrice } from '../../core/utils/money.utils';
+
+/**
+ * Valor à vista no PIX, com o desconto configurado: {{ product.price | pixPrice | brl }}
+ */
+@Pipe({
+  name: 'pixPrice'
+})
+export class PixPricePipe implements PipeTransform {
+  private readonly paymentRules = inject(APP_CONFIG).payments;
+
+  transform(value: number): number {
+    return pixPrice(value, this.paymentRules);
+  }
+}
@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { TranslationKey, TranslationParams } from '../../core/i18n';
+import { I18nService } from '../../core/services/i18n.service';
+
+/**
+ * Traduz uma chave no template: {{ 'login.title' | t }}
+ * Impuro para refletir a troca de idioma sem que a chave mude
+ */
+@Pipe({
+  name: 't',
+  pure: false
+})
+export class TranslatePipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(key: TranslationKey, params?: TranslationParams): string {
+    return this.i18n.t(key, params);
+  }
+}
@@ -0,0 +1,49 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import {
+  cardNumberLengths,
+  cvvLength,
+  detectCardBrand,
+  isExpired,
+  luhnCheck,
+  normalizeCardNumber,
+  parseExpiry
+} from '../../core/utils/card.utils';
+
+/**
+ * Número do cartão: quantidade de dígitos da bandeira e dígito verificador (Luhn)
+ */
+export const cardNumberValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  const digits = normalizeCardNumber(control.value ?? '');
+  if (!digits) return null;
+
+  if (!cardNumberLengths(detectCardBrand(digits)).includes(digits.length)) {
+    return { cardNumberLength: true };
+  }
+  return luhnCheck(digits) ? null : { cardNumber: true };
+};
+
+/**
+ * Validade MM/AA: mês válido e não vencida
+ */
+export const cardExpiryValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  const value: string = control.value ?? '';
+  if (!value) return null;
+
+  const expiry = parseExpiry(value);
+  if (!expiry) return { cardExpiry: true };
+  return isExpired(expiry.month, expiry.year) ? { cardExpired: true } : null;
+};
+
+/**
+ * Validador de grupo: o CVV deve ter o tamanho exigido pela bandeira do número
+ * O erro `cvvLength` é registrado no grupo
+ */
+export function cvvLengthValidator(numberField: string, cvvField: string): ValidatorFn {
+  return (group: AbstractControl): ValidationErrors | null => {
+    const cvv: string = group.get(cvvField)?.value ?? '';
+    if (!cvv) return null;
+
+    const expected = cvvLength(detectCardBrand(group.get(numberField)?.value ?? ''));
+    return cvv.length === expected ? null : { cvvLength: expected };
+  };
+}
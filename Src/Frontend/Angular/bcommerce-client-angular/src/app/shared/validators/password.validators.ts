@@ -0,0 +1,33 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * Senha forte: exige letra maiúscula, minúscula e número
+ * (o tamanho mínimo fica a cargo do Validators.minLength)
+ */
+export const strongPasswordValidator: ValidatorFn = (
+  control: AbstractControl
+): ValidationErrors | null => {
+  const value = control.value;
+  if (!value) return null;
+
+  const hasUpperCase = /[A-Z]/.test(value);
+  const hasLowerCase = /[a-z]/.test(value);
+  const hasNumeric = /[0-9]/.test(value);
+
+  const valid = hasUpperCase && hasLowerCase && hasNumeric;
+  return valid ? null : { strongPassword: true };
+};
+
+/**
+ * Validador de grupo que exige o mesmo valor em dois campos
+ * O erro `passwordMismatch` é registrado no grupo
+ */
+export function matchFieldsValidator(field: string, confirmField: string): ValidatorFn {
+  return (group: AbstractControl): ValidationErrors | null => {
+    const value = group.get(field)?.value;
+    const confirmValue = group.get(confirmField)?.value;
+
+    if (!confirmValue) return null;
+    return value === confirmValue ? null : { passwordMismatch: true };
+  };
+}
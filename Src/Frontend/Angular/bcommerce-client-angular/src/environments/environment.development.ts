@@ -0,0 +1,42 @@
+import { AppConfig } from '../app/core/config/app-config';
+
+/**
+ * Valores padrão de desenvolvimento (serviços rodando localmente)
+ */
+export const environment: AppConfig = {
+  apiBaseUrl: 'http://localhost:5050',
+  services: {
+    auth: '/api/auth',
+    users: '/api/users',
+    catalog: '/api/catalog',
+    cart: '/api/cart',
+    orders: '/api/orders',
+    promotions: '/api/promotions',
+    notifications: '/api/notifications'
+  },
+  features: {
+    guestCart: true,
+    wishlist: true,
+    productReviews: true,
+    fakePayments: true
+  },
+  timeouts: {
+    httpRequestMs: 30_000,
+    tokenRefreshLeadMs: 30_000,
+    idleLogoutMs: 30 * 60_000,
+    idleWarningMs: 60_000,
+    notificationsPollMs: 60_000,
+    paymentPollMs: 5_000
+  },
+  payments: {
+    pixDiscountPercent: 5,
+    installments: {
+      credit_card: {
+        maxInstallments: 12,
+        interestFreeInstallments: 6,
+        monthlyInterestPercent: 1.99,
+        minInstallmentAmount: 10
+      }
+    }
+  }
+};
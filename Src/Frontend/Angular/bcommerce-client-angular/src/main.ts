@@ -1,6 +1,18 @@
 import { bootstrapApplication } from '@angular/platform-browser';
+import { mergeApplicationConfig } from '@angular/core';
 import { appConfig } from './app/app.config';
 import { App } from './app/app';
+import { APP_CONFIG, loadAppConfig } from './app/core/config/app-config';
 
-bootstrapApplication(App, appConfig)
+// A configuração de execução é carregada antes do bootstrap para que
+// o mesmo build possa ser promovido entre ambientes
+loadAppConfig()
+  .then((config) =>
+    bootstrapApplication(
+      App,
+      mergeApplicationConfig(appConfig, {
+        providers: [{ provide: APP_CONFIG, useValue: config }]
+      })
+    )
+  )
   .catch((err) => console.error(err));